@@ -1,248 +1,180 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI } from '@google/genai';
+import React, { useState } from 'react';
 import { 
-  MapPin, 
   Mic, 
   MicOff, 
   Navigation, 
-  Search, 
   ExternalLink,
-  Loader2,
   RefreshCw,
   BrainCircuit,
   AlertTriangle,
-  History,
   Settings,
-  X
 } from 'lucide-react';
 
-// --- Types ---
-interface ErrandStop {
-  id: string;
-  name: string;
-  address: string;
-  category: string;
-  reason: string;
-  arrivalEstimate: string;
-  parkingDifficulty: 'Easy' | 'Moderate' | 'Difficult';
-  crowdLevel: 'Low' | 'Medium' | 'High';
-  googleMapsUrl: string;
-  parkingAdvice?: string;
-  trafficNote?: string;
-}
-
-interface ErrandPlan {
-  summary: string;
-  stops: ErrandStop[];
-  totalTime: string;
-  efficiencyScore: number;
-  alternatives?: { original: string; suggested: string; benefit: string }[];
-  householdSuggestions?: string[];
-  reasoning: string;
-}
-
-
-// --- Utilities ---
-const renderVal = (val: any) => {
-  if (val === undefined || val === null) return '';
-  return String(val);
-};
-
-const extractJSON = (text: string) => {
-  try {
-    const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    const jsonStart = cleanText.indexOf('{');
-    const jsonEnd = cleanText.lastIndexOf('}') + 1;
-    if (jsonStart === -1 || jsonEnd === 0) return null;
-    return JSON.parse(cleanText.substring(jsonStart, jsonEnd));
-  } catch (e) {
-    console.error("JSON Extraction Error:", e);
-    return null;
-  }
-};
+import type { ErrandPlan, ErrandStop, LatLng, UserPreferences } from './types';
+import { renderVal } from './utils/format';
+import StopCard from './components/StopCard';
+import RouteComparisonPanel from './components/RouteComparisonPanel';
+import RouteMap from './components/RouteMap';
+import type { MapLayerId } from './components/mapLayers';
+import PlanEditToolbar from './components/PlanEditToolbar';
+import { usePlanHistory } from './hooks/usePlanHistory';
+import { removeStop, toggleStopDone } from './utils/planEdits';
+import { diffPlans } from './utils/planDiff';
+import type { PlannerSettings } from './services/planner';
+import SettingsPanel from './components/SettingsPanel';
+import MissionHistory from './components/MissionHistory';
+import type { SavedMission } from './services/missionStore';
+import TripPanel from './components/TripPanel';
+import { useTripMode } from './hooks/useTripMode';
+import { buildPlanDirectionsUrl } from './utils/mapsUrl';
+import ExportMenu from './components/ExportMenu';
+import { buildShareUrl, SharedPlan } from './utils/shareLink';
+import { useSharedPlanLink } from './hooks/useSharedPlanLink';
+import { useActiveMission } from './hooks/useActiveMission';
+import HouseholdEditor from './components/HouseholdEditor';
+import HouseholdRoutes from './components/HouseholdRoutes';
+import { isHouseholdPlan, reassignStop } from './utils/household';
+import { planTravelMode } from './utils/travelModes';
+import TimeInvestmentCard from './components/TimeInvestmentCard';
+import type { DwellDefaults } from './utils/dwell';
+import { legTo } from './utils/planTiming';
+import { toggleItem } from './utils/errandItems';
+import OriginPicker from './components/OriginPicker';
+import { LocaleSettings, t } from './utils/i18n';
+import type { VoiceSettings } from './services/voiceSession';
+import { useVoiceCommands } from './hooks/useVoiceCommands';
+import { useSettings } from './hooks/useSettings';
+import { useOrigin } from './hooks/useOrigin';
+import { useHousehold } from './hooks/useHousehold';
+import { usePlanEditor } from './hooks/usePlanEditor';
+import { usePlanGeneration } from './hooks/usePlanGeneration';
+import MissionInput from './components/MissionInput';
+import StreamingStops from './components/StreamingStops';
+import SharedPlanBanner from './components/SharedPlanBanner';
+import PlanNotices from './components/PlanNotices';
+import StopDetailDialog from './components/StopDetailDialog';
 
 export default function ErrandOS() {
   // App State
   const [input, setInput] = useState('');
-  const [isListening, setIsListening] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [plan, setPlan] = useState<ErrandPlan | null>(null);
-  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
-  const [locationName, setLocationName] = useState('Locating...');
   const [error, setError] = useState<string | null>(null);
-  const [history, setHistory] = useState<string[]>([]);
+  const [mapLayer, setMapLayer] = useState<MapLayerId>('osm');
+  const [selectedStop, setSelectedStop] = useState<ErrandStop | null>(null);
+
+  const history = usePlanHistory();
+  const { plan, resetPlan, commitPlan, patchPlan, undo, redo, canUndo, canRedo } = history;
+  const settings = useSettings();
+  const household = useHousehold();
+  // Opens the link after the first render, when the handlers below exist.
+  const sharedLink = useSharedPlanLink((shared) => openSharedPlan(shared));
+  const { isSharedView } = sharedLink;
+  const origin = useOrigin(settings.preferences, settings.plannerSettings.coarseOrigin, !!sharedLink.initial?.origin);
+  const { location, locationName } = origin;
+  const missionHistory = useActiveMission(plan);
+  const trip = useTripMode(plan, location, patchPlan);
+  const editor = usePlanEditor({ history, origin: location, settings, readOnly: isSharedView, geocode: origin.geocode });
+
+  // Shows a plan that did not come from the model: a shared link or a saved mission.
+  const showPlan = (shown: ErrandPlan, from: LatLng | null, fromName: string) => {
+    setError(null);
+    if (from) origin.setOrigin(from, fromName);
+    editor.setDiff(null);
+    editor.setTravelMode(planTravelMode(shown));
+    resetPlan(shown);
+  };
 
-  const recognitionRef = useRef<any>(null);
-  const processedResultCountRef = useRef(0);
-  const silenceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const generatePlanRef = useRef<(_?: boolean) => void>(() => {});
+  const openSharedPlan = (shared: SharedPlan) => {
+    showPlan(shared.plan, shared.origin, shared.locationName);
+    missionHistory.setActiveId(null);
+  };
 
-  const [selectedStop, setSelectedStop] = useState<ErrandStop | null>(null);
+  // Saved plans open instantly; no model call needed.
+  const restoreMission = (mission: SavedMission) => {
+    showPlan(mission.plan, mission.origin, mission.locationName);
+    setInput(mission.input);
+    missionHistory.setActiveId(mission.id);
+    trip.stop();
+    sharedLink.leave();
+  };
 
-  useEffect(() => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (SpeechRecognition) {
-      recognitionRef.current = new SpeechRecognition();
-      recognitionRef.current.continuous = true;
-      recognitionRef.current.interimResults = true;
-      recognitionRef.current.maxAlternatives = 3;
-      recognitionRef.current.lang = 'en-US';
-
-      recognitionRef.current.onresult = (event: any) => {
-        const results = event.results;
-        const transcripts: string[] = [];
-        for (let i = processedResultCountRef.current; i < results.length; i++) {
-          const result = results[i];
-          if (result.isFinal && result[0]) {
-            transcripts.push(result[0].transcript.trim());
-            processedResultCountRef.current = i + 1;
-          }
-        }
-        if (transcripts.length > 0) {
-          const newText = transcripts.join(', ');
-          setInput((prev) => (prev ? `${prev}, ${newText}` : newText));
-          // Reset 3s silence timer — when it fires, auto-stop and calculate
-          if (silenceTimeoutRef.current) clearTimeout(silenceTimeoutRef.current);
-          silenceTimeoutRef.current = setTimeout(() => {
-            silenceTimeoutRef.current = null;
-            recognitionRef.current?.stop();
-            setIsListening(false);
-            processedResultCountRef.current = 0;
-            setTimeout(() => generatePlanRef.current(), 50);
-          }, 3000);
-        }
-      };
-
-      recognitionRef.current.onend = () => {
-        processedResultCountRef.current = 0;
-        if (silenceTimeoutRef.current) {
-          clearTimeout(silenceTimeoutRef.current);
-          silenceTimeoutRef.current = null;
-        }
-      };
-
-      recognitionRef.current.onerror = () => {
-        setIsListening(false);
-        setError('Voice recognition error. Check microphone settings.');
-        processedResultCountRef.current = 0;
-        if (silenceTimeoutRef.current) {
-          clearTimeout(silenceTimeoutRef.current);
-          silenceTimeoutRef.current = null;
-        }
-      };
-    }
-
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (pos) => {
-          const coords = { lat: pos.coords.latitude, lng: pos.coords.longitude };
-          setLocation(coords);
-          setLocationName(`${coords.lat.toFixed(3)}, ${coords.lng.toFixed(3)}`);
-        },
-        () => {
-          setLocation({ lat: 37.7749, lng: -122.4194 });
-          setLocationName('San Francisco, CA');
-        }
-      );
-    }
-  }, []);
-
-  const toggleListening = () => {
-    if (isListening) {
-      if (silenceTimeoutRef.current) {
-        clearTimeout(silenceTimeoutRef.current);
-        silenceTimeoutRef.current = null;
-      }
-      recognitionRef.current?.stop();
-      setIsListening(false);
-    } else {
-      setError(null);
-      processedResultCountRef.current = 0;
-      try {
-        recognitionRef.current?.start();
-        setIsListening(true);
-      } catch (e) {
-        setError('Microphone access is unavailable.');
-      }
-    }
+  const showNewPlan = (nextPlan: ErrandPlan, from: LatLng | null, now: Date) => {
+    trip.stop();
+    sharedLink.leave();
+    resetPlan(nextPlan);
+    editor.setDiff(null);
+    missionHistory.start(
+      { input, plan: nextPlan, origin: from, locationName, mode: 'PLAN_INIT', providerId: settings.plannerSettings.providerId },
+      now.getTime()
+    );
   };
 
-  const generatePlan = async (isReroute = false) => {
-    if (!input.trim() && !isReroute) return;
-    setIsLoading(true);
-    setError(null);
+  const showReroute = (nextPlan: ErrandPlan, previousPlan: ErrandPlan, from: LatLng | null) => {
+    commitPlan(nextPlan);
+    editor.setDiff(diffPlans(previousPlan, nextPlan));
+    missionHistory.updateActive({ plan: nextPlan, origin: from, mode: 'REROUTE' });
+  };
 
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const prompt = `
-        User Request: "${input}"
-        Origin Coords: ${location?.lat}, ${location?.lng}
-        Current Time: ${new Date().toLocaleTimeString()}
-        Operational Mode: ${isReroute ? "REROUTE" : "PLAN_INIT"}
-
-        Task: Optimize a multi-stop errand trip. 
-        1. Use Google Maps to find exact business names and addresses.
-        2. Sequence them to minimize total driving time.
-        3. Include parking difficulty (Easy/Moderate/Difficult) and crowd levels (Low/Medium/High).
-        4. Suggest household coordination.
-
-        IMPORTANT: Return ONLY a JSON object. No markdown, no conversational filler.
-        Format:
-        {
-          "summary": "trip summary",
-          "stops": [{ "id": "1", "name": "Store", "address": "Address", "category": "Type", "reason": "why", "arrivalEstimate": "HH:MM AM/PM", "parkingDifficulty": "Easy", "crowdLevel": "Low", "googleMapsUrl": "url", "parkingAdvice": "tips", "trafficNote": "notes" }],
-          "totalTime": "string",
-          "efficiencyScore": 95,
-          "alternatives": [],
-          "householdSuggestions": ["suggestion"],
-          "reasoning": "spatial logic"
-        }
-      `;
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          tools: [{ googleMaps: {} }],
-          toolConfig: {
-            retrievalConfig: {
-              latLng: {
-                latitude: location?.lat || 37.7749,
-                longitude: location?.lng || -122.4194
-              }
-            }
-          }
-        },
-      });
-
-      const parsedPlan = extractJSON(response.text ?? '');
-      
-      if (!parsedPlan) {
-        throw new Error("Critical: AI response contained no valid plan data. Please try again with more specific details.");
-      }
-      
-      setPlan(parsedPlan);
-      if (!isReroute) setHistory(prev => [input, ...prev].slice(0, 5));
-    } catch (err: any) {
-      console.error(err);
-      setError(err.message || 'Spatial processing interrupted.');
-    } finally {
-      setIsLoading(false);
-    }
+  const planning = usePlanGeneration({
+    input,
+    plan,
+    origin: location,
+    settings,
+    household: household.active,
+    travelMode: editor.travelMode,
+    routeOptions: editor.routeOptions,
+    onFix: origin.setFix,
+    onPlan: showNewPlan,
+    onReroute: showReroute,
+    onError: setError,
+  });
+  const { isLoading, streamingStops } = planning;
+
+  const voice = useVoiceCommands({
+    plan,
+    canEdit: !isSharedView,
+    editPlan: editor.editPlan,
+    setInput,
+    speechLang: settings.locale.speechLang,
+    settings: settings.voiceSettings,
+    onSubmit: () => planning.generate(),
+    onStart: () => setError(null),
+    onError: setError,
+  });
+
+  const saveSettings = (
+    plannerSettings: PlannerSettings,
+    dwellDefaults: DwellDefaults,
+    preferences: UserPreferences,
+    locale: LocaleSettings,
+    voiceSettings: VoiceSettings
+  ) => {
+    const next = { plannerSettings, dwellDefaults, preferences, locale, voiceSettings };
+    editor.applySettings(next);
+    settings.save(next);
   };
 
-  generatePlanRef.current = generatePlan;
+  const saveSharedCopy = () => {
+    if (!plan) return;
+    missionHistory.start({
+      input: plan.summary,
+      plan,
+      origin: location,
+      locationName,
+      mode: 'PLAN_INIT',
+      providerId: settings.plannerSettings.providerId,
+      name: plan.summary ? t('plan.sharedName', { summary: plan.summary }) : t('plan.sharedFallbackName'),
+    });
+    sharedLink.leave();
+  };
 
-  const getMultiStopMapsUrl = () => {
-    if (!plan || !plan.stops) return '#';
-    const base = 'https://www.google.com/maps/dir/';
-    const start = `${location?.lat},${location?.lng}/`;
-    const stopsStr = plan.stops.map(s => encodeURIComponent(String(s.address))).join('/');
-    return `${base}${start}${stopsStr}`;
+  const simulateTrip = () => {
+    if (!trip.startSimulated()) setError(t('error.simulation'));
   };
 
+  const getShareUrl = () =>
+    plan ? buildShareUrl({ plan, origin: location, locationName }, window.location.href) : window.location.href;
+
   return (
     <div className="min-h-screen bg-[#06080a] text-slate-100 font-sans selection:bg-indigo-500/30 overflow-x-hidden">
       <header className="border-b border-white/5 bg-[#0a0c10]/95 backdrop-blur-2xl sticky top-0 z-50 px-safe-top">
@@ -255,15 +187,25 @@ export default function ErrandOS() {
               <h1 className="font-black text-xl tracking-tighter uppercase italic leading-none">
                 Errand<span className="text-indigo-500 not-italic font-light">OS</span>
               </h1>
-              <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest mt-1">Autonomous Optimizer</p>
+              <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest mt-1">{t('app.tagline')}</p>
             </div>
           </div>
           <div className="flex items-center gap-4">
             <div className="hidden sm:flex flex-col items-end mr-2">
-              <span className="text-xs font-bold text-slate-200">System Active</span>
-              <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{locationName}</span>
+              <span className="text-xs font-bold text-slate-200">{t('app.systemActive')}</span>
+              <OriginPicker
+                locationName={locationName}
+                places={settings.preferences.places.filter((p) => p.coords)}
+                onPickPlace={(place) => origin.setOrigin(place.coords, place.label)}
+                onUseDevice={origin.locateDevice}
+                onSetAddress={origin.setFromAddress}
+              />
             </div>
-            <button className="p-2.5 bg-white/5 hover:bg-white/10 rounded-xl transition-all border border-white/5 group">
+            <button
+              onClick={settings.open}
+              className="p-2.5 bg-white/5 hover:bg-white/10 rounded-xl transition-all border border-white/5 group"
+              aria-label={t('app.settings')}
+            >
               <Settings className="w-5 h-5 text-slate-400 group-hover:rotate-45 transition-transform" />
             </button>
           </div>
@@ -272,54 +214,34 @@ export default function ErrandOS() {
 
       <main className="max-w-7xl mx-auto px-6 py-8 grid grid-cols-1 lg:grid-cols-12 gap-8 pb-32">
         <div className="lg:col-span-4 space-y-6">
-          <section className="bg-slate-900/40 p-6 rounded-[2rem] border border-white/5 shadow-2xl relative overflow-hidden">
-            <div className="absolute top-0 right-0 w-32 h-32 bg-indigo-500/5 blur-[60px]" />
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">New Mission</h2>
-              <BrainCircuit className="w-4 h-4 text-slate-700" />
-            </div>
-            <div className="relative mb-6">
-              <textarea
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder="List your errands (e.g., groceries, pharmacy, coffee...)"
-                className="w-full bg-black/40 border border-white/10 rounded-2xl p-5 text-base min-h-[140px] focus:ring-2 focus:ring-indigo-500/30 transition-all outline-none resize-none font-medium text-slate-200"
-              />
-              <button
-                onClick={toggleListening}
-                className={`absolute right-4 bottom-4 p-3.5 rounded-xl transition-all ${
-                  isListening ? 'bg-red-600 animate-pulse' : 'bg-indigo-600 shadow-[0_0_20px_rgba(79,70,229,0.4)]'
-                } text-white`}
-              >
-                {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
-              </button>
-            </div>
-            <button
-              onClick={() => generatePlan()}
-              disabled={isLoading || !input.trim()}
-              className="w-full bg-white text-black py-4 rounded-2xl font-black text-xs uppercase tracking-widest transition-all shadow-xl flex items-center justify-center gap-2 hover:bg-slate-200 disabled:opacity-20 active:scale-[0.98]"
-            >
-              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
-              Search Path
-            </button>
-          </section>
-
-          {history.length > 0 && (
-            <div className="space-y-3">
-              <h3 className="text-[10px] font-black text-slate-600 uppercase tracking-widest ml-2 flex items-center gap-2">
-                <History className="w-3 h-3" /> Log History
-              </h3>
-              {history.map((h, i) => (
-                <button 
-                  key={i} 
-                  onClick={() => setInput(h)}
-                  className="w-full bg-white/5 hover:bg-white/10 p-4 rounded-2xl border border-white/5 text-left text-xs text-slate-400 truncate font-semibold transition-all hover:translate-x-1"
-                >
-                  {h}
-                </button>
-              ))}
-            </div>
-          )}
+          <MissionInput
+            input={input}
+            onInputChange={setInput}
+            isListening={voice.isListening}
+            interim={voice.interim}
+            voiceNote={voice.note}
+            micProps={voice.micProps}
+            isLoading={isLoading}
+            onSearch={() => planning.generate()}
+            onCancel={planning.cancel}
+            travelMode={editor.travelMode}
+            onTravelModeChange={editor.changeTravelMode}
+            travelModeDisabled={!!household.active}
+          />
+
+          <HouseholdEditor
+            members={household.members}
+            onChange={household.setMembers}
+            geocode={origin.geocode}
+          />
+
+          <MissionHistory
+            missions={missionHistory.missions}
+            activeId={missionHistory.activeId}
+            onRestore={restoreMission}
+            onUpdate={missionHistory.update}
+            onRemove={missionHistory.remove}
+          />
         </div>
 
         <div className="lg:col-span-8 space-y-8">
@@ -330,69 +252,139 @@ export default function ErrandOS() {
             </div>
           )}
 
+          {isLoading && streamingStops.length > 0 && <StreamingStops stops={streamingStops} />}
+
           {plan ? (
             <div className="space-y-8 animate-in fade-in slide-in-from-right-4 duration-500">
+              {isSharedView && <SharedPlanBanner onSaveCopy={saveSharedCopy} />}
               <div className="flex flex-col sm:flex-row gap-4">
-                <div className="flex-1 bg-indigo-600 p-7 rounded-[2.5rem] text-white flex flex-col justify-center shadow-2xl relative overflow-hidden group">
-                  <div className="absolute inset-0 bg-white/5 opacity-0 group-hover:opacity-100 transition-opacity" />
-                  <p className="text-[9px] font-black uppercase tracking-[0.3em] opacity-60 mb-1">Time Investment</p>
-                  <h2 className="text-4xl font-black italic tracking-tighter">{renderVal(plan.totalTime)}</h2>
-                </div>
+                <TimeInvestmentCard plan={plan} />
                 <div className="flex gap-4">
                    <a
-                    href={getMultiStopMapsUrl()}
+                    href={buildPlanDirectionsUrl(plan, location)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="aspect-square bg-white text-black p-6 rounded-[2rem] flex flex-col items-center justify-center gap-2 group hover:bg-slate-200 transition-all shadow-xl active:scale-95"
                   >
                     <ExternalLink className="w-6 h-6 group-hover:scale-110 transition-transform" />
-                    <span className="text-[9px] font-black uppercase tracking-widest">Deploy GPS</span>
+                    <span className="text-[9px] font-black uppercase tracking-widest">{t('plan.deployGps')}</span>
                   </a>
-                  <button
-                    onClick={() => generatePlan(true)}
-                    className="aspect-square bg-slate-900 border border-white/10 text-white p-6 rounded-[2rem] flex flex-col items-center justify-center gap-2 hover:bg-slate-800 transition-all active:scale-95"
-                  >
-                    <RefreshCw className={`w-6 h-6 ${isLoading ? 'animate-spin' : ''}`} />
-                    <span className="text-[9px] font-black uppercase tracking-widest">Update</span>
-                  </button>
+                  {!isSharedView && (
+                    <button
+                      onClick={() => planning.generate(true)}
+                      className="aspect-square bg-slate-900 border border-white/10 text-white p-6 rounded-[2rem] flex flex-col items-center justify-center gap-2 hover:bg-slate-800 transition-all active:scale-95"
+                    >
+                      <RefreshCw className={`w-6 h-6 ${isLoading ? 'animate-spin' : ''}`} />
+                      <span className="text-[9px] font-black uppercase tracking-widest">{t('plan.update')}</span>
+                    </button>
+                  )}
                 </div>
               </div>
 
+              <ExportMenu
+                plan={plan}
+                options={{ origin: location, returnToOrigin: editor.routeOptions.returnToOrigin }}
+                onShare={getShareUrl}
+              />
+
+              {!isSharedView && (
+                <TripPanel
+                  isActive={trip.isActive}
+                  isSimulated={trip.isSimulated}
+                  progress={trip.progress}
+                  trackingError={trip.trackingError}
+                  onStart={trip.startLive}
+                  onSimulate={simulateTrip}
+                  onStop={trip.stop}
+                  onArrive={(stopId) => trip.record({ stopId, status: 'arrived' })}
+                  onCheckOff={(stopId) => trip.record({ stopId, status: 'done' })}
+                />
+              )}
+
+              <RouteMap
+                origin={location}
+                stops={plan.stops}
+                returnToOrigin={editor.routeOptions.returnToOrigin}
+                layerId={mapLayer}
+                onLayerChange={setMapLayer}
+                onSelectStop={setSelectedStop}
+                position={trip.isActive ? trip.position : null}
+                household={plan.household}
+              />
+
+              <PlanNotices
+                plan={plan}
+                diff={editor.diff}
+                onDismissDiff={() => editor.setDiff(null)}
+                violations={editor.routeAnalysis?.violations ?? []}
+                preferenceIssues={editor.preferenceIssues}
+                onToggleItem={isSharedView ? undefined : (id) => editor.editPlan((current) => toggleItem(current, id))}
+              />
+
+              {!isSharedView && (
+                <PlanEditToolbar
+                  canUndo={canUndo}
+                  canRedo={canRedo}
+                  orderLocked={!!plan.orderLocked}
+                  onUndo={undo}
+                  onRedo={redo}
+                  onToggleLock={editor.toggleLock}
+                  onAddStop={editor.addStop}
+                />
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {plan.stops.map((stop, idx) => (
-                  <button
-                    key={idx}
-                    type="button"
-                    onClick={() => setSelectedStop(stop)}
-                    className="w-full text-left bg-slate-900/40 border border-white/5 p-6 rounded-[2.5rem] space-y-4 hover:border-indigo-500/20 transition-all group cursor-pointer"
-                  >
-                    <div className="flex justify-between items-start">
-                      <div className="bg-slate-800 w-10 h-10 rounded-xl flex items-center justify-center text-xs font-black text-indigo-400 group-hover:bg-indigo-600 group-hover:text-white transition-all">
-                        0{idx + 1}
-                      </div>
-                      <div className="bg-indigo-500/10 px-3 py-1.5 rounded-lg border border-indigo-500/20">
-                        <span className="text-[10px] font-black text-indigo-300 uppercase">{renderVal(stop.arrivalEstimate)}</span>
-                      </div>
-                    </div>
-                    <div>
-                      <h4 className="text-xl font-black text-white">{renderVal(stop.name)}</h4>
-                      <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tight line-clamp-1">{renderVal(stop.address)}</p>
-                    </div>
-                    <div className="flex gap-2">
-                       <span className="text-[8px] bg-slate-800 px-2 py-1 rounded text-slate-400 font-black uppercase tracking-widest">{renderVal(stop.parkingDifficulty)} Park</span>
-                       <span className="text-[8px] bg-slate-800 px-2 py-1 rounded text-slate-400 font-black uppercase tracking-widest">{renderVal(stop.crowdLevel)} Crowd</span>
-                    </div>
-                    <p className="text-[11px] text-slate-400 leading-relaxed italic border-l-2 border-indigo-500/30 pl-3 group-hover:border-indigo-500 transition-all">
-                      {renderVal(stop.parkingAdvice || stop.reason)}
-                    </p>
-                  </button>
+                  <StopCard
+                    key={stop.id}
+                    stop={stop}
+                    idx={idx}
+                    violation={editor.violationFor(stop.id)}
+                    preferenceIssues={editor.preferenceIssues.filter((i) => i.stopId === stop.id)}
+                    isNew={editor.diff?.addedIds.includes(stop.id)}
+                    movedBy={editor.diff?.movedBy[stop.id]}
+                    draggable={!plan.orderLocked && !isSharedView}
+                    readOnly={isSharedView}
+                    assignee={editor.assigneeFor(stop.assigneeId)}
+                    leg={legTo(plan.timing, stop.id)}
+                    isDragging={editor.drag.from === idx}
+                    isDropTarget={editor.drag.over === idx && editor.drag.from !== null && editor.drag.from !== idx}
+                    onSelect={() => setSelectedStop(stop)}
+                    onRemove={() => editor.editPlan((current) => removeStop(current, stop.id))}
+                    onToggleDone={() => editor.editPlan((current) => toggleStopDone(current, stop.id))}
+                    onToggleItem={(id) => editor.editPlan((current) => toggleItem(current, id))}
+                    onDragStart={() => editor.drag.start(idx)}
+                    onDragOver={() => editor.drag.enter(idx)}
+                    onDrop={() => editor.drag.drop(idx)}
+                    onDragEnd={editor.drag.end}
+                  />
                 ))}
               </div>
 
+              {isHouseholdPlan(plan) ? (
+                <HouseholdRoutes
+                  plan={plan}
+                  origin={location}
+                  readOnly={isSharedView}
+                  onReassign={(stopId, memberId) => editor.editPlan((current) => reassignStop(current, stopId, memberId))}
+                  onRebalance={() => editor.rebalance(household.active)}
+                />
+              ) : (
+                <RouteComparisonPanel
+                  stops={plan.stops}
+                  comparison={editor.routeAnalysis?.comparison ?? null}
+                  options={editor.routeOptions}
+                  onOptionsChange={editor.changeRouteOptions}
+                  onApply={editor.applyOptimizedOrder}
+                  orderLocked={!!plan.orderLocked}
+                  readOnly={isSharedView}
+                />
+              )}
+
               <div className="bg-[#12161b] p-8 rounded-[3rem] border border-white/5 shadow-2xl">
                 <div className="flex items-center gap-3 mb-4">
                   <BrainCircuit className="w-5 h-5 text-indigo-500" />
-                  <h3 className="text-[10px] font-black text-white uppercase tracking-[0.3em]">Strategy Analysis</h3>
+                  <h3 className="text-[10px] font-black text-white uppercase tracking-[0.3em]">{t('plan.strategy')}</h3>
                 </div>
                 <p className="text-xs text-slate-400 leading-relaxed font-medium mb-6">
                   {renderVal(plan.reasoning)}
@@ -413,7 +405,7 @@ export default function ErrandOS() {
                <div className="w-20 h-20 bg-slate-800 rounded-[2rem] flex items-center justify-center mb-6">
                  <Navigation className="w-8 h-8 text-indigo-500" />
                </div>
-               <p className="text-xs font-black uppercase tracking-[0.4em] text-slate-500">Awaiting Mission Directives</p>
+               <p className="text-xs font-black uppercase tracking-[0.4em] text-slate-500">{t('mission.awaiting')}</p>
             </div>
           )}
         </div>
@@ -422,69 +414,38 @@ export default function ErrandOS() {
       {/* Mobile Floating Mic */}
       {!isLoading && (
         <div className="fixed bottom-10 left-1/2 -translate-x-1/2 lg:hidden z-50">
-           <button 
-            onClick={toggleListening}
+           <button
+            type="button"
+            {...voice.micProps}
+            aria-pressed={voice.isListening}
             className={`w-16 h-16 rounded-full flex items-center justify-center shadow-[0_0_30px_rgba(79,70,229,0.3)] text-white transition-all active:scale-90 ${
-              isListening ? 'bg-red-600 scale-110 animate-pulse' : 'bg-indigo-600'
+              voice.isListening ? 'bg-red-600 scale-110 animate-pulse' : 'bg-indigo-600'
             }`}
            >
-             {isListening ? <MicOff className="w-7 h-7" /> : <Mic className="w-7 h-7" />}
+             {voice.isListening ? <MicOff className="w-7 h-7" /> : <Mic className="w-7 h-7" />}
            </button>
         </div>
       )}
 
-      {/* Location detail popover */}
+      {settings.isOpen && (
+        <SettingsPanel
+          settings={settings.plannerSettings}
+          dwellDefaults={settings.dwellDefaults}
+          preferences={settings.preferences}
+          locale={settings.locale}
+          voice={settings.voiceSettings}
+          onSave={saveSettings}
+          onClose={settings.close}
+          geocode={origin.geocode}
+        />
+      )}
+
       {selectedStop && (
-        <div
-          className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
-          onClick={() => setSelectedStop(null)}
-        >
-          <div
-            className="bg-slate-900 border border-white/10 rounded-2xl p-5 max-w-sm w-full shadow-2xl"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <div className="flex justify-between items-start mb-3">
-              <div className="flex-1 min-w-0">
-                <h4 className="text-lg font-black text-white truncate">{renderVal(selectedStop.name)}</h4>
-                <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tight mt-0.5">{renderVal(selectedStop.address)}</p>
-              </div>
-              <button
-                type="button"
-                onClick={() => setSelectedStop(null)}
-                className="ml-2 p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
-                aria-label="Close"
-              >
-                <X className="w-4 h-4" />
-              </button>
-            </div>
-            <div className="space-y-2 text-xs">
-              <div className="flex gap-2">
-                <span className="text-[9px] bg-indigo-500/20 text-indigo-300 px-2 py-0.5 rounded font-black uppercase">{renderVal(selectedStop.category)}</span>
-                <span className="text-[9px] bg-slate-800 text-slate-400 px-2 py-0.5 rounded font-black uppercase">{renderVal(selectedStop.arrivalEstimate)}</span>
-              </div>
-              <div className="flex gap-2">
-                <span className="text-[9px] text-slate-500">Parking: <span className="text-slate-300">{renderVal(selectedStop.parkingDifficulty)}</span></span>
-                <span className="text-slate-600">·</span>
-                <span className="text-[9px] text-slate-500">Crowd: <span className="text-slate-300">{renderVal(selectedStop.crowdLevel)}</span></span>
-              </div>
-              {(selectedStop.parkingAdvice || selectedStop.reason) && (
-                <p className="text-[11px] text-slate-400 italic">{renderVal(selectedStop.parkingAdvice || selectedStop.reason)}</p>
-              )}
-              {selectedStop.trafficNote && (
-                <p className="text-[11px] text-amber-400/90">{renderVal(selectedStop.trafficNote)}</p>
-              )}
-            </div>
-            <a
-              href={selectedStop.googleMapsUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="mt-4 flex items-center justify-center gap-2 w-full py-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-xl text-white text-[10px] font-black uppercase tracking-widest transition-colors"
-            >
-              <MapPin className="w-3.5 h-3.5" />
-              Open in Google Maps
-            </a>
-          </div>
-        </div>
+        <StopDetailDialog
+          stop={selectedStop}
+          violation={editor.violationFor(selectedStop.id)}
+          onClose={() => setSelectedStop(null)}
+        />
       )}
     </div>
   );
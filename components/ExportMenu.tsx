@@ -0,0 +1,94 @@
+
+import React, { useState } from 'react';
+import { CalendarPlus, Check, Download, Link2, Share2 } from 'lucide-react';
+import type { ErrandPlan } from '../types';
+import { EXPORTERS, ExportFormat, ExportOptions } from '../utils/planExport';
+import { t } from '../utils/i18n';
+
+interface Props {
+  plan: ErrandPlan;
+  options: ExportOptions;
+  onShare: () => string;
+}
+
+// Google Maps directions links stop accepting points past roughly this many stops.
+const MAPS_WAYPOINT_LIMIT = 9;
+
+const FORMATS: { id: ExportFormat; icon: typeof Download }[] = [
+  { id: 'gpx', icon: Download },
+  { id: 'kml', icon: Download },
+  { id: 'ics', icon: CalendarPlus },
+];
+
+const downloadText = (filename: string, mimeType: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/5 text-slate-300 text-[9px] font-black uppercase tracking-widest transition-colors';
+
+export default function ExportMenu({ plan, options, onShare }: Props) {
+  const [notice, setNotice] = useState<string | null>(null);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const exportAs = (format: ExportFormat) => {
+    const file = EXPORTERS[format](plan, options);
+    downloadText(file.filename, file.mimeType, file.content);
+    const reason = file.skipReason === 'time' ? 'export.leftOutNoTime' : 'export.leftOutNoCoords';
+    setNotice(file.skipped.length ? t(reason, { stops: file.skipped.join(', ') }) : null);
+  };
+
+  const share = async () => {
+    const url = onShare();
+    setShareUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard can be blocked; the link stays visible for manual copy.
+    }
+  };
+
+  return (
+    <div className="bg-[#12161b] p-6 rounded-[2.5rem] border border-white/5 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Share2 className="w-4 h-4 text-indigo-500 mr-1" />
+        {FORMATS.map(({ id, icon: Icon }) => (
+          <button key={id} type="button" onClick={() => exportAs(id)} className={buttonClass}>
+            <Icon className="w-3.5 h-3.5" /> {t(`export.${id}`)}
+          </button>
+        ))}
+        <button type="button" onClick={share} className={`${buttonClass} ml-auto`}>
+          {copied ? <Check className="w-3.5 h-3.5 text-emerald-400" /> : <Link2 className="w-3.5 h-3.5" />}
+          {t(copied ? 'export.linkCopied' : 'export.shareLink')}
+        </button>
+      </div>
+      {plan.stops.length > MAPS_WAYPOINT_LIMIT && (
+        <p className="text-[10px] text-amber-300/80 font-bold">
+          {t('export.waypointLimit', { limit: MAPS_WAYPOINT_LIMIT })}
+        </p>
+      )}
+      {notice && (
+        <p role="status" className="text-[10px] text-amber-300/80 font-bold">
+          {notice}
+        </p>
+      )}
+      {shareUrl && (
+        <input
+          readOnly
+          value={shareUrl}
+          onFocus={(e) => e.currentTarget.select()}
+          className="w-full bg-black/40 border border-white/5 rounded-xl px-3 py-2 text-[10px] text-slate-400 font-mono"
+          aria-label={t('export.shareLink')}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+
+import React, { useState } from 'react';
+import { Loader2, LocateFixed, Plus, Trash2, Users } from 'lucide-react';
+import type { HouseholdMember, LatLng, VehicleType } from '../types';
+import { createHouseholdMember, memberColor, VEHICLE_TYPES } from '../utils/household';
+import { t } from '../utils/i18n';
+
+interface Props {
+  members: HouseholdMember[];
+  onChange: (members: HouseholdMember[]) => void;
+  geocode: (address: string) => Promise<{ label: string; coords: LatLng } | null>;
+}
+
+const fieldClass =
+  'w-full bg-black/40 border border-white/10 rounded-lg px-3 py-1.5 text-[11px] font-semibold text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/30';
+
+export default function HouseholdEditor({ members, onChange, geocode }: Props) {
+  const [newName, setNewName] = useState('');
+  const [locatingId, setLocatingId] = useState<string | null>(null);
+  const [startDrafts, setStartDrafts] = useState<Record<string, string>>({});
+
+  const update = (id: string, patch: Partial<HouseholdMember>) =>
+    onChange(members.map((m) => (m.id === id ? { ...m, ...patch } : m)));
+
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onChange([...members, createHouseholdMember(newName.trim())]);
+    setNewName('');
+  };
+
+  // Blank start means "from the app's current location".
+  const commitStart = async (member: HouseholdMember) => {
+    const draft = (startDrafts[member.id] ?? member.startLabel).trim();
+    if (draft === member.startLabel) return;
+    if (!draft) {
+      update(member.id, { start: null, startLabel: '' });
+      return;
+    }
+    setLocatingId(member.id);
+    try {
+      const hit = await geocode(draft);
+      update(member.id, hit ? { start: hit.coords, startLabel: draft } : { start: null, startLabel: '' });
+      if (!hit) setStartDrafts((d) => ({ ...d, [member.id]: '' }));
+    } finally {
+      setLocatingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-[10px] font-black text-slate-600 uppercase tracking-widest ml-2 flex items-center gap-2">
+        <Users className="w-3 h-3" /> {t('household.title')}
+        {members.length > 1 && <span className="text-indigo-400">{t('household.splitting', { count: members.length })}</span>}
+      </h3>
+
+      {members.map((member, i) => (
+        <div key={member.id} className="bg-white/5 p-4 rounded-2xl border border-white/5 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: memberColor(i) }} />
+            <input
+              value={member.name}
+              onChange={(e) => update(member.id, { name: e.target.value })}
+              className={`${fieldClass} font-black`}
+              aria-label={t('household.memberName')}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(members.filter((m) => m.id !== member.id))}
+              className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10"
+              aria-label={t('household.remove', { name: member.name })}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="relative">
+            <input
+              value={startDrafts[member.id] ?? member.startLabel}
+              onChange={(e) => setStartDrafts((d) => ({ ...d, [member.id]: e.target.value }))}
+              onBlur={() => commitStart(member)}
+              onKeyDown={(e) => e.key === 'Enter' && commitStart(member)}
+              placeholder={t('household.startPlaceholder')}
+              className={`${fieldClass} pr-8`}
+              aria-label={t('household.startAddress', { name: member.name })}
+            />
+            <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-slate-500">
+              {locatingId === member.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : member.start ? null : <LocateFixed className="w-3.5 h-3.5" />}
+            </span>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              value={member.vehicle}
+              onChange={(e) => update(member.id, { vehicle: e.target.value as VehicleType })}
+              className={fieldClass}
+              aria-label={t('household.vehicle', { name: member.name })}
+            >
+              {VEHICLE_TYPES.map((v) => <option key={v} value={v}>{t(`vehicle.${v}`)}</option>)}
+            </select>
+            <input
+              type="time"
+              value={member.availableFrom ?? ''}
+              onChange={(e) => update(member.id, { availableFrom: e.target.value || undefined })}
+              className={fieldClass}
+              aria-label={t('household.availableFrom', { name: member.name })}
+            />
+            <input
+              type="time"
+              value={member.availableUntil ?? ''}
+              onChange={(e) => update(member.id, { availableUntil: e.target.value || undefined })}
+              className={fieldClass}
+              aria-label={t('household.availableUntil', { name: member.name })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <form onSubmit={add} className="flex gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t(members.length ? 'household.addAnother' : 'household.addFirst')}
+          className="flex-1 bg-white/5 border border-white/5 rounded-2xl px-4 py-3 text-xs font-semibold text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500/30"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="px-4 bg-white/5 hover:bg-white/10 border border-white/5 rounded-2xl text-slate-300 disabled:opacity-30"
+          aria-label={t('household.add')}
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
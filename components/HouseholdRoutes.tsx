@@ -0,0 +1,129 @@
+
+import React from 'react';
+import { AlertTriangle, ExternalLink, Scale, Users } from 'lucide-react';
+import type { ErrandPlan, LatLng } from '../types';
+import { memberColor, memberRoutes, unassignedStops, VEHICLE_MODE } from '../utils/household';
+import { buildDirectionsUrl } from '../utils/mapsUrl';
+import { isDone } from '../utils/planEdits';
+import { formatClock, formatDuration, parseClock } from '../utils/time';
+import { t } from '../utils/i18n';
+import { renderVal } from '../utils/format';
+
+interface Props {
+  plan: ErrandPlan;
+  origin: LatLng | null;
+  readOnly?: boolean;
+  onReassign: (stopId: string, memberId: string) => void;
+  onRebalance: () => void;
+}
+
+export default function HouseholdRoutes({ plan, origin, readOnly, onReassign, onRebalance }: Props) {
+  const routes = memberRoutes(plan, origin);
+  const unassigned = unassignedStops(plan);
+  const members = plan.household ?? [];
+  const indexOf = (stopId: string) => plan.stops.findIndex((s) => s.id === stopId);
+
+  const reassignSelect = (stopId: string, value: string) => (
+    <select
+      value={value}
+      onChange={(e) => onReassign(stopId, e.target.value)}
+      className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-[9px] font-black text-slate-300 uppercase"
+      aria-label={t('household.assignTo')}
+    >
+      {!value && <option value="">{t('household.unassigned')}</option>}
+      {members.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="bg-[#12161b] p-8 rounded-[3rem] border border-white/5 shadow-2xl space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Users className="w-5 h-5 text-indigo-500" />
+          <h3 className="text-[10px] font-black text-white uppercase tracking-[0.3em]">{t('household.routes')}</h3>
+        </div>
+        {!readOnly && (
+          <button
+            type="button"
+            onClick={onRebalance}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-slate-300 text-[9px] font-black uppercase tracking-widest"
+          >
+            <Scale className="w-3.5 h-3.5" /> {t('household.rebalance')}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {routes.map(({ member, stops, startAt, endAt, overtimeMinutes }, i) => {
+          const pending = stops.filter((s) => !isDone(s));
+          return (
+            <div key={member.id} className="bg-black/30 rounded-2xl p-5 border border-white/5 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="flex items-center gap-2 text-sm font-black text-white">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: memberColor(i) }} />
+                    {member.name}
+                  </p>
+                  <p className="text-[9px] text-slate-500 font-black uppercase tracking-widest mt-1">
+                    {t(`vehicle.${member.vehicle}`)} · {member.startLabel || t('location.current')}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-black text-indigo-300">{formatDuration(endAt - startAt)}</p>
+                  <p className="text-[9px] text-slate-500 font-bold">
+                    {pending.length ? `${formatClock(startAt)}–${formatClock(endAt)}` : t('household.noStopsLeft')}
+                  </p>
+                </div>
+              </div>
+
+              {overtimeMinutes > 0 && (
+                <p className="flex items-center gap-2 text-[10px] text-amber-300 font-bold">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  {t('household.overtime', {
+                    duration: formatDuration(overtimeMinutes),
+                    until: formatClock(parseClock(member.availableUntil ?? '') ?? 0),
+                  })}
+                </p>
+              )}
+
+              <ol className="space-y-1.5">
+                {stops.map((stop) => (
+                  <li key={stop.id} className={`flex items-center justify-between gap-2 text-[11px] ${isDone(stop) ? 'opacity-50 line-through' : ''}`}>
+                    <span className="truncate text-slate-300 font-semibold">
+                      <span className="text-indigo-400 font-black">0{indexOf(stop.id) + 1}</span> {renderVal(stop.name)}
+                      <span className="text-slate-500"> · {renderVal(stop.arrivalEstimate)}</span>
+                    </span>
+                    {!readOnly && !isDone(stop) && reassignSelect(stop.id, member.id)}
+                  </li>
+                ))}
+              </ol>
+
+              {pending.length > 0 && (
+                <a
+                  href={buildDirectionsUrl(member.start ?? origin, pending, VEHICLE_MODE[member.vehicle])}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center justify-center gap-2 py-2.5 bg-white text-black rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-slate-200 transition-colors"
+                >
+                  <ExternalLink className="w-3.5 h-3.5" /> {t('plan.deployGps')}
+                </a>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {unassigned.length > 0 && (
+        <div className="bg-amber-950/20 border border-amber-500/20 rounded-2xl p-5 space-y-2">
+          <p className="text-[10px] font-black text-amber-300 uppercase tracking-widest">{t('household.notAssigned')}</p>
+          {unassigned.map((stop) => (
+            <div key={stop.id} className="flex items-center justify-between gap-2 text-[11px] text-amber-100/80">
+              <span className="truncate font-semibold">{renderVal(stop.name)}</span>
+              {!readOnly && reassignSelect(stop.id, '')}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+
+import React from 'react';
+import { Square, SquareCheck } from 'lucide-react';
+import type { ErrandItem } from '../types';
+import { renderVal } from '../utils/format';
+
+interface Props {
+  items: ErrandItem[];
+  // Without a handler the list is display-only, e.g. for shared plans.
+  onToggle?: (itemId: string) => void;
+}
+
+export default function ItemChecklist({ items, onToggle }: Props) {
+  return (
+    <ul className="space-y-1">
+      {items.map((item) => {
+        const Icon = item.done ? SquareCheck : Square;
+        return (
+          <li key={item.id}>
+            <button
+              type="button"
+              disabled={!onToggle}
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggle?.(item.id);
+              }}
+              className="flex items-center gap-2 text-[11px] font-bold text-slate-300 hover:text-white disabled:hover:text-slate-300 transition-colors"
+              aria-pressed={!!item.done}
+            >
+              <Icon className={`w-3.5 h-3.5 shrink-0 ${item.done ? 'text-emerald-400' : 'text-slate-600'}`} />
+              <span className={item.done ? 'line-through text-slate-500' : ''}>{renderVal(item.name)}</span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
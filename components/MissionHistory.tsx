@@ -0,0 +1,116 @@
+
+import React, { useState } from 'react';
+import { History, Pencil, Pin, PinOff, Search, Trash2 } from 'lucide-react';
+import { searchMissions, SavedMission } from '../services/missionStore';
+import { getActiveLocale, t } from '../utils/i18n';
+
+interface Props {
+  missions: SavedMission[];
+  activeId: string | null;
+  onRestore: (mission: SavedMission) => void;
+  onUpdate: (id: string, patch: Partial<SavedMission>) => void;
+  onRemove: (id: string) => void;
+}
+
+const formatWhen = (ts: number) => {
+  const { language, clock } = getActiveLocale();
+  return new Date(ts).toLocaleString(language, {
+    month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', hour12: clock === '12h',
+  });
+};
+
+export default function MissionHistory({ missions, activeId, onRestore, onUpdate, onRemove }: Props) {
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (!missions.length) return null;
+  const visible = searchMissions(missions, query);
+
+  const commitRename = (id: string) => {
+    onUpdate(id, { name: draftName.trim() || undefined });
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-[10px] font-black text-slate-600 uppercase tracking-widest ml-2 flex items-center gap-2">
+        <History className="w-3 h-3" /> {t('history.title')}
+      </h3>
+      <div className="relative">
+        <Search className="w-3.5 h-3.5 text-slate-600 absolute left-4 top-1/2 -translate-y-1/2" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('history.search')}
+          className="w-full bg-white/5 border border-white/5 rounded-2xl pl-10 pr-4 py-3 text-xs font-semibold text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500/30"
+        />
+      </div>
+      {visible.map((m) => (
+        <div
+          key={m.id}
+          className={`group bg-white/5 hover:bg-white/10 p-4 rounded-2xl border transition-all ${
+            m.id === activeId ? 'border-indigo-500/40' : 'border-white/5'
+          }`}
+        >
+          {renamingId === m.id ? (
+            <input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={() => commitRename(m.id)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename(m.id);
+                if (e.key === 'Escape') setRenamingId(null);
+              }}
+              placeholder={t('history.namePlaceholder')}
+              className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-1.5 text-xs font-bold text-slate-200 outline-none"
+            />
+          ) : (
+            <button type="button" onClick={() => onRestore(m)} className="w-full text-left">
+              <p className="text-xs text-slate-300 font-bold truncate">
+                {m.pinned && <Pin className="w-3 h-3 inline mr-1 text-indigo-400" />}
+                {m.name || m.input}
+              </p>
+              <p className="text-[9px] text-slate-500 font-black uppercase tracking-widest mt-1 truncate">
+                {formatWhen(m.createdAt)} · {t('history.stops', { count: m.plan.stops.length })}{m.name ? ` · ${m.input}` : ''}
+              </p>
+            </button>
+          )}
+          <div className="flex gap-1 mt-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <button
+              type="button"
+              onClick={() => onUpdate(m.id, { pinned: !m.pinned })}
+              className="p-1.5 rounded-lg text-slate-500 hover:text-indigo-300 hover:bg-white/10"
+              aria-label={t(m.pinned ? 'history.unpin' : 'history.pin')}
+            >
+              {m.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDraftName(m.name ?? '');
+                setRenamingId(m.id);
+              }}
+              className="p-1.5 rounded-lg text-slate-500 hover:text-indigo-300 hover:bg-white/10"
+              aria-label={t('history.rename')}
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(m.id)}
+              className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10"
+              aria-label={t('history.delete')}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      ))}
+      {!visible.length && (
+        <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest ml-2">{t('history.noMatch')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+
+import React from 'react';
+import { BrainCircuit, Loader2, Mic, MicOff, Search } from 'lucide-react';
+import type { TravelModeSetting } from '../types';
+import TravelModePicker from './TravelModePicker';
+import { t } from '../utils/i18n';
+
+interface Props {
+  input: string;
+  onInputChange: (input: string) => void;
+  isListening: boolean;
+  interim: string;
+  voiceNote: string | null;
+  micProps: React.ButtonHTMLAttributes<HTMLButtonElement>;
+  isLoading: boolean;
+  onSearch: () => void;
+  onCancel: () => void;
+  travelMode: TravelModeSetting;
+  onTravelModeChange: (mode: TravelModeSetting) => void;
+  // Household plans follow each member's vehicle instead.
+  travelModeDisabled: boolean;
+}
+
+export default function MissionInput({
+  input,
+  onInputChange,
+  isListening,
+  interim,
+  voiceNote,
+  micProps,
+  isLoading,
+  onSearch,
+  onCancel,
+  travelMode,
+  onTravelModeChange,
+  travelModeDisabled,
+}: Props) {
+  return (
+    <section className="bg-slate-900/40 p-6 rounded-[2rem] border border-white/5 shadow-2xl relative overflow-hidden">
+      <div className="absolute top-0 right-0 w-32 h-32 bg-indigo-500/5 blur-[60px]" />
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">{t('mission.title')}</h2>
+        <BrainCircuit className="w-4 h-4 text-slate-700" />
+      </div>
+      <div className="relative mb-6">
+        <textarea
+          value={input}
+          onChange={(e) => onInputChange(e.target.value)}
+          placeholder={t('mission.placeholder')}
+          className="w-full bg-black/40 border border-white/10 rounded-2xl p-5 text-base min-h-[140px] focus:ring-2 focus:ring-indigo-500/30 transition-all outline-none resize-none font-medium text-slate-200"
+        />
+        <button
+          type="button"
+          {...micProps}
+          aria-pressed={isListening}
+          className={`absolute right-4 bottom-4 p-3.5 rounded-xl transition-all ${
+            isListening ? 'bg-red-600 animate-pulse' : 'bg-indigo-600 shadow-[0_0_20px_rgba(79,70,229,0.4)]'
+          } text-white`}
+        >
+          {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+        </button>
+      </div>
+      {isListening ? (
+        <div className="-mt-4 mb-4 px-1 space-y-1">
+          <p className="text-xs text-slate-300 italic font-medium">{interim || t('voice.listening')}</p>
+          <p className="text-[9px] text-slate-500 font-bold uppercase tracking-wide">{t('voice.hint')}</p>
+        </div>
+      ) : voiceNote && (
+        <p className="-mt-4 mb-4 px-1 text-[10px] text-indigo-300 font-bold">{voiceNote}</p>
+      )}
+      {isLoading ? (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="w-full bg-slate-800 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest transition-all shadow-xl flex items-center justify-center gap-2 hover:bg-slate-700 active:scale-[0.98]"
+        >
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {t('mission.cancel')}
+        </button>
+      ) : (
+        <button
+          onClick={onSearch}
+          disabled={!input.trim()}
+          className="w-full bg-white text-black py-4 rounded-2xl font-black text-xs uppercase tracking-widest transition-all shadow-xl flex items-center justify-center gap-2 hover:bg-slate-200 disabled:opacity-20 active:scale-[0.98]"
+        >
+          <Search className="w-4 h-4" />
+          {t('mission.search')}
+        </button>
+      )}
+      <div className="mt-4">
+        <TravelModePicker value={travelMode} onChange={onTravelModeChange} disabled={travelModeDisabled} />
+      </div>
+    </section>
+  );
+}
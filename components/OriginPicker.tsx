@@ -0,0 +1,81 @@
+
+import React, { useState } from 'react';
+import { Crosshair, Loader2, MapPinned } from 'lucide-react';
+import type { SavedPlace } from '../types';
+import { t } from '../utils/i18n';
+
+interface Props {
+  locationName: string;
+  places: SavedPlace[];
+  onPickPlace: (place: SavedPlace) => void;
+  onUseDevice: () => void;
+  // Resolves to false when the address could not be found.
+  onSetAddress: (address: string) => Promise<boolean>;
+}
+
+const rowClass =
+  'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-[11px] font-bold text-slate-300 hover:bg-white/10 transition-colors';
+
+export default function OriginPicker({ locationName, places, onPickPlace, onUseDevice, onSetAddress }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [address, setAddress] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+
+  const close = () => {
+    setIsOpen(false);
+    setNotFound(false);
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!address.trim() || isLocating) return;
+    setIsLocating(true);
+    try {
+      const found = await onSetAddress(address.trim());
+      setNotFound(!found);
+      if (found) {
+        setAddress('');
+        close();
+      }
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className="text-[9px] font-black text-slate-500 hover:text-indigo-300 uppercase tracking-widest transition-colors"
+        aria-expanded={isOpen}
+        aria-label={t('location.change')}
+      >
+        {locationName}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-slate-900 border border-white/10 rounded-2xl p-2 shadow-2xl space-y-1 z-50">
+          <button type="button" onClick={() => { onUseDevice(); close(); }} className={rowClass}>
+            <Crosshair className="w-3.5 h-3.5 text-indigo-400" /> {t('location.useDevice')}
+          </button>
+          {places.map((place) => (
+            <button key={place.id} type="button" onClick={() => { onPickPlace(place); close(); }} className={rowClass}>
+              <MapPinned className="w-3.5 h-3.5 text-indigo-400" /> {place.label}
+            </button>
+          ))}
+          <form onSubmit={submit} className="flex gap-1 pt-1">
+            <input
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder={t('location.addressPlaceholder')}
+              className="flex-1 bg-black/40 border border-white/10 rounded-lg px-3 py-1.5 text-[11px] font-semibold text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/30"
+            />
+            {isLocating && <Loader2 className="w-3.5 h-3.5 animate-spin text-slate-500 self-center" />}
+          </form>
+          {notFound && <p className="text-[10px] text-amber-400 font-bold px-3">{t('location.notFound')}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
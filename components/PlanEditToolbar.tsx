@@ -0,0 +1,67 @@
+
+import React, { useState } from 'react';
+import { Loader2, Lock, Plus, Redo2, Undo2, LockOpen } from 'lucide-react';
+import { t } from '../utils/i18n';
+
+interface Props {
+  canUndo: boolean;
+  canRedo: boolean;
+  orderLocked: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onToggleLock: () => void;
+  onAddStop: (address: string) => Promise<void>;
+}
+
+const iconButton =
+  'p-2.5 bg-white/5 hover:bg-white/10 rounded-xl border border-white/5 text-slate-300 transition-all disabled:opacity-20 disabled:hover:bg-white/5';
+
+export default function PlanEditToolbar({ canUndo, canRedo, orderLocked, onUndo, onRedo, onToggleLock, onAddStop }: Props) {
+  const [address, setAddress] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!address.trim() || isAdding) return;
+    setIsAdding(true);
+    try {
+      await onAddStop(address.trim());
+      setAddress('');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-3">
+      <div className="flex gap-2">
+        <button type="button" onClick={onUndo} disabled={!canUndo} className={iconButton} aria-label={t('edit.undo')} title={t('edit.undoHint')}>
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={onRedo} disabled={!canRedo} className={iconButton} aria-label={t('edit.redo')} title={t('edit.redoHint')}>
+          <Redo2 className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={onToggleLock}
+          className={`${iconButton} flex items-center gap-2 text-[9px] font-black uppercase tracking-widest ${orderLocked ? 'bg-indigo-600/30 border-indigo-500/30 text-indigo-200' : ''}`}
+          aria-pressed={orderLocked}
+        >
+          {orderLocked ? <Lock className="w-4 h-4" /> : <LockOpen className="w-4 h-4" />}
+          {t(orderLocked ? 'edit.orderLocked' : 'edit.lockOrder')}
+        </button>
+      </div>
+      <form onSubmit={submit} className="flex-1 flex gap-2">
+        <input
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          placeholder={t('edit.addPlaceholder')}
+          className="flex-1 bg-black/40 border border-white/10 rounded-xl px-4 py-2.5 text-xs font-medium text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/30"
+        />
+        <button type="submit" disabled={!address.trim() || isAdding} className={iconButton} aria-label={t('edit.addStop')}>
+          {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+
+import React from 'react';
+import { Ban, Clock, Info, PackageX, RefreshCw, X } from 'lucide-react';
+import type { ErrandPlan, ErrandStop } from '../types';
+import ItemChecklist from './ItemChecklist';
+import { openUnassignedItems } from '../utils/errandItems';
+import { renderVal } from '../utils/format';
+import { t } from '../utils/i18n';
+import { hasChanges, PlanDiff } from '../utils/planDiff';
+import type { PreferenceIssue } from '../utils/preferences';
+import type { WindowViolation } from '../utils/timeWindows';
+
+interface Props {
+  plan: ErrandPlan;
+  diff: PlanDiff | null;
+  onDismissDiff: () => void;
+  violations: WindowViolation[];
+  preferenceIssues: PreferenceIssue[];
+  // Omitted for read-only plans.
+  onToggleItem?: (itemId: string) => void;
+}
+
+const stopName = (stops: ErrandStop[], stopId: string) => renderVal(stops.find((s) => s.id === stopId)?.name);
+
+// What the last reroute changed, and what the plan could not satisfy.
+export default function PlanNotices({ plan, diff, onDismissDiff, violations, preferenceIssues, onToggleItem }: Props) {
+  return (
+    <>
+      {diff && hasChanges(diff) && (
+        <div className="bg-emerald-950/20 border border-emerald-500/20 text-emerald-300 p-6 rounded-[2rem] space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <RefreshCw className="w-5 h-5 shrink-0" />
+              <p className="text-xs font-bold uppercase tracking-wide">{t('plan.changes')}</p>
+            </div>
+            <button
+              type="button"
+              onClick={onDismissDiff}
+              className="p-1.5 rounded-lg hover:bg-white/10 text-emerald-400/70 hover:text-white transition-colors"
+              aria-label={t('plan.dismissChanges')}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {diff.notes.map((note, i) => (
+            <p key={i} className="text-[11px] text-emerald-200/80">{renderVal(note)}</p>
+          ))}
+          {diff.removed.map((s) => (
+            <p key={s.id} className="text-[11px] text-emerald-200/80 line-through">{renderVal(s.name)}</p>
+          ))}
+        </div>
+      )}
+
+      {violations.length > 0 && (
+        <div className="bg-amber-950/20 border border-amber-500/20 text-amber-300 p-6 rounded-[2rem] space-y-2">
+          <div className="flex items-center gap-3">
+            <Clock className="w-5 h-5 shrink-0" />
+            <p className="text-xs font-bold uppercase tracking-wide">{t('plan.windowConflicts')}</p>
+          </div>
+          {violations.map((v) => (
+            <p key={v.stopId} className="text-[11px] text-amber-200/80">
+              <span className="font-black">{stopName(plan.stops, v.stopId)}</span>: {v.reason}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {!!plan.notices?.length && (
+        <div role="status" className="bg-slate-900/40 border border-white/5 text-slate-300 p-6 rounded-[2rem] space-y-2">
+          {plan.notices.map((notice, i) => (
+            <p key={i} className="flex items-center gap-3 text-[11px] font-bold">
+              <Info className="w-4 h-4 shrink-0" />
+              {notice}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {preferenceIssues.length > 0 && (
+        <div className="bg-amber-950/20 border border-amber-500/20 text-amber-300 p-6 rounded-[2rem] space-y-2">
+          <div className="flex items-center gap-3">
+            <Ban className="w-5 h-5 shrink-0" />
+            <p className="text-xs font-bold uppercase tracking-wide">{t('plan.preferenceConflicts')}</p>
+          </div>
+          {preferenceIssues.map((issue) => (
+            <p key={`${issue.stopId}-${issue.kind}`} className="text-[11px] text-amber-200/80">
+              <span className="font-black">{stopName(plan.stops, issue.stopId)}</span>: {issue.reason}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {!!plan.unassignedItems?.length && (
+        <div className={`${openUnassignedItems(plan).length ? 'bg-amber-950/20 border-amber-500/20 text-amber-300' : 'bg-slate-900/40 border-white/5 text-slate-400'} border p-6 rounded-[2rem] space-y-3`}>
+          <div className="flex items-center gap-3">
+            <PackageX className="w-5 h-5 shrink-0" />
+            <p className="text-xs font-bold uppercase tracking-wide">{t('plan.uncovered')}</p>
+          </div>
+          <ItemChecklist items={plan.unassignedItems} onToggle={onToggleItem} />
+        </div>
+      )}
+    </>
+  );
+}
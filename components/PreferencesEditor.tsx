@@ -0,0 +1,201 @@
+
+import React, { useState } from 'react';
+import { Loader2, LocateFixed, Plus, Trash2 } from 'lucide-react';
+import type { LatLng, SavedPlace, UserPreferences } from '../types';
+import { createSavedPlace, parseBrandList } from '../utils/preferences';
+import { displayToKm, getActiveLocale, kmToDisplay, MessageKey, t } from '../utils/i18n';
+
+interface Props {
+  value: UserPreferences;
+  onChange: (prefs: UserPreferences) => void;
+  geocode: (address: string) => Promise<{ label: string; coords: LatLng } | null>;
+}
+
+const fieldClass =
+  'w-full bg-black/40 border border-white/10 rounded-lg px-3 py-1.5 text-[11px] font-semibold text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/30';
+const labelClass = 'block text-[9px] font-black text-slate-500 uppercase tracking-widest mb-1.5';
+
+const QUICK_PLACES: MessageKey[] = ['places.home', 'places.work'];
+
+export default function PreferencesEditor({ value, onChange, geocode }: Props) {
+  const [newLabel, setNewLabel] = useState('');
+  const [locatingId, setLocatingId] = useState<string | null>(null);
+  const [addressDrafts, setAddressDrafts] = useState<Record<string, string>>({});
+  // Brand fields are edited as text and parsed on blur, so typing a comma is not lost.
+  const [preferredText, setPreferredText] = useState(value.preferredBrands.join(', '));
+  const [blockedText, setBlockedText] = useState(value.blockedBrands.join(', '));
+
+  const updatePlace = (id: string, patch: Partial<SavedPlace>) =>
+    onChange({ ...value, places: value.places.map((p) => (p.id === id ? { ...p, ...patch } : p)) });
+
+  const removePlace = (id: string) =>
+    onChange({
+      ...value,
+      places: value.places.filter((p) => p.id !== id),
+      defaultEndId: value.defaultEndId === id ? undefined : value.defaultEndId,
+      defaultOriginId: value.defaultOriginId === id ? undefined : value.defaultOriginId,
+    });
+
+  const addPlace = (label: string) => {
+    if (!label.trim()) return;
+    onChange({ ...value, places: [...value.places, createSavedPlace(label.trim())] });
+    setNewLabel('');
+  };
+
+  const commitAddress = async (place: SavedPlace) => {
+    const draft = (addressDrafts[place.id] ?? place.address).trim();
+    if (draft === place.address) return;
+    if (!draft) {
+      updatePlace(place.id, { address: '', coords: null });
+      return;
+    }
+    setLocatingId(place.id);
+    try {
+      const hit = await geocode(draft);
+      updatePlace(place.id, { address: draft, coords: hit?.coords ?? null });
+    } finally {
+      setLocatingId(null);
+    }
+  };
+
+  const located = value.places.filter((p) => p.coords);
+  // The limit is stored in km and edited in the user's units.
+  const detourValue = value.maxDetourKm === null ? '' : Math.round(kmToDisplay(value.maxDetourKm) * 100) / 100;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className={labelClass}>{t('places.saved')}</span>
+        {value.places.map((place) => (
+          <div key={place.id} className="bg-white/5 p-3 rounded-xl border border-white/5 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                value={place.label}
+                onChange={(e) => updatePlace(place.id, { label: e.target.value })}
+                className={`${fieldClass} font-black`}
+                aria-label={t('places.name')}
+              />
+              <input
+                value={place.brand ?? ''}
+                onChange={(e) => updatePlace(place.id, { brand: e.target.value || undefined })}
+                placeholder={t('places.brand')}
+                className={`${fieldClass} w-24`}
+                aria-label={t('places.brandOf', { label: place.label })}
+              />
+              <button
+                type="button"
+                onClick={() => removePlace(place.id)}
+                className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10"
+                aria-label={t('places.remove', { label: place.label })}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <div className="relative">
+              <input
+                value={addressDrafts[place.id] ?? place.address}
+                onChange={(e) => setAddressDrafts((d) => ({ ...d, [place.id]: e.target.value }))}
+                onBlur={() => commitAddress(place)}
+                onKeyDown={(e) => e.key === 'Enter' && commitAddress(place)}
+                placeholder={t('places.address')}
+                className={`${fieldClass} pr-8`}
+                aria-label={t('places.addressOf', { label: place.label })}
+              />
+              <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-slate-500">
+                {locatingId === place.id
+                  ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  : place.address && !place.coords ? <LocateFixed className="w-3.5 h-3.5 text-amber-400" /> : null}
+              </span>
+            </div>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          {QUICK_PLACES.map((key) => t(key)).filter((label) => !value.places.some((p) => p.label === label)).map((label) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => addPlace(label)}
+              className="px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/5 rounded-lg text-[10px] font-black text-slate-300 uppercase tracking-widest"
+            >
+              + {label}
+            </button>
+          ))}
+          <input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addPlace(newLabel)}
+            placeholder={t('places.customPlaceholder')}
+            className={fieldClass}
+          />
+          <button
+            type="button"
+            onClick={() => addPlace(newLabel)}
+            disabled={!newLabel.trim()}
+            className="px-2.5 bg-white/5 hover:bg-white/10 border border-white/5 rounded-lg text-slate-300 disabled:opacity-30"
+            aria-label={t('places.add')}
+          >
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block">
+          <span className={labelClass}>{t('places.startFrom')}</span>
+          <select
+            value={value.defaultOriginId ?? ''}
+            onChange={(e) => onChange({ ...value, defaultOriginId: e.target.value || undefined })}
+            className={fieldClass}
+          >
+            <option value="">{t('places.deviceLocation')}</option>
+            {located.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className={labelClass}>{t('places.endAt')}</span>
+          <select
+            value={value.defaultEndId ?? ''}
+            onChange={(e) => onChange({ ...value, defaultEndId: e.target.value || undefined })}
+            className={fieldClass}
+          >
+            <option value="">{t('places.lastStop')}</option>
+            {located.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>{t('places.preferredBrands')}</span>
+        <input
+          value={preferredText}
+          onChange={(e) => setPreferredText(e.target.value)}
+          onBlur={() => onChange({ ...value, preferredBrands: parseBrandList(preferredText) })}
+          placeholder={t('places.preferredPlaceholder')}
+          className={fieldClass}
+        />
+      </label>
+      <label className="block">
+        <span className={labelClass}>{t('places.blockedBrands')}</span>
+        <input
+          value={blockedText}
+          onChange={(e) => setBlockedText(e.target.value)}
+          onBlur={() => onChange({ ...value, blockedBrands: parseBrandList(blockedText) })}
+          placeholder={t('places.blockedPlaceholder')}
+          className={fieldClass}
+        />
+      </label>
+      <label className="block">
+        <span className={labelClass}>{t('places.maxDetour', { unit: getActiveLocale().units })}</span>
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={detourValue}
+          onChange={(e) => onChange({ ...value, maxDetourKm: Number(e.target.value) > 0 ? displayToKm(Number(e.target.value)) : null })}
+          placeholder={t('places.noLimit')}
+          className={fieldClass}
+        />
+      </label>
+    </div>
+  );
+}
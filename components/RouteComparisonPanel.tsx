@@ -0,0 +1,108 @@
+
+import React from 'react';
+import { GitCompare, Route } from 'lucide-react';
+import type { ErrandStop } from '../types';
+import type { RouteComparison, RouteOptions } from '../utils/routeOptimizer';
+import { formatDistance, t } from '../utils/i18n';
+
+interface Props {
+  stops: ErrandStop[];
+  comparison: RouteComparison | null;
+  options: RouteOptions;
+  onOptionsChange: (options: RouteOptions) => void;
+  onApply: (order: string[]) => void;
+  orderLocked?: boolean;
+  readOnly?: boolean;
+}
+
+export default function RouteComparisonPanel({ stops, comparison, options, onOptionsChange, onApply, orderLocked, readOnly }: Props) {
+  const nameOf = (id: string) => stops.find((s) => s.id === id)?.name ?? id;
+  const isSameOrder =
+    !!comparison && comparison.modelOrder.join('|') === comparison.optimizedOrder.join('|');
+
+  return (
+    <div className="bg-[#12161b] p-8 rounded-[3rem] border border-white/5 shadow-2xl space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <GitCompare className="w-5 h-5 text-indigo-500" />
+          <h3 className="text-[10px] font-black text-white uppercase tracking-[0.3em]">{t('route.title')}</h3>
+        </div>
+        {comparison && (
+          <span className="text-[10px] font-black text-indigo-300 uppercase tracking-widest">
+            {t('route.efficiency', { score: comparison.efficiencyScore })}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-[10px] font-bold text-slate-400 uppercase tracking-wide">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.returnToOrigin}
+            onChange={(e) => onOptionsChange({ ...options, returnToOrigin: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          {t('route.returnToOrigin')}
+        </label>
+        <label className="flex items-center gap-2">
+          {t('route.first')}
+          <select
+            value={options.pinFirstId ?? ''}
+            onChange={(e) => onOptionsChange({ ...options, pinFirstId: e.target.value || undefined })}
+            className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-slate-200"
+          >
+            <option value="">{t('common.any')}</option>
+            {stops.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          {t('route.last')}
+          <select
+            value={options.pinLastId ?? ''}
+            onChange={(e) => onOptionsChange({ ...options, pinLastId: e.target.value || undefined })}
+            className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-slate-200"
+          >
+            <option value="">{t('common.any')}</option>
+            {stops.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {comparison ? (
+        <>
+          <div className="grid grid-cols-2 gap-4 text-xs">
+            {[
+              { label: t('route.modelOrder'), order: comparison.modelOrder, km: comparison.modelKm },
+              { label: t('route.optimizedOrder'), order: comparison.optimizedOrder, km: comparison.optimizedKm },
+            ].map(({ label, order, km }) => (
+              <div key={label} className="space-y-2">
+                <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{label} · {formatDistance(km)}</p>
+                <ol className="space-y-1 text-slate-300 font-semibold">
+                  {order.map((id, i) => (
+                    <li key={id} className="truncate"><span className="text-indigo-400">0{i + 1}</span> {nameOf(id)}</li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </div>
+          {isSameOrder ? (
+            <p className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">{t('route.alreadyOptimal')}</p>
+          ) : readOnly ? null : orderLocked ? (
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('route.lockedHint')}</p>
+          ) : (
+            <button
+              type="button"
+              onClick={() => onApply(comparison.optimizedOrder)}
+              className="w-full flex items-center justify-center gap-2 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-2xl text-white text-[10px] font-black uppercase tracking-widest transition-colors"
+            >
+              <Route className="w-4 h-4" />
+              {t('route.apply', { distance: formatDistance(comparison.savedKm) })}
+            </button>
+          )}
+        </>
+      ) : (
+        <p className="text-[11px] text-slate-500 italic">{t('route.unverified')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+
+import React, { useMemo } from 'react';
+import { Map as MapIcon } from 'lucide-react';
+import type { ErrandStop, HouseholdMember, LatLng } from '../types';
+import { stopCoords } from '../utils/geo';
+import { memberColor } from '../utils/household';
+import { t, tCount } from '../utils/i18n';
+import { projectToViewport } from '../utils/mapProjection';
+import { MAP_LAYERS, MapLayerId } from './mapLayers';
+
+interface Props {
+  origin: LatLng | null;
+  stops: ErrandStop[];
+  returnToOrigin: boolean;
+  layerId: MapLayerId;
+  onLayerChange: (id: MapLayerId) => void;
+  onSelectStop: (stop: ErrandStop) => void;
+  // Live fix while a mission is running.
+  position?: LatLng | null;
+  // Household plans draw one coloured route per member instead of one line.
+  household?: HouseholdMember[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 360;
+
+export default function RouteMap({ origin, stops, returnToOrigin, layerId, onLayerChange, onSelectStop, position, household }: Props) {
+  const layer = MAP_LAYERS[layerId];
+  // Keep the plan index so marker numbers match the stop card badges.
+  const mapped = stops
+    .map((stop, idx) => ({ stop, idx, coords: stopCoords(stop) }))
+    .filter((m): m is { stop: ErrandStop; idx: number; coords: LatLng } => m.coords !== null);
+  const unmappedCount = stops.length - mapped.length;
+
+  const viewport = useMemo(() => {
+    const starts = (household ?? []).map((m) => m.start).filter((p): p is LatLng => p !== null);
+    const points = [...(origin ? [origin] : []), ...starts, ...mapped.map((m) => m.coords)];
+    return points.length ? layer.fit(points, WIDTH, HEIGHT) : null;
+  }, [layer, origin, stops, household]);
+
+  const members = household && household.length > 1 ? household : null;
+  const routes = !viewport
+    ? []
+    : members
+      ? members.map((member, i) => {
+          const start = member.start ?? origin;
+          const own = mapped.filter((m) => m.stop.assigneeId === member.id).map((m) => m.coords);
+          return { color: memberColor(i), points: [...(start ? [start] : []), ...own] };
+        })
+      : [{
+          color: '#6366f1',
+          points: [
+            ...(origin ? [origin] : []),
+            ...mapped.map((m) => m.coords),
+            ...(origin && returnToOrigin && mapped.length ? [origin] : []),
+          ],
+        }];
+  const markerColor = (stop: ErrandStop) => {
+    if (stop.status === 'done') return '#059669';
+    const i = members ? members.findIndex((m) => m.id === stop.assigneeId) : -1;
+    return i === -1 ? '#4f46e5' : memberColor(i);
+  };
+
+  return (
+    <div className="bg-[#12161b] p-6 rounded-[3rem] border border-white/5 shadow-2xl space-y-4">
+      <div className="flex items-center justify-between px-2">
+        <div className="flex items-center gap-3">
+          <MapIcon className="w-5 h-5 text-indigo-500" />
+          <h3 className="text-[10px] font-black text-white uppercase tracking-[0.3em]">{t('map.title')}</h3>
+        </div>
+        <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-white/5">
+          {Object.values(MAP_LAYERS).map((l) => (
+            <button
+              key={l.id}
+              type="button"
+              onClick={() => onLayerChange(l.id)}
+              className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-colors ${
+                l.id === layerId ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              {t(`mapLayer.${l.id}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {viewport ? (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto rounded-[2rem] bg-black/40 border border-white/5"
+          role="img"
+          aria-label={t('map.label')}
+        >
+          {layer.renderBackground(viewport)}
+          {routes.map((route, i) => route.points.length > 1 && (
+            <polyline
+              key={i}
+              points={route.points.map((p) => projectToViewport(p, viewport)).map((p) => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              stroke={route.color}
+              strokeWidth={3}
+              strokeLinejoin="round"
+            />
+          ))}
+          {origin && (() => {
+            const p = projectToViewport(origin, viewport);
+            return (
+              <g transform={`translate(${p.x},${p.y})`}>
+                <circle r={9} fill="#ffffff" stroke="#6366f1" strokeWidth={3} />
+                <title>{t('map.origin')}</title>
+              </g>
+            );
+          })()}
+          {mapped.map(({ stop, idx, coords }) => {
+            const p = projectToViewport(coords, viewport);
+            return (
+              <g
+                key={stop.id}
+                transform={`translate(${p.x},${p.y})`}
+                onClick={() => onSelectStop(stop)}
+                onKeyDown={(e) => {
+                  if (e.key !== 'Enter' && e.key !== ' ') return;
+                  e.preventDefault();
+                  onSelectStop(stop);
+                }}
+                className="cursor-pointer"
+                role="button"
+                tabIndex={0}
+                aria-label={t('stop.mapLabel', { index: idx + 1, name: stop.name })}
+              >
+                <circle r={13} fill={markerColor(stop)} stroke="#ffffff" strokeWidth={2} />
+                <text textAnchor="middle" dy="0.35em" fontSize={10} fontWeight={900} fill="#ffffff">
+                  0{idx + 1}
+                </text>
+                <title>{stop.name}</title>
+              </g>
+            );
+          })}
+          {position && (() => {
+            const p = projectToViewport(position, viewport);
+            return (
+              <g transform={`translate(${p.x},${p.y})`}>
+                <circle r={14} fill="#10b981" opacity={0.25} />
+                <circle r={6} fill="#10b981" stroke="#ffffff" strokeWidth={2} />
+                <title>{t('map.you')}</title>
+              </g>
+            );
+          })()}
+          {layer.attribution && (
+            <text x={WIDTH - 8} y={HEIGHT - 8} textAnchor="end" fontSize={9} fill="rgba(255,255,255,0.4)">
+              {layer.attribution}
+            </text>
+          )}
+        </svg>
+      ) : (
+        <p className="text-[11px] text-slate-500 italic px-2">{t('map.waiting')}</p>
+      )}
+
+      {unmappedCount > 0 && (
+        <p className="text-[10px] text-slate-500 font-bold uppercase tracking-wide px-2">
+          {tCount(unmappedCount, 'map.unmapped.one', 'map.unmapped.other')}
+        </p>
+      )}
+    </div>
+  );
+}
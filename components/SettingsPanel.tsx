@@ -0,0 +1,239 @@
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { PLANNER_PROVIDERS, PlannerSettings } from '../services/planner';
+import { DWELL_CATEGORIES, DwellDefaults } from '../utils/dwell';
+import type { VoiceSettings } from '../services/voiceSession';
+import { LANGUAGES, LanguageId, LocaleSettings, MessageKey, t } from '../utils/i18n';
+import type { LatLng, UserPreferences } from '../types';
+import PreferencesEditor from './PreferencesEditor';
+
+interface Props {
+  settings: PlannerSettings;
+  dwellDefaults: DwellDefaults;
+  preferences: UserPreferences;
+  locale: LocaleSettings;
+  voice: VoiceSettings;
+  onSave: (
+    settings: PlannerSettings,
+    dwellDefaults: DwellDefaults,
+    preferences: UserPreferences,
+    locale: LocaleSettings,
+    voice: VoiceSettings
+  ) => void;
+  onClose: () => void;
+  geocode: (address: string) => Promise<{ label: string; coords: LatLng } | null>;
+}
+
+const fieldClass =
+  'w-full bg-black/40 border border-white/10 rounded-xl px-4 py-2.5 text-xs font-medium text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/30';
+const labelClass = 'block text-[9px] font-black text-slate-500 uppercase tracking-widest mb-1.5';
+
+export default function SettingsPanel({ settings, dwellDefaults, preferences, locale, voice, onSave, onClose, geocode }: Props) {
+  const [draft, setDraft] = useState<PlannerSettings>(settings);
+  const [dwellDraft, setDwellDraft] = useState<DwellDefaults>(dwellDefaults);
+  const [prefsDraft, setPrefsDraft] = useState<UserPreferences>(preferences);
+  const [localeDraft, setLocaleDraft] = useState<LocaleSettings>(locale);
+  const [voiceDraft, setVoiceDraft] = useState<VoiceSettings>(voice);
+  const speechLangs = LANGUAGES.find((l) => l.id === localeDraft.language)?.speechLangs ?? [];
+
+  const changeProvider = (providerId: PlannerSettings['providerId']) => {
+    const provider = PLANNER_PROVIDERS.find((p) => p.id === providerId);
+    setDraft({ ...draft, providerId, model: provider?.defaultModel ?? draft.model });
+  };
+
+  // Voice input follows the language unless the user picks a regional variant of it.
+  const changeLanguage = (language: LanguageId) => {
+    const langs = LANGUAGES.find((l) => l.id === language)?.speechLangs ?? [];
+    setLocaleDraft({
+      ...localeDraft,
+      language,
+      speechLang: langs.includes(localeDraft.speechLang) ? localeDraft.speechLang : langs[0],
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-slate-900 border border-white/10 rounded-2xl p-5 max-w-sm w-full max-h-[90vh] overflow-y-auto shadow-2xl space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">{t('settings.title')}</h4>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+            aria-label={t('common.close')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <label className="block">
+          <span className={labelClass}>{t('settings.provider')}</span>
+          <select
+            value={draft.providerId}
+            onChange={(e) => changeProvider(e.target.value as PlannerSettings['providerId'])}
+            className={fieldClass}
+          >
+            {PLANNER_PROVIDERS.map((p) => <option key={p.id} value={p.id}>{t(`provider.${p.id}`)}</option>)}
+          </select>
+        </label>
+
+        {draft.providerId !== 'mock' && (
+          <>
+            <label className="block">
+              <span className={labelClass}>{t('settings.model')}</span>
+              <input value={draft.model} onChange={(e) => setDraft({ ...draft, model: e.target.value })} className={fieldClass} />
+            </label>
+            {draft.providerId === 'openai' && (
+              <label className="block">
+                <span className={labelClass}>{t('settings.baseUrl')}</span>
+                <input value={draft.baseUrl} onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })} className={fieldClass} />
+              </label>
+            )}
+            <label className="block">
+              <span className={labelClass}>{t(draft.providerId === 'gemini' ? 'settings.apiKeyOverride' : 'settings.apiKeyOptional')}</span>
+              <input
+                type="password"
+                value={draft.apiKey}
+                onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                className={fieldClass}
+                autoComplete="off"
+              />
+            </label>
+            {draft.providerId === 'gemini' && (
+              <label className="block">
+                <span className={labelClass}>{t('settings.proxyUrl')}</span>
+                <input
+                  value={draft.proxyUrl}
+                  onChange={(e) => setDraft({ ...draft, proxyUrl: e.target.value.trim() })}
+                  placeholder="http://localhost:8787"
+                  className={fieldClass}
+                />
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-[11px] text-slate-300">
+              <input
+                type="checkbox"
+                checked={draft.coarseOrigin}
+                onChange={(e) => setDraft({ ...draft, coarseOrigin: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              {t('settings.coarseOrigin')}
+            </label>
+          </>
+        )}
+
+        {draft.providerId === 'mock' && (
+          <p className="text-[11px] text-slate-400 italic">
+            {t('settings.mockNote')}
+          </p>
+        )}
+
+        <div>
+          <span className={labelClass}>{t('settings.dwell')}</span>
+          <div className="grid grid-cols-3 gap-2">
+            {DWELL_CATEGORIES.map((c) => (
+              <label key={c.id} className="block">
+                <span className="block text-[9px] font-bold text-slate-400 truncate mb-1">{t(`dwell.${c.id}` as MessageKey)}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={240}
+                  value={dwellDraft[c.id] ?? c.minutes}
+                  onChange={(e) => setDwellDraft({ ...dwellDraft, [c.id]: Math.max(0, Number(e.target.value) || 0) })}
+                  className={fieldClass}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="border-t border-white/5 pt-4 space-y-3">
+          <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">{t('settings.locale')}</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className={labelClass}>{t('settings.language')}</span>
+              <select value={localeDraft.language} onChange={(e) => changeLanguage(e.target.value as LanguageId)} className={fieldClass}>
+                {LANGUAGES.map((l) => <option key={l.id} value={l.id}>{l.label}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t('settings.speechLanguage')}</span>
+              <select
+                value={localeDraft.speechLang}
+                onChange={(e) => setLocaleDraft({ ...localeDraft, speechLang: e.target.value })}
+                className={fieldClass}
+              >
+                {speechLangs.map((lang) => <option key={lang} value={lang}>{lang}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t('settings.clock')}</span>
+              <select
+                value={localeDraft.clock}
+                onChange={(e) => setLocaleDraft({ ...localeDraft, clock: e.target.value as LocaleSettings['clock'] })}
+                className={fieldClass}
+              >
+                <option value="12h">{t('clock.12h')}</option>
+                <option value="24h">{t('clock.24h')}</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t('settings.units')}</span>
+              <select
+                value={localeDraft.units}
+                onChange={(e) => setLocaleDraft({ ...localeDraft, units: e.target.value as LocaleSettings['units'] })}
+                className={fieldClass}
+              >
+                <option value="km">{t('units.km')}</option>
+                <option value="mi">{t('units.mi')}</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t('settings.voiceMode')}</span>
+              <select
+                value={voiceDraft.mode}
+                onChange={(e) => setVoiceDraft({ ...voiceDraft, mode: e.target.value as VoiceSettings['mode'] })}
+                className={fieldClass}
+              >
+                <option value="auto">{t('voice.modeAuto')}</option>
+                <option value="push">{t('voice.modePush')}</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t('settings.silence')}</span>
+              <input
+                type="number"
+                min={1}
+                max={15}
+                value={voiceDraft.silenceSeconds}
+                disabled={voiceDraft.mode === 'push'}
+                onChange={(e) => setVoiceDraft({ ...voiceDraft, silenceSeconds: Math.min(15, Math.max(1, Number(e.target.value) || 1)) })}
+                className={`${fieldClass} disabled:opacity-30`}
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="border-t border-white/5 pt-4">
+          <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-widest mb-3">{t('settings.places')}</h4>
+          <PreferencesEditor value={prefsDraft} onChange={setPrefsDraft} geocode={geocode} />
+        </div>
+
+        <button
+          type="button"
+          onClick={() => onSave(draft, dwellDraft, prefsDraft, localeDraft, voiceDraft)}
+          className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-xl text-white text-[10px] font-black uppercase tracking-widest transition-colors"
+        >
+          {t('common.save')}
+        </button>
+      </div>
+    </div>
+  );
+}
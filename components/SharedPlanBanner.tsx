@@ -0,0 +1,26 @@
+
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { t } from '../utils/i18n';
+
+interface Props {
+  onSaveCopy: () => void;
+}
+
+export default function SharedPlanBanner({ onSaveCopy }: Props) {
+  return (
+    <div className="bg-indigo-950/30 border border-indigo-500/20 text-indigo-200 p-6 rounded-[2rem] flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <Eye className="w-5 h-5 shrink-0" />
+        <p className="text-xs font-bold uppercase tracking-wide">{t('plan.sharedReadOnly')}</p>
+      </div>
+      <button
+        type="button"
+        onClick={onSaveCopy}
+        className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-[9px] font-black uppercase tracking-widest transition-colors"
+      >
+        {t('plan.saveCopy')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+
+import React from 'react';
+import { ArrowDown, ArrowUp, CheckCircle2, Circle, GripVertical, Sparkles, Trash2 } from 'lucide-react';
+import type { ErrandStop, PlanLeg } from '../types';
+import { renderVal } from '../utils/format';
+import { formatDuration } from '../utils/time';
+import { formatDistance, levelLabel, t } from '../utils/i18n';
+import { describeWindow, hasTimeWindow, WindowViolation } from '../utils/timeWindows';
+import type { PreferenceIssue } from '../utils/preferences';
+import { TRAVEL_MODE_ICONS } from './TravelModePicker';
+import ItemChecklist from './ItemChecklist';
+
+interface Props {
+  stop: ErrandStop;
+  idx: number;
+  violation?: WindowViolation;
+  preferenceIssues?: PreferenceIssue[];
+  // From the last REROUTE: newly added, or positions moved (positive = earlier).
+  isNew?: boolean;
+  movedBy?: number;
+  draggable: boolean;
+  // Hides the done and remove controls, e.g. for shared plans.
+  readOnly?: boolean;
+  // Household plans: who runs this stop.
+  assignee?: { name: string; color: string };
+  // The leg arriving here, when the plan has computed timing.
+  leg?: PlanLeg;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  onSelect: () => void;
+  onRemove: () => void;
+  onToggleDone: () => void;
+  onToggleItem: (itemId: string) => void;
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}
+
+export default function StopCard({
+  stop, idx, violation, preferenceIssues = [], isNew, movedBy, draggable, readOnly, assignee, leg, isDragging, isDropTarget,
+  onSelect, onRemove, onToggleDone, onToggleItem, onDragStart, onDragOver, onDrop, onDragEnd,
+}: Props) {
+  const done = stop.status === 'done';
+  // Parking only matters where the car stops: driven legs, not walks inside a park-once cluster.
+  const drivesHere = !stop.legMode || stop.legMode === 'driving';
+  const isParkingSpot = !!stop.clusterId && stop.clusterId === stop.id;
+  const LegIcon = TRAVEL_MODE_ICONS[isParkingSpot ? 'park-walk' : stop.legMode ?? 'driving'];
+  const legLabel = isParkingSpot
+    ? t('stop.parkHere')
+    : stop.clusterId
+      ? t('stop.walkFromParking')
+      : stop.legMode && stop.legMode !== 'driving'
+        ? t(`travelMode.${stop.legMode}`)
+        : null;
+  const border = isDropTarget
+    ? 'border-indigo-500'
+    : violation || preferenceIssues.length ? 'border-amber-500/40'
+    : isNew || movedBy ? 'border-emerald-500/40'
+    : 'border-white/5';
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      draggable={draggable}
+      onClick={onSelect}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        onDragStart();
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        onDragOver();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      onDragEnd={onDragEnd}
+      className={`w-full text-left bg-slate-900/40 border ${border} p-6 rounded-[2.5rem] space-y-4 hover:border-indigo-500/20 transition-all group cursor-pointer ${isDragging ? 'opacity-40' : ''} ${done ? 'opacity-50' : ''}`}
+    >
+      <div className="flex justify-between items-start">
+        <div className="flex items-center gap-2">
+          {draggable && <GripVertical className="w-4 h-4 text-slate-700 cursor-grab" />}
+          <div className="bg-slate-800 w-10 h-10 rounded-xl flex items-center justify-center text-xs font-black text-indigo-400 group-hover:bg-indigo-600 group-hover:text-white transition-all">
+            0{idx + 1}
+          </div>
+          {isNew && (
+            <span className="flex items-center gap-1 text-[8px] bg-emerald-500/20 text-emerald-300 px-2 py-1 rounded font-black uppercase tracking-widest">
+              <Sparkles className="w-3 h-3" /> {t('stop.new')}
+            </span>
+          )}
+          {!!movedBy && (
+            <span className="flex items-center gap-1 text-[8px] bg-emerald-500/10 text-emerald-300 px-2 py-1 rounded font-black uppercase tracking-widest">
+              {movedBy > 0 ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+              {Math.abs(movedBy)}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="bg-indigo-500/10 px-3 py-1.5 rounded-lg border border-indigo-500/20">
+            <span className="text-[10px] font-black text-indigo-300 uppercase">{renderVal(stop.arrivalEstimate)}</span>
+          </div>
+          {!readOnly && (
+            <>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleDone();
+                }}
+                className={`p-1.5 rounded-lg transition-colors ${done ? 'text-emerald-400' : 'text-slate-600 hover:text-emerald-400 hover:bg-emerald-500/10'}`}
+                aria-label={t(done ? 'stop.markNotDone' : 'stop.markDone', { name: stop.name })}
+                aria-pressed={done}
+              >
+                {done ? <CheckCircle2 className="w-3.5 h-3.5" /> : <Circle className="w-3.5 h-3.5" />}
+              </button>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove();
+                }}
+                className="p-1.5 rounded-lg text-slate-600 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                aria-label={t('stop.remove', { name: stop.name })}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      <div>
+        <h4 className={`text-xl font-black text-white ${done ? 'line-through' : ''}`}>{renderVal(stop.name)}</h4>
+        <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tight line-clamp-1">{renderVal(stop.address)}</p>
+        {leg && (
+          <p className="text-[10px] text-slate-400 font-bold mt-1">
+            {formatDuration(leg.travelMinutes)} {t(`travelMode.${leg.mode}`).toLowerCase()}
+            {leg.distanceKm !== null && ` · ${formatDistance(leg.distanceKm)}`}
+            {leg.waitMinutes > 0 && ` · ${t('stop.wait', { duration: formatDuration(leg.waitMinutes) })}`}
+            {` · ${t('stop.dwell', { duration: formatDuration(leg.dwellMinutes) })}`}
+          </p>
+        )}
+      </div>
+      <div className="flex gap-2">
+         {legLabel && (
+           <span className="flex items-center gap-1 text-[8px] bg-slate-800 px-2 py-1 rounded text-slate-300 font-black uppercase tracking-widest">
+             <LegIcon className="w-3 h-3" /> {legLabel}
+           </span>
+         )}
+         {drivesHere && (
+           <span className="text-[8px] bg-slate-800 px-2 py-1 rounded text-slate-400 font-black uppercase tracking-widest">{t('stop.park', { level: levelLabel(stop.parkingDifficulty) })}</span>
+         )}
+         <span className="text-[8px] bg-slate-800 px-2 py-1 rounded text-slate-400 font-black uppercase tracking-widest">{t('stop.crowd', { level: levelLabel(stop.crowdLevel) })}</span>
+         {assignee && (
+           <span className="flex items-center gap-1.5 text-[8px] bg-slate-800 px-2 py-1 rounded text-slate-300 font-black uppercase tracking-widest">
+             <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: assignee.color }} />
+             {assignee.name}
+           </span>
+         )}
+         {stop.status === 'arrived' && (
+           <span className="text-[8px] bg-emerald-500/20 px-2 py-1 rounded text-emerald-300 font-black uppercase tracking-widest">{t('stop.hereNow')}</span>
+         )}
+         {preferenceIssues.map((issue) => (
+           <span key={issue.kind} className="text-[8px] bg-amber-500/20 px-2 py-1 rounded text-amber-300 font-black uppercase tracking-widest">
+             {t(issue.kind === 'blocked' ? 'stop.blockedBrand' : 'stop.longDetour')}
+           </span>
+         ))}
+         {hasTimeWindow(stop) && (
+           <span className={`text-[8px] px-2 py-1 rounded font-black uppercase tracking-widest ${violation ? 'bg-amber-500/20 text-amber-300' : 'bg-slate-800 text-slate-400'}`}>{describeWindow(stop)}</span>
+         )}
+      </div>
+      {!!stop.items?.length && (
+        <ItemChecklist items={stop.items} onToggle={readOnly ? undefined : onToggleItem} />
+      )}
+      <p className="text-[11px] text-slate-400 leading-relaxed italic border-l-2 border-indigo-500/30 pl-3 group-hover:border-indigo-500 transition-all">
+        {renderVal(stop.parkingAdvice || stop.reason)}
+      </p>
+    </div>
+  );
+}
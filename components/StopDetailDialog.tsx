@@ -0,0 +1,76 @@
+
+import React from 'react';
+import { MapPin, X } from 'lucide-react';
+import type { ErrandStop } from '../types';
+import { renderVal } from '../utils/format';
+import { levelLabel, t } from '../utils/i18n';
+import { stopPlaceUrl } from '../utils/planSchema';
+import { describeWindow, hasTimeWindow, WindowViolation } from '../utils/timeWindows';
+
+interface Props {
+  stop: ErrandStop;
+  violation?: WindowViolation;
+  onClose: () => void;
+}
+
+// Location detail popover for a stop picked on the map or a card.
+export default function StopDetailDialog({ stop, violation, onClose }: Props) {
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-slate-900 border border-white/10 rounded-2xl p-5 max-w-sm w-full shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-3">
+          <div className="flex-1 min-w-0">
+            <h4 className="text-lg font-black text-white truncate">{renderVal(stop.name)}</h4>
+            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tight mt-0.5">{renderVal(stop.address)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="ml-2 p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+            aria-label={t('common.close')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="space-y-2 text-xs">
+          <div className="flex gap-2">
+            <span className="text-[9px] bg-indigo-500/20 text-indigo-300 px-2 py-0.5 rounded font-black uppercase">{renderVal(stop.category)}</span>
+            <span className="text-[9px] bg-slate-800 text-slate-400 px-2 py-0.5 rounded font-black uppercase">{renderVal(stop.arrivalEstimate)}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-[9px] text-slate-500">{t('stop.parking')}: <span className="text-slate-300">{levelLabel(stop.parkingDifficulty)}</span></span>
+            <span className="text-slate-600">·</span>
+            <span className="text-[9px] text-slate-500">{t('stop.crowdLabel')}: <span className="text-slate-300">{levelLabel(stop.crowdLevel)}</span></span>
+          </div>
+          {(stop.parkingAdvice || stop.reason) && (
+            <p className="text-[11px] text-slate-400 italic">{renderVal(stop.parkingAdvice || stop.reason)}</p>
+          )}
+          {hasTimeWindow(stop) && (
+            <p className="text-[11px] text-slate-300">{t('stop.window')}: {describeWindow(stop)}</p>
+          )}
+          {violation && (
+            <p className="text-[11px] text-amber-400/90">{violation.reason}</p>
+          )}
+          {stop.trafficNote && (
+            <p className="text-[11px] text-amber-400/90">{renderVal(stop.trafficNote)}</p>
+          )}
+        </div>
+        <a
+          href={stopPlaceUrl(stop)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-4 flex items-center justify-center gap-2 w-full py-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-xl text-white text-[10px] font-black uppercase tracking-widest transition-colors"
+        >
+          <MapPin className="w-3.5 h-3.5" />
+          {t('stop.openMaps')}
+        </a>
+      </div>
+    </div>
+  );
+}
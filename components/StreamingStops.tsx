@@ -0,0 +1,33 @@
+
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import type { ErrandStop } from '../types';
+import { renderVal } from '../utils/format';
+import { t } from '../utils/i18n';
+
+interface Props {
+  stops: ErrandStop[];
+}
+
+// Stops parsed so far from a plan that is still streaming in.
+export default function StreamingStops({ stops }: Props) {
+  return (
+    <section className="bg-slate-900/50 border border-white/5 rounded-[2rem] p-6 space-y-3" aria-live="polite">
+      <div className="flex items-center gap-2 text-indigo-300">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <p className="text-[10px] font-black uppercase tracking-widest">
+          {t('plan.streaming', { count: stops.length })}
+        </p>
+      </div>
+      <ol className="space-y-2">
+        {stops.map((stop, i) => (
+          <li key={`${stop.id}-${i}`} className="flex items-baseline gap-3 animate-in fade-in duration-300">
+            <span className="text-[10px] font-black text-slate-500">{i + 1}</span>
+            <span className="text-sm font-bold text-white">{renderVal(stop.name)}</span>
+            <span className="text-[10px] text-slate-500 truncate">{renderVal(stop.address)}</span>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
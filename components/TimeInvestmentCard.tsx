@@ -0,0 +1,72 @@
+
+import React from 'react';
+import type { ErrandPlan, TravelMode } from '../types';
+import { summarizeTiming } from '../utils/planTiming';
+import { formatClock, formatDuration } from '../utils/time';
+import { renderVal } from '../utils/format';
+import { formatDistance, t } from '../utils/i18n';
+
+interface Props {
+  plan: ErrandPlan;
+}
+
+const TRAVEL_COLORS: Record<TravelMode, string> = {
+  driving: 'bg-white',
+  walking: 'bg-emerald-300',
+  bicycling: 'bg-cyan-300',
+  transit: 'bg-amber-300',
+};
+
+export default function TimeInvestmentCard({ plan }: Props) {
+  const timing = plan.timing;
+  const summary = timing ? summarizeTiming(timing) : null;
+  // Household legs run in parallel, so the parts can add up to more than the total.
+  const parts = summary
+    ? [
+        ...(Object.keys(summary.travelByMode) as TravelMode[]).map((mode) => ({
+          label: t(`travelMode.${mode}`),
+          minutes: summary.travelByMode[mode] as number,
+          color: TRAVEL_COLORS[mode],
+        })),
+        { label: t('time.shop'), minutes: summary.dwellMinutes, color: 'bg-pink-300' },
+        { label: t('time.wait'), minutes: summary.waitMinutes, color: 'bg-slate-400' },
+      ].filter((p) => p.minutes > 0)
+    : [];
+  const partsTotal = parts.reduce((sum, p) => sum + p.minutes, 0);
+
+  return (
+    <div className="flex-1 bg-indigo-600 p-7 rounded-[2.5rem] text-white flex flex-col justify-center shadow-2xl relative overflow-hidden group">
+      <div className="absolute inset-0 bg-white/5 opacity-0 group-hover:opacity-100 transition-opacity" />
+      <p className="text-[9px] font-black uppercase tracking-[0.3em] opacity-60 mb-1">{t('time.title')}</p>
+      <h2 className="text-4xl font-black italic tracking-tighter">
+        {summary ? formatDuration(summary.totalMinutes) : renderVal(plan.totalTime)}
+      </h2>
+      {timing && summary && (
+        <div className="relative mt-3 space-y-2">
+          <p className="text-[10px] font-bold opacity-80">
+            {t('time.leave', { time: formatClock(timing.departAt) })} ·{' '}
+            {t(timing.returnAt !== undefined ? 'time.arrive' : 'time.done', { time: formatClock(timing.endAt) })}
+            {summary.distanceKm > 0 && ` · ${formatDistance(summary.distanceKm)}`}
+          </p>
+          {partsTotal > 0 && (
+            <>
+              <div className="flex h-1.5 rounded-full overflow-hidden bg-black/20">
+                {parts.map((p) => (
+                  <div key={p.label} className={p.color} style={{ width: `${(p.minutes / partsTotal) * 100}%` }} />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {parts.map((p) => (
+                  <span key={p.label} className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest opacity-80">
+                    <span className={`w-1.5 h-1.5 rounded-full ${p.color}`} />
+                    {p.label} {formatDuration(p.minutes)}
+                  </span>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
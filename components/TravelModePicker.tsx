@@ -0,0 +1,46 @@
+
+import React from 'react';
+import { Bike, Car, Footprints, SquareParking, TramFront } from 'lucide-react';
+import type { TravelModeSetting } from '../types';
+import { TRAVEL_MODES } from '../utils/travelModes';
+import { t } from '../utils/i18n';
+
+interface Props {
+  value: TravelModeSetting;
+  onChange: (mode: TravelModeSetting) => void;
+  disabled?: boolean;
+}
+
+export const TRAVEL_MODE_ICONS: Record<TravelModeSetting, typeof Car> = {
+  driving: Car,
+  walking: Footprints,
+  bicycling: Bike,
+  transit: TramFront,
+  'park-walk': SquareParking,
+};
+
+export default function TravelModePicker({ value, onChange, disabled }: Props) {
+  return (
+    <div className="grid grid-cols-5 gap-1 bg-black/40 p-1 rounded-2xl border border-white/5" role="radiogroup" aria-label={t('travelMode.label')}>
+      {TRAVEL_MODES.map((id) => {
+        const Icon = TRAVEL_MODE_ICONS[id];
+        return (
+          <button
+            key={id}
+            type="button"
+            role="radio"
+            aria-checked={id === value}
+            disabled={disabled}
+            onClick={() => onChange(id)}
+            className={`flex flex-col items-center gap-1 py-2 rounded-xl text-[8px] font-black uppercase tracking-widest transition-colors disabled:opacity-30 ${
+              id === value ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {t(`travelMode.${id}`)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+
+import React from 'react';
+import { Check, Flag, Footprints, MapPinCheck, Play, Square } from 'lucide-react';
+import type { TripProgress } from '../utils/tripTracker';
+import { renderVal } from '../utils/format';
+import { formatDuration } from '../utils/time';
+import { formatDistance, t } from '../utils/i18n';
+
+interface Props {
+  isActive: boolean;
+  isSimulated: boolean;
+  progress: TripProgress | null;
+  trackingError: string | null;
+  onStart: () => void;
+  onSimulate: () => void;
+  onStop: () => void;
+  onArrive: (stopId: string) => void;
+  onCheckOff: (stopId: string) => void;
+}
+
+const describeDelta = (delta: number | null) => {
+  if (delta === null) return null;
+  if (Math.abs(delta) < 2) return { label: t('trip.onSchedule'), tone: 'text-emerald-300' };
+  return delta > 0
+    ? { label: t('trip.behind', { duration: formatDuration(delta) }), tone: 'text-amber-300' }
+    : { label: t('trip.ahead', { duration: formatDuration(-delta) }), tone: 'text-emerald-300' };
+};
+
+const statClass = 'bg-black/30 rounded-2xl p-4 border border-white/5';
+const statLabel = 'text-[9px] font-black text-slate-500 uppercase tracking-widest mb-1';
+
+export default function TripPanel({
+  isActive, isSimulated, progress, trackingError, onStart, onSimulate, onStop, onArrive, onCheckOff,
+}: Props) {
+  if (!isActive) {
+    return (
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onStart}
+          className="flex-1 flex items-center justify-center gap-2 py-4 bg-emerald-600 hover:bg-emerald-500 rounded-2xl text-white text-[10px] font-black uppercase tracking-widest transition-colors active:scale-[0.98]"
+        >
+          <Play className="w-4 h-4" /> {t('trip.start')}
+        </button>
+        <button
+          type="button"
+          onClick={onSimulate}
+          className="px-5 flex items-center justify-center gap-2 py-4 bg-white/5 hover:bg-white/10 border border-white/5 rounded-2xl text-slate-300 text-[10px] font-black uppercase tracking-widest transition-colors"
+        >
+          <Footprints className="w-4 h-4" /> {t('trip.simulate')}
+        </button>
+      </div>
+    );
+  }
+
+  const delta = describeDelta(progress?.scheduleDeltaMinutes ?? null);
+  const current = progress?.current ?? null;
+
+  return (
+    <div className="bg-emerald-950/20 border border-emerald-500/20 p-6 rounded-[2rem] space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
+          <p className="text-[10px] font-black text-emerald-300 uppercase tracking-widest">
+            {t('trip.live')}{isSimulated ? ` · ${t('trip.simulated')}` : ''} ·{' '}
+            {t('trip.doneCount', { done: progress?.doneCount ?? 0, total: progress?.totalCount ?? 0 })}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onStop}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-slate-300 text-[9px] font-black uppercase tracking-widest"
+        >
+          <Square className="w-3 h-3" /> {t('trip.end')}
+        </button>
+      </div>
+
+      {trackingError && <p className="text-[11px] text-red-400 font-bold">{trackingError}</p>}
+
+      {current ? (
+        <>
+          <div>
+            <p className={statLabel}>{t(current.status === 'arrived' ? 'trip.atStop' : 'trip.currentLeg')}</p>
+            <p className="text-lg font-black text-white">
+              0{(progress?.currentIndex ?? 0) + 1} · {renderVal(current.name)}
+            </p>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className={statClass}>
+              <p className={statLabel}>{t('trip.distance')}</p>
+              <p className="text-sm font-black text-white">
+                {progress?.distanceKm != null ? formatDistance(progress.distanceKm) : '—'}
+              </p>
+            </div>
+            <div className={statClass}>
+              <p className={statLabel}>{t('trip.schedule')}</p>
+              <p className={`text-sm font-black ${delta?.tone ?? 'text-slate-400'}`}>{delta?.label ?? '—'}</p>
+            </div>
+            <div className={statClass}>
+              <p className={statLabel}>{t('trip.remaining')}</p>
+              <p className="text-sm font-black text-white">
+                {progress?.remainingMinutes != null ? formatDuration(progress.remainingMinutes) : '—'}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-3">
+            {current.status !== 'arrived' && (
+              <button
+                type="button"
+                onClick={() => onArrive(current.id)}
+                className="flex-1 flex items-center justify-center gap-2 py-3 bg-white/5 hover:bg-white/10 border border-white/5 rounded-xl text-slate-200 text-[10px] font-black uppercase tracking-widest"
+              >
+                <MapPinCheck className="w-4 h-4" /> {t('trip.imHere')}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => onCheckOff(current.id)}
+              className="flex-1 flex items-center justify-center gap-2 py-3 bg-emerald-600 hover:bg-emerald-500 rounded-xl text-white text-[10px] font-black uppercase tracking-widest"
+            >
+              <Check className="w-4 h-4" /> {t('trip.checkOff')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="flex items-center gap-2 text-xs font-black text-emerald-300 uppercase tracking-widest">
+          <Flag className="w-4 h-4" /> {t('trip.allDone')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+
+import React from 'react';
+import type { LatLng } from '../types';
+import { fitViewport, MapViewport, TILE_SIZE } from '../utils/mapProjection';
+
+// --- Types ---
+export type MapLayerId = 'osm' | 'schematic';
+
+/**
+ * A base layer for RouteMap. Layers choose how points are fitted and what is
+ * drawn underneath; markers and the route line are shared on top.
+ */
+export interface MapLayer {
+  // Also the translation key suffix, mapLayer.<id>.
+  id: MapLayerId;
+  fit: (points: LatLng[], width: number, height: number) => MapViewport;
+  renderBackground: (viewport: MapViewport) => React.ReactNode;
+  attribution?: string;
+}
+
+const osmLayer: MapLayer = {
+  id: 'osm',
+  attribution: '© OpenStreetMap contributors',
+  fit: (points, width, height) => fitViewport(points, width, height, { integerZoom: true }),
+  renderBackground: ({ width, height, zoom, center }) => {
+    const left = center.x - width / 2;
+    const top = center.y - height / 2;
+    const tileCount = 2 ** zoom;
+    const tiles: React.ReactNode[] = [];
+    for (let ty = Math.floor(top / TILE_SIZE); ty * TILE_SIZE < top + height; ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      for (let tx = Math.floor(left / TILE_SIZE); tx * TILE_SIZE < left + width; tx++) {
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        tiles.push(
+          <image
+            key={`${tx}/${ty}`}
+            href={`https://tile.openstreetmap.org/${zoom}/${wrappedX}/${ty}.png`}
+            x={tx * TILE_SIZE - left}
+            y={ty * TILE_SIZE - top}
+            width={TILE_SIZE}
+            height={TILE_SIZE}
+            style={{ filter: 'invert(1) hue-rotate(180deg) brightness(0.7)' }}
+          />
+        );
+      }
+    }
+    return <g opacity={0.6}>{tiles}</g>;
+  },
+};
+
+// No network needed: a plain grid under the projected points.
+const schematicLayer: MapLayer = {
+  id: 'schematic',
+  fit: (points, width, height) => fitViewport(points, width, height),
+  renderBackground: ({ width, height }) => {
+    const lines: React.ReactNode[] = [];
+    for (let x = 0; x <= width; x += 40) lines.push(<line key={`x${x}`} x1={x} y1={0} x2={x} y2={height} />);
+    for (let y = 0; y <= height; y += 40) lines.push(<line key={`y${y}`} x1={0} y1={y} x2={width} y2={y} />);
+    return <g stroke="rgba(255,255,255,0.04)" strokeWidth={1}>{lines}</g>;
+  },
+};
+
+export const MAP_LAYERS: Record<MapLayerId, MapLayer> = {
+  osm: osmLayer,
+  schematic: schematicLayer,
+};
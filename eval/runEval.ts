@@ -0,0 +1,86 @@
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { CaseScore, EvalCase, EvalSummary, scoreResponse, summarize } from './scorePlan';
+
+/**
+ * Offline plan-quality evaluation. Replays recorded model responses for the
+ * prompts in corpus.json and scores each one, so a prompt or model change
+ * can be compared against an earlier run without a network or key.
+ *
+ *   npm run eval -- --set baseline --out /tmp/baseline.json
+ *   npm run eval -- --set candidate --compare /tmp/baseline.json
+ *
+ * Recordings live in eval/recordings/<set>/<case id>.txt, one raw model
+ * response per case, exactly as the provider returned it.
+ */
+
+// --- Types ---
+interface EvalReport {
+  set: string;
+  summary: EvalSummary;
+  cases: CaseScore[];
+}
+
+const EVAL_DIR = path.dirname(new URL(import.meta.url).pathname);
+
+const readArgs = (argv: string[]) => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) args[argv[i].slice(2)] = argv[++i];
+  }
+  return args;
+};
+
+const format = (value: number | boolean | null) =>
+  value === null ? '-' : typeof value === 'boolean' ? (value ? 'yes' : 'NO') : String(value);
+
+const printTable = (scores: CaseScore[]) => {
+  const columns: (keyof CaseScore)[] = ['id', 'schemaValid', 'stops', 'duplicateStops', 'routeKm', 'optimalKm', 'routeRatio'];
+  const rows = [columns.map(String), ...scores.map((s) => columns.map((c) => format(s[c] as number | boolean | null)))];
+  const widths = columns.map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  rows.forEach((row) => console.log(row.map((cell, i) => cell.padEnd(widths[i])).join('  ')));
+};
+
+// Positive deltas are improvements for the rates and regressions for route ratios.
+const printComparison = (current: EvalSummary, previous: EvalSummary) => {
+  const keys: (keyof EvalSummary)[] = ['schemaValidRate', 'duplicateFreeRate', 'meanRouteRatio', 'worstRouteRatio'];
+  console.log('\nCompared with the previous report:');
+  keys.forEach((key) => {
+    const now = current[key];
+    const before = previous[key];
+    const delta = now === null || before === null ? '-' : `${now - before >= 0 ? '+' : ''}${(now - before).toFixed(3)}`;
+    console.log(`  ${key.padEnd(18)} ${format(before).padStart(6)} -> ${format(now).padStart(6)}  (${delta})`);
+  });
+};
+
+const main = () => {
+  const args = readArgs(process.argv.slice(2));
+  const set = args.set ?? 'baseline';
+  const recordings = path.resolve(args.recordings ?? path.join(EVAL_DIR, 'recordings', set));
+  const corpus: EvalCase[] = JSON.parse(readFileSync(path.join(EVAL_DIR, 'corpus.json'), 'utf8'));
+
+  if (!existsSync(recordings)) {
+    console.error(`No recordings at ${recordings}`);
+    process.exit(1);
+  }
+
+  const scores = corpus.map((evalCase) => {
+    const file = path.join(recordings, `${evalCase.id}.txt`);
+    return scoreResponse(evalCase, existsSync(file) ? readFileSync(file, 'utf8') : null);
+  });
+  const report: EvalReport = { set, summary: summarize(scores), cases: scores };
+
+  printTable(scores);
+  console.log('\nSummary:', JSON.stringify(report.summary, null, 2));
+  if (args.compare) {
+    const previous: EvalReport = JSON.parse(readFileSync(path.resolve(args.compare), 'utf8'));
+    printComparison(report.summary, previous.summary);
+  }
+  if (args.out) {
+    writeFileSync(path.resolve(args.out), `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nReport written to ${args.out}`);
+  }
+};
+
+main();
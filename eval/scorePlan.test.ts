@@ -0,0 +1,79 @@
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ErrandStop } from '../types';
+import { countDuplicateStops, optimalPathKm, pathKm, scoreResponse, summarize } from './scorePlan';
+
+const origin = { lat: 0, lng: 0 };
+const evalCase = { id: 'case', input: 'errands', origin };
+
+const stop = (name: string, lat: number, lng: number, address = `${name} St`) => ({ name, address, lat, lng });
+const response = (stops: object[]) => JSON.stringify({ summary: '', stops });
+
+describe('scoreResponse', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('scores the best order as 1', () => {
+    const score = scoreResponse(evalCase, response([stop('A', 0, 0.01), stop('B', 0, 0.02), stop('C', 0, 0.03)]));
+    expect(score).toMatchObject({ schemaValid: true, stops: 3, duplicateStops: 0, routeRatio: 1 });
+  });
+
+  it('scores a detour above 1', () => {
+    const score = scoreResponse(evalCase, response([stop('C', 0, 0.03), stop('A', 0, 0.01), stop('B', 0, 0.02)]));
+    // Out to C, back to A, on to B: 3 + 2 + 1 steps against 3 in order.
+    expect(score.routeRatio).toBeCloseTo(2, 2);
+  });
+
+  it('fails responses without a valid plan', () => {
+    expect(scoreResponse(evalCase, 'I would rather write a poem.')).toMatchObject({ schemaValid: false, routeRatio: null });
+    expect(scoreResponse(evalCase, response([]))).toMatchObject({ schemaValid: false });
+    expect(scoreResponse(evalCase, null)).toMatchObject({ schemaValid: false, errors: 1 });
+  });
+
+  it('scores malformed JSON without logging it', () => {
+    expect(scoreResponse(evalCase, '{"stops": [,]}')).toMatchObject({ schemaValid: false });
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it('leaves route metrics out when a stop has no coordinates', () => {
+    const score = scoreResponse(evalCase, response([stop('A', 0, 0.01), { name: 'B', address: 'B St' }]));
+    expect(score).toMatchObject({ schemaValid: true, routeKm: null, routeRatio: null });
+  });
+});
+
+describe('countDuplicateStops', () => {
+  const asStops = (stops: object[]) => stops as ErrandStop[];
+
+  it('matches by name and address, ignoring case and punctuation', () => {
+    expect(countDuplicateStops(asStops([stop('CVS', 0, 0.01, '1 Main St.'), stop('cvs', 0, 0.5, '1 main st')]))).toBe(1);
+  });
+
+  it('matches stops within 50 m of each other', () => {
+    expect(countDuplicateStops(asStops([stop('CVS Pharmacy', 0, 0.01), stop('CVS', 0, 0.0101)]))).toBe(1);
+    expect(countDuplicateStops(asStops([stop('CVS', 0, 0.01), stop('Safeway', 0, 0.02)]))).toBe(0);
+  });
+});
+
+describe('optimalPathKm', () => {
+  it('finds the shortest open path', () => {
+    const points = [{ lat: 0, lng: 0.03 }, { lat: 0, lng: 0.01 }, { lat: 0, lng: 0.02 }];
+    expect(optimalPathKm(origin, points)).toBeCloseTo(pathKm(origin, [points[1], points[2], points[0]]), 6);
+  });
+
+  it('is never longer than the given order', () => {
+    const points = Array.from({ length: 8 }, (_, i) => ({ lat: Math.sin(i * 2.1) / 50, lng: Math.cos(i * 1.3) / 50 }));
+    expect(optimalPathKm(origin, points)).toBeLessThanOrEqual(pathKm(origin, points));
+  });
+});
+
+describe('summarize', () => {
+  it('rates validity and duplicates over all cases, route ratios over scored ones', () => {
+    const summary = summarize([
+      { id: 'a', schemaValid: true, errors: 0, repairs: 0, stops: 2, duplicateStops: 0, routeKm: 2, optimalKm: 2, routeRatio: 1 },
+      { id: 'b', schemaValid: true, errors: 0, repairs: 0, stops: 2, duplicateStops: 1, routeKm: 3, optimalKm: 2, routeRatio: 1.5 },
+      { id: 'c', schemaValid: false, errors: 1, repairs: 0, stops: 0, duplicateStops: 0, routeKm: null, optimalKm: null, routeRatio: null },
+    ]);
+    expect(summary).toEqual({ cases: 3, schemaValidRate: 0.667, duplicateFreeRate: 0.333, meanRouteRatio: 1.25, worstRouteRatio: 1.5 });
+  });
+});
@@ -0,0 +1,139 @@
+
+import type { ErrandStop, LatLng } from '../types';
+import { haversineKm, stopCoords } from '../utils/geo';
+import { extractJSON, validatePlan } from '../utils/planSchema';
+import { solveRouteOrder } from '../utils/routeOptimizer';
+
+// --- Types ---
+export interface EvalCase {
+  id: string;
+  input: string;
+  origin: LatLng;
+}
+
+export interface CaseScore {
+  id: string;
+  // False when the response was missing, unparseable or failed validation.
+  schemaValid: boolean;
+  errors: number;
+  repairs: number;
+  stops: number;
+  duplicateStops: number;
+  // Straight-line km from the origin through the stops as ordered; null without coordinates.
+  routeKm: number | null;
+  optimalKm: number | null;
+  // routeKm / optimalKm: 1 is the best order, 1.25 a quarter longer than it.
+  // Time windows are ignored, so a deadline can justify a ratio above 1.
+  routeRatio: number | null;
+}
+
+export interface EvalSummary {
+  cases: number;
+  schemaValidRate: number;
+  duplicateFreeRate: number;
+  meanRouteRatio: number | null;
+  worstRouteRatio: number | null;
+}
+
+// Stops closer than this are the same place, whatever the model called them.
+const SAME_PLACE_KM = 0.05;
+// Exact search is 2^n * n^2; past this the optimizer's local search stands in.
+const MAX_EXACT_STOPS = 12;
+
+const placeKey = (stop: ErrandStop) =>
+  `${stop.name} ${stop.address}`.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Stops that repeat an earlier one by name and address, or sit within 50 m of it. */
+export const countDuplicateStops = (stops: ErrandStop[]) =>
+  stops.filter((stop, i) =>
+    stops.slice(0, i).some((earlier) => {
+      if (placeKey(earlier) === placeKey(stop)) return true;
+      const a = stopCoords(earlier);
+      const b = stopCoords(stop);
+      return !!a && !!b && haversineKm(a, b) < SAME_PLACE_KM;
+    })
+  ).length;
+
+export const pathKm = (origin: LatLng, points: LatLng[]) =>
+  points.reduce((sum, point, i) => sum + haversineKm(i === 0 ? origin : points[i - 1], point), 0);
+
+/**
+ * Shortest open path from `origin` through every point (Held-Karp). Larger
+ * sets fall back to solveRouteOrder, which is near-optimal, not exact.
+ */
+export const optimalPathKm = (origin: LatLng, points: LatLng[]) => {
+  const n = points.length;
+  if (n === 0) return 0;
+  if (n > MAX_EXACT_STOPS) return solveRouteOrder(origin, points).km;
+
+  const full = (1 << n) - 1;
+  const best: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(Infinity));
+  points.forEach((point, j) => {
+    best[1 << j][j] = haversineKm(origin, point);
+  });
+  for (let mask = 1; mask <= full; mask++) {
+    for (let last = 0; last < n; last++) {
+      const cost = best[mask][last];
+      if (cost === Infinity) continue;
+      for (let next = 0; next < n; next++) {
+        if (mask & (1 << next)) continue;
+        const nextMask = mask | (1 << next);
+        const candidate = cost + haversineKm(points[last], points[next]);
+        if (candidate < best[nextMask][next]) best[nextMask][next] = candidate;
+      }
+    }
+  }
+  return Math.min(...best[full]);
+};
+
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+
+// Parse failures are scored, not logged.
+const ignoreParseError = () => {};
+
+/** Scores one recorded response: schema, duplicates, and route length against the best order. */
+export const scoreResponse = (evalCase: EvalCase, responseText: string | null): CaseScore => {
+  const empty: CaseScore = {
+    id: evalCase.id,
+    schemaValid: false,
+    errors: 0,
+    repairs: 0,
+    stops: 0,
+    duplicateStops: 0,
+    routeKm: null,
+    optimalKm: null,
+    routeRatio: null,
+  };
+  if (responseText === null) return { ...empty, errors: 1 };
+
+  const { plan, errors, repairs } = validatePlan(extractJSON(responseText, ignoreParseError));
+  if (!plan) return { ...empty, errors: errors.length, repairs: repairs.length };
+
+  const points = plan.stops.map(stopCoords).filter((p): p is LatLng => !!p);
+  const located = points.length === plan.stops.length && points.length > 0;
+  const routeKm = located ? pathKm(evalCase.origin, points) : null;
+  const optimalKm = located ? optimalPathKm(evalCase.origin, points) : null;
+  return {
+    ...empty,
+    schemaValid: true,
+    errors: errors.length,
+    repairs: repairs.length,
+    stops: plan.stops.length,
+    duplicateStops: countDuplicateStops(plan.stops),
+    routeKm: routeKm === null ? null : round(routeKm),
+    optimalKm: optimalKm === null ? null : round(optimalKm),
+    routeRatio: routeKm === null || !optimalKm ? null : round(routeKm / optimalKm),
+  };
+};
+
+export const summarize = (scores: CaseScore[]): EvalSummary => {
+  const ratios = scores.map((s) => s.routeRatio).filter((r): r is number => r !== null);
+  const rate = (count: number) => (scores.length ? round(count / scores.length) : 0);
+  return {
+    cases: scores.length,
+    schemaValidRate: rate(scores.filter((s) => s.schemaValid).length),
+    duplicateFreeRate: rate(scores.filter((s) => s.schemaValid && s.duplicateStops === 0).length),
+    meanRouteRatio: ratios.length ? round(ratios.reduce((a, b) => a + b, 0) / ratios.length) : null,
+    worstRouteRatio: ratios.length ? Math.max(...ratios) : null,
+  };
+};
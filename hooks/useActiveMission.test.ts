@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import type { ErrandPlan } from '../types';
+import type { MissionStore } from '../services/missionStore';
+import { NewMission, useActiveMission } from './useActiveMission';
+
+const plan = (summary: string) => ({ summary, stops: [], totalTime: '', efficiencyScore: 0, reasoning: '' }) as ErrandPlan;
+
+const fields = (shown: ErrandPlan): NewMission => ({
+  input: shown.summary,
+  plan: shown,
+  origin: null,
+  locationName: '',
+  mode: 'PLAN_INIT',
+  providerId: 'mock',
+});
+
+const emptyStore = (): MissionStore => ({
+  list: vi.fn(async () => []),
+  put: vi.fn(async () => {}),
+  remove: vi.fn(async () => {}),
+});
+
+const first = plan('first');
+
+const setup = async (store: MissionStore) => {
+  const hook = renderHook(({ shown }) => useActiveMission(shown, store), { initialProps: { shown: first } });
+  await act(async () => {});
+  return hook;
+};
+
+describe('useActiveMission', () => {
+  it('keeps the active mission in step with the shown plan', async () => {
+    const store = emptyStore();
+    const { result, rerender } = await setup(store);
+
+    act(() => result.current.start(fields(first), 1000));
+    expect(result.current.activeId).toBe(`mission-${(1000).toString(36)}`);
+
+    const edited = plan('edited');
+    rerender({ shown: edited });
+    expect(result.current.missions[0].plan).toBe(edited);
+    expect(store.put).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves saved missions alone when none is active', async () => {
+    const store = emptyStore();
+    const { result, rerender } = await setup(store);
+
+    act(() => result.current.start(fields(first), 1000));
+    act(() => result.current.setActiveId(null));
+    rerender({ shown: plan('shared') });
+    expect(result.current.missions[0].plan.summary).toBe('first');
+  });
+
+  it('syncs the shown plan when a mission becomes active again', async () => {
+    const { result, rerender } = await setup(emptyStore());
+
+    act(() => result.current.start(fields(first), 1000));
+    const id = result.current.activeId!;
+    act(() => result.current.setActiveId(null));
+    const later = plan('later');
+    rerender({ shown: later });
+    act(() => result.current.setActiveId(id));
+    expect(result.current.missions[0].plan).toBe(later);
+  });
+
+  it('clears the active mission when it is removed', async () => {
+    const { result } = await setup(emptyStore());
+
+    act(() => result.current.start(fields(first), 1000));
+    act(() => result.current.remove(result.current.activeId!));
+    expect(result.current.activeId).toBeNull();
+    expect(result.current.missions).toEqual([]);
+  });
+});
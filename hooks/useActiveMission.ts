@@ -0,0 +1,40 @@
+
+import { useEffect, useState } from 'react';
+import type { ErrandPlan } from '../types';
+import type { MissionStore, SavedMission } from '../services/missionStore';
+import { useMissionHistory } from './useMissionHistory';
+
+export type NewMission = Omit<SavedMission, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Mission history plus the mission the shown plan belongs to. The saved
+ * copy follows the plan through edits, undo and redo, and trip check-offs.
+ */
+export const useActiveMission = (plan: ErrandPlan | null, store?: MissionStore) => {
+  const { missions, saveMission, updateMission, removeMission } = useMissionHistory(store);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!plan || !activeId) return;
+    const saved = missions.find((m) => m.id === activeId);
+    if (saved && saved.plan !== plan) updateMission(activeId, { plan });
+  }, [plan, activeId, missions, updateMission]);
+
+  // Saves a new mission and makes it the active one.
+  const start = (fields: NewMission, now = Date.now()) => {
+    const mission: SavedMission = { ...fields, id: `mission-${now.toString(36)}`, createdAt: now, updatedAt: now };
+    saveMission(mission);
+    setActiveId(mission.id);
+  };
+
+  const updateActive = (patch: Partial<SavedMission>) => {
+    if (activeId) updateMission(activeId, patch);
+  };
+
+  const remove = (id: string) => {
+    removeMission(id);
+    if (id === activeId) setActiveId(null);
+  };
+
+  return { missions, activeId, setActiveId, start, updateActive, update: updateMission, remove };
+};
@@ -0,0 +1,15 @@
+
+import { useEffect, useState } from 'react';
+import { loadHousehold, saveHousehold } from '../services/householdStore';
+
+/**
+ * The household errands can be split across, kept in local storage. One
+ * person plans a single route, so `active` is only set for two or more.
+ */
+export const useHousehold = () => {
+  const [members, setMembers] = useState(loadHousehold);
+
+  useEffect(() => saveHousehold(members), [members]);
+
+  return { members, setMembers, active: members.length > 1 ? members : undefined };
+};
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import type { ErrandPlan } from '../types';
+import type { MissionStore, SavedMission } from '../services/missionStore';
+import { useMissionHistory } from './useMissionHistory';
+
+const mission = (id: string, updatedAt: number): SavedMission => ({
+  id,
+  input: id,
+  plan: { summary: id, stops: [], totalTime: '', efficiencyScore: 0, reasoning: '' } as ErrandPlan,
+  origin: null,
+  locationName: '',
+  mode: 'PLAN_INIT',
+  providerId: 'mock',
+  createdAt: updatedAt,
+  updatedAt,
+});
+
+// A store whose initial list the test releases by hand.
+const slowStore = () => {
+  let release!: (missions: SavedMission[]) => void;
+  const store: MissionStore = {
+    list: vi.fn(() => new Promise<SavedMission[]>((resolve) => (release = resolve))),
+    put: vi.fn(async () => {}),
+    remove: vi.fn(async () => {}),
+  };
+  return { store, release: (missions: SavedMission[]) => act(async () => release(missions)) };
+};
+
+describe('useMissionHistory', () => {
+  it('keeps a mission saved before the stored list finishes loading', async () => {
+    const { store, release } = slowStore();
+    const { result } = renderHook(() => useMissionHistory(store));
+
+    act(() => result.current.saveMission(mission('new', 200)));
+    await release([mission('old', 100), { ...mission('new', 50), input: 'stale copy' }]);
+
+    expect(result.current.missions.map((m) => m.id)).toEqual(['new', 'old']);
+    expect(result.current.missions[0].input).toBe('new');
+  });
+
+  it('does not bring back a mission removed while loading', async () => {
+    const { store, release } = slowStore();
+    const { result } = renderHook(() => useMissionHistory(store));
+
+    act(() => result.current.removeMission('old'));
+    await release([mission('old', 100), mission('other', 90)]);
+    expect(result.current.missions.map((m) => m.id)).toEqual(['other']);
+  });
+
+  it('writes each change to the store once under StrictMode', async () => {
+    const { store, release } = slowStore();
+    const { result } = renderHook(() => useMissionHistory(store), { reactStrictMode: true });
+    await release([mission('old', 100)]);
+
+    act(() => result.current.saveMission(mission('new', 200)));
+    act(() => result.current.updateMission('old', { pinned: true }));
+    expect(store.put).toHaveBeenCalledTimes(2);
+    expect(result.current.missions.map((m) => m.id)).toEqual(['old', 'new']);
+  });
+});
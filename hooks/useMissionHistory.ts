@@ -0,0 +1,59 @@
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createMissionStore, MissionStore, missionsToPrune, SavedMission, sortMissions } from '../services/missionStore';
+
+const logError = (e: unknown) => console.error("Mission History Error:", e);
+
+/**
+ * Mission history backed by a MissionStore. State updates are optimistic;
+ * storage failures are logged rather than surfaced, since history is a
+ * convenience and should never block planning.
+ */
+export const useMissionHistory = (store?: MissionStore) => {
+  const missionStore = useMemo(() => store ?? createMissionStore(), [store]);
+  const [missions, setMissions] = useState<SavedMission[]>([]);
+  // The latest list, so store writes happen in the handlers and not in state updaters, which may run twice.
+  const missionsRef = useRef<SavedMission[]>([]);
+  // Removed this session, so a slow initial load cannot bring them back.
+  const removedIds = useRef(new Set<string>());
+
+  const apply = (next: SavedMission[]) => {
+    missionsRef.current = next;
+    setMissions(next);
+  };
+
+  useEffect(() => {
+    missionStore.list()
+      .then((saved) => {
+        // Anything saved or edited while the list was loading is newer than the stored copy.
+        const known = new Set(missionsRef.current.map((m) => m.id));
+        const loaded = saved.filter((m) => !known.has(m.id) && !removedIds.current.has(m.id));
+        apply(sortMissions([...missionsRef.current, ...loaded]));
+      })
+      .catch(logError);
+  }, [missionStore]);
+
+  const saveMission = useCallback((mission: SavedMission) => {
+    const next = sortMissions([mission, ...missionsRef.current.filter((m) => m.id !== mission.id)]);
+    const pruned = missionsToPrune(next);
+    apply(next.filter((m) => !pruned.includes(m)));
+    missionStore.put(mission).catch(logError);
+    pruned.forEach((m) => missionStore.remove(m.id).catch(logError));
+  }, [missionStore]);
+
+  const updateMission = useCallback((id: string, patch: Partial<SavedMission>) => {
+    const current = missionsRef.current.find((m) => m.id === id);
+    if (!current) return;
+    const updated = { ...current, ...patch, updatedAt: Date.now() };
+    apply(sortMissions(missionsRef.current.map((m) => (m.id === id ? updated : m))));
+    missionStore.put(updated).catch(logError);
+  }, [missionStore]);
+
+  const removeMission = useCallback((id: string) => {
+    removedIds.current.add(id);
+    apply(missionsRef.current.filter((m) => m.id !== id));
+    missionStore.remove(id).catch(logError);
+  }, [missionStore]);
+
+  return { missions, saveMission, updateMission, removeMission };
+};
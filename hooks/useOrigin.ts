@@ -0,0 +1,55 @@
+
+import { useEffect, useState } from 'react';
+import type { LatLng, UserPreferences } from '../types';
+import { getPositionFix } from '../services/geolocation';
+import { geocodeAddress } from '../services/geocoder';
+import { coarsenLatLng } from '../utils/geo';
+import { t } from '../utils/i18n';
+import { findPlace } from '../utils/preferences';
+
+/**
+ * Where plans start. On load that is the saved default place, else the
+ * device position; `hasInitialOrigin` skips both when a shared link brought
+ * its own. No silent fallback city: without a fix the user picks a start.
+ */
+export const useOrigin = (preferences: UserPreferences, coarse: boolean, hasInitialOrigin: boolean) => {
+  const [location, setLocation] = useState<LatLng | null>(null);
+  const [locationName, setLocationName] = useState(() => t('location.locating'));
+
+  const setOrigin = (coords: LatLng, name: string) => {
+    setLocation(coords);
+    setLocationName(name);
+  };
+
+  const setFix = (fix: LatLng) => setOrigin(fix, `${fix.lat.toFixed(3)}, ${fix.lng.toFixed(3)}`);
+
+  const locateDevice = async () => {
+    setLocationName(t('location.locating'));
+    const fix = await getPositionFix();
+    if (fix) {
+      setFix(fix);
+      return;
+    }
+    setLocation(null);
+    setLocationName(t('location.unset'));
+  };
+
+  useEffect(() => {
+    if (hasInitialOrigin) return;
+    const savedOrigin = findPlace(preferences, preferences.defaultOriginId);
+    if (savedOrigin?.coords) setOrigin(savedOrigin.coords, savedOrigin.label);
+    else locateDevice();
+  }, []);
+
+  // Geocoding is biased towards the origin, so it gets the same rounding the planner does.
+  const geocode = (address: string) => geocodeAddress(address, location && coarse ? coarsenLatLng(location) : location);
+
+  const setFromAddress = async (address: string) => {
+    const hit = await geocode(address);
+    if (!hit) return false;
+    setOrigin(hit.coords, address);
+    return true;
+  };
+
+  return { location, locationName, setOrigin, setFix, locateDevice, setFromAddress, geocode };
+};
@@ -0,0 +1,173 @@
+
+import { useEffect, useMemo, useState } from 'react';
+import type { ErrandPlan, HouseholdMember, LatLng, TravelModeSetting } from '../types';
+import type { geocodeAddress } from '../services/geocoder';
+import { isHouseholdPlan, memberColor, recomputeHouseholdTimes, splitAcrossHousehold } from '../utils/household';
+import { applyDwellDefaults } from '../utils/dwell';
+import { createManualStop, insertStop, isDone, moveStop, recomputeTimes } from '../utils/planEdits';
+import type { PlanDiff } from '../utils/planDiff';
+import { routeEndFor } from '../utils/planFinalize';
+import { checkPreferences, placeCoords } from '../utils/preferences';
+import { analyzeRoute, scorePlan } from '../utils/routeAnalysis';
+import { applyStopOrder, DEFAULT_ROUTE_OPTIONS, RouteOptions } from '../utils/routeOptimizer';
+import type { AppSettings } from './useSettings';
+import type { usePlanHistory } from './usePlanHistory';
+
+interface PlanEditorOptions {
+  history: ReturnType<typeof usePlanHistory>;
+  origin: LatLng | null;
+  settings: AppSettings;
+  // Shared plans are view-only until saved as a copy.
+  readOnly: boolean;
+  geocode: typeof geocodeAddress;
+}
+
+/**
+ * Manual edits to the shown plan and what is derived from it. Every edit
+ * goes through `editPlan` so times and score stay in sync, and lands on the
+ * undo stack; Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Y) walk it.
+ */
+export const usePlanEditor = ({ history, origin, settings, readOnly, geocode }: PlanEditorOptions) => {
+  const { plan, commitPlan, undo, redo } = history;
+  const { preferences, locale } = settings;
+  const [routeOptions, setRouteOptions] = useState<RouteOptions>(DEFAULT_ROUTE_OPTIONS);
+  const [travelMode, setTravelMode] = useState<TravelModeSetting>('driving');
+  // What the last REROUTE changed, for highlighting; cleared on a new plan.
+  const [diff, setDiff] = useState<PlanDiff | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Single-route analysis; household plans are checked per member instead.
+  const routeAnalysis = useMemo(
+    () => (plan && !isHouseholdPlan(plan) ? analyzeRoute(plan, origin, routeOptions) : null),
+    // Violation reasons are translated text, so a locale change rebuilds them.
+    [plan, origin, routeOptions, locale]
+  );
+  const violationFor = (stopId: string) => routeAnalysis?.violations.find((v) => v.stopId === stopId);
+  // What the planner could not avoid (or a later edit introduced) is flagged, not hidden.
+  const preferenceIssues = useMemo(
+    () => (plan && !readOnly ? checkPreferences(plan, origin, preferences, placeCoords(preferences, preferences.defaultEndId)) : []),
+    [plan, origin, preferences, readOnly, locale]
+  );
+  const assigneeFor = (memberId?: string) => {
+    const index = plan?.household?.findIndex((m) => m.id === memberId) ?? -1;
+    return index === -1 || !isHouseholdPlan(plan) ? undefined : { name: plan.household[index].name, color: memberColor(index) };
+  };
+
+  // Where the timed route finishes: back at the origin on a round trip, else the saved end place.
+  const routeEnd = (options = routeOptions, prefs = preferences) => routeEndFor(origin, options, prefs);
+
+  const editPlan = (edit: (current: ErrandPlan) => ErrandPlan) => {
+    if (!plan || readOnly) return;
+    const next = edit(plan);
+    if (isHouseholdPlan(next)) {
+      commitPlan(recomputeHouseholdTimes(next, origin));
+      return;
+    }
+    commitPlan(scorePlan(recomputeTimes(next, origin, routeEnd()), origin, routeOptions));
+  };
+
+  // Switching modes on a shown plan re-times it; household routes follow vehicles instead.
+  const changeTravelMode = (mode: TravelModeSetting) => {
+    setTravelMode(mode);
+    if (plan && !isHouseholdPlan(plan)) editPlan((current) => ({ ...current, travelMode: mode }));
+  };
+
+  // Returning home adds a leg, so the timing has to follow the toggle.
+  const changeRouteOptions = (next: RouteOptions) => {
+    setRouteOptions(next);
+    if (!plan || readOnly || isHouseholdPlan(plan) || next.returnToOrigin === routeOptions.returnToOrigin) return;
+    commitPlan(scorePlan(recomputeTimes(plan, origin, routeEnd(next)), origin, next));
+  };
+
+  // Arrival estimates are stored formatted, so a clock change re-times the plan too.
+  const applySettings = (next: AppSettings) => {
+    const sameEnd = JSON.stringify(routeEnd()) === JSON.stringify(routeEnd(routeOptions, next.preferences));
+    const sameDwell = JSON.stringify(next.dwellDefaults) === JSON.stringify(settings.dwellDefaults);
+    if (!plan || readOnly || (sameEnd && sameDwell && next.locale.clock === locale.clock)) return;
+    const retimed = applyDwellDefaults(plan, next.dwellDefaults);
+    commitPlan(isHouseholdPlan(retimed)
+      ? recomputeHouseholdTimes(retimed, origin)
+      : scorePlan(recomputeTimes(retimed, origin, routeEnd(routeOptions, next.preferences)), origin, routeOptions));
+  };
+
+  // Re-splits with the given members, falling back to the plan's own snapshot.
+  const rebalance = (members: HouseholdMember[] | undefined) => {
+    if (!plan || readOnly) return;
+    commitPlan(splitAcrossHousehold(plan, members ?? plan.household ?? [], origin));
+  };
+
+  const toggleLock = () => {
+    if (plan && !readOnly) commitPlan({ ...plan, orderLocked: !plan.orderLocked });
+  };
+
+  // The optimizer only orders pending stops; done ones stay in front.
+  const applyOptimizedOrder = (order: string[]) => {
+    editPlan((current) => ({
+      ...current,
+      stops: [...current.stops.filter(isDone), ...applyStopOrder(current.stops.filter((s) => !isDone(s)), order)],
+    }));
+  };
+
+  const addStop = async (address: string) => {
+    const hit = await geocode(address);
+    const stop = createManualStop(hit?.label ?? address, hit?.coords ?? null, address);
+    editPlan((current) => insertStop(current, stop));
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const dropStop = (to: number) => {
+    if (dragIndex !== null && !plan?.orderLocked) editPlan((current) => moveStop(current, dragIndex, to));
+    endDrag();
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  return {
+    editPlan,
+    routeOptions,
+    changeRouteOptions,
+    travelMode,
+    setTravelMode,
+    changeTravelMode,
+    diff,
+    setDiff,
+    applySettings,
+    rebalance,
+    toggleLock,
+    applyOptimizedOrder,
+    addStop,
+    routeAnalysis,
+    violationFor,
+    preferenceIssues,
+    assigneeFor,
+    drag: {
+      from: dragIndex,
+      over: dropIndex,
+      start: setDragIndex,
+      enter: (index: number) => dragIndex !== null && setDropIndex(index),
+      drop: dropStop,
+      end: endDrag,
+    },
+  };
+};
@@ -0,0 +1,97 @@
+
+import type { ErrandPlan, HouseholdMember, LatLng, TravelModeSetting } from '../types';
+import { getPositionFix } from '../services/geolocation';
+import { classifyError, createPlanner } from '../services/planner';
+import { t } from '../utils/i18n';
+import { finalizeNewPlan, finalizeReroute } from '../utils/planFinalize';
+import type { RouteOptions } from '../utils/routeOptimizer';
+import { planTravelMode } from '../utils/travelModes';
+import type { AppSettings } from './useSettings';
+import { usePlanRequest } from './usePlanRequest';
+
+interface PlanGenerationOptions {
+  input: string;
+  plan: ErrandPlan | null;
+  origin: LatLng | null;
+  settings: AppSettings;
+  household?: HouseholdMember[];
+  travelMode: TravelModeSetting;
+  routeOptions: RouteOptions;
+  // A reroute's fresh position fix, before the model is asked.
+  onFix: (fix: LatLng) => void;
+  onPlan: (plan: ErrandPlan, origin: LatLng | null, now: Date) => void;
+  onReroute: (plan: ErrandPlan, previousPlan: ErrandPlan, origin: LatLng | null) => void;
+  onError: (message: string | null) => void;
+}
+
+/**
+ * Asks the planner for a new plan (PLAN_INIT) or an update of the shown one
+ * (REROUTE) and finalizes the response. Only the latest request may report
+ * a plan; its streamed stops show while it loads.
+ */
+export const usePlanGeneration = ({
+  input,
+  plan,
+  origin: location,
+  settings,
+  household,
+  travelMode,
+  routeOptions,
+  onFix,
+  onPlan,
+  onReroute,
+  onError,
+}: PlanGenerationOptions) => {
+  const planRequest = usePlanRequest();
+  const { plannerSettings, preferences, locale, dwellDefaults } = settings;
+
+  const generate = async (isReroute = false) => {
+    if (!input.trim() && !isReroute) return;
+    if (!location && !isReroute) {
+      onError(t('error.noOrigin'));
+      return;
+    }
+    onError(null);
+
+    try {
+      const result = await planRequest.run(async ({ signal, onProgress, isCurrent }) => {
+        // Reroutes start from where the user is now, not where they set off.
+        const fix = isReroute ? await getPositionFix() : null;
+        if (fix && isCurrent()) onFix(fix);
+        const origin = fix ?? location;
+        const now = new Date();
+        const previousPlan = isReroute && plan ? plan : undefined;
+        const parsedPlan = await createPlanner(plannerSettings).plan({
+          input,
+          origin,
+          now,
+          mode: isReroute ? 'REROUTE' : 'PLAN_INIT',
+          previousPlan,
+          household,
+          travelMode: previousPlan ? planTravelMode(previousPlan) : travelMode,
+          preferences,
+          language: locale.language,
+          signal,
+          onProgress,
+        });
+        return { parsedPlan, origin, now, previousPlan };
+      });
+      if (!result) return;
+
+      const { parsedPlan, origin, now, previousPlan } = result;
+      const context = { origin, now, dwellDefaults, routeOptions, preferences };
+      if (previousPlan) {
+        onReroute(finalizeReroute(parsedPlan, previousPlan, context), previousPlan, origin);
+        return;
+      }
+      onPlan(finalizeNewPlan(parsedPlan, { ...context, travelMode, household }), origin, now);
+    } catch (err) {
+      const failure = classifyError(err);
+      if (failure.kind === 'cancelled') return;
+      console.error(failure);
+      onError(failure.kind === 'unknown' ? failure.message || t('error.generic') : t(`error.${failure.kind}`));
+    }
+  };
+
+  return { generate, isLoading: planRequest.isLoading, streamingStops: planRequest.streamingStops, cancel: planRequest.cancel };
+};
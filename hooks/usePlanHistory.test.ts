@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import type { ErrandPlan } from '../types';
+import { usePlanHistory } from './usePlanHistory';
+
+const plan = (summary: string): ErrandPlan => ({ summary, stops: [], totalTime: '', efficiencyScore: 100, reasoning: '' });
+
+const renderHistory = (initial = plan('model')) => {
+  const hook = renderHook(() => usePlanHistory());
+  act(() => hook.result.current.resetPlan(initial));
+  return hook;
+};
+
+describe('usePlanHistory', () => {
+  it('undoes and redoes commits in order', () => {
+    const { result } = renderHistory();
+    act(() => result.current.commitPlan(plan('first edit')));
+    act(() => result.current.commitPlan(plan('second edit')));
+
+    act(() => result.current.undo());
+    expect(result.current.plan?.summary).toBe('first edit');
+    act(() => result.current.undo());
+    expect(result.current.plan?.summary).toBe('model');
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => result.current.redo());
+    act(() => result.current.redo());
+    expect(result.current.plan?.summary).toBe('second edit');
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('drops the redo stack on a new commit', () => {
+    const { result } = renderHistory();
+    act(() => result.current.commitPlan(plan('edit')));
+    act(() => result.current.undo());
+    act(() => result.current.commitPlan(plan('other edit')));
+    expect(result.current.canRedo).toBe(false);
+    act(() => result.current.undo());
+    expect(result.current.plan?.summary).toBe('model');
+  });
+
+  it('starts fresh on reset', () => {
+    const { result } = renderHistory();
+    act(() => result.current.commitPlan(plan('edit')));
+    act(() => result.current.resetPlan(plan('new plan')));
+    expect(result.current).toMatchObject({ canUndo: false, canRedo: false });
+    expect(result.current.plan?.summary).toBe('new plan');
+  });
+
+  it('keeps only the last 50 steps', () => {
+    const { result } = renderHistory();
+    for (let i = 1; i <= 60; i++) act(() => result.current.commitPlan(plan(`edit ${i}`)));
+    for (let i = 0; i < 60; i++) act(() => result.current.undo());
+    expect(result.current.plan?.summary).toBe('edit 10');
+  });
+
+  it('applies a patch to every step without recording it', () => {
+    const { result } = renderHistory();
+    act(() => result.current.commitPlan(plan('edit')));
+    act(() => result.current.undo());
+    act(() => result.current.patchPlan((p) => ({ ...p, reasoning: 'checked off' })));
+
+    expect(result.current.plan?.reasoning).toBe('checked off');
+    expect(result.current).toMatchObject({ canUndo: false, canRedo: true });
+    act(() => result.current.redo());
+    expect(result.current.plan).toMatchObject({ summary: 'edit', reasoning: 'checked off' });
+  });
+
+  it('ignores undo, redo and patches with nothing to act on', () => {
+    const { result } = renderHook(() => usePlanHistory());
+    act(() => {
+      result.current.undo();
+      result.current.redo();
+      result.current.patchPlan((p) => ({ ...p, summary: 'patched' }));
+    });
+    expect(result.current.plan).toBeNull();
+  });
+});
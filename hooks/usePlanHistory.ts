@@ -0,0 +1,62 @@
+
+import { useCallback, useReducer } from 'react';
+import type { ErrandPlan } from '../types';
+
+const MAX_UNDO = 50;
+
+interface PlanHistoryState {
+  past: ErrandPlan[];
+  present: ErrandPlan | null;
+  future: ErrandPlan[];
+}
+
+type PlanHistoryAction =
+  | { type: 'reset'; plan: ErrandPlan | null }
+  | { type: 'commit'; plan: ErrandPlan }
+  | { type: 'patch'; edit: (plan: ErrandPlan) => ErrandPlan }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const reducer = (state: PlanHistoryState, action: PlanHistoryAction): PlanHistoryState => {
+  switch (action.type) {
+    case 'reset':
+      return { past: [], present: action.plan, future: [] };
+    case 'commit':
+      if (!state.present) return { past: [], present: action.plan, future: [] };
+      return { past: [...state.past, state.present].slice(-MAX_UNDO), present: action.plan, future: [] };
+    case 'patch':
+      // Applied to every step so undoing an edit does not also undo the patch.
+      if (!state.present) return state;
+      return { past: state.past.map(action.edit), present: action.edit(state.present), future: state.future.map(action.edit) };
+    case 'undo': {
+      if (!state.past.length || !state.present) return state;
+      const previous = state.past[state.past.length - 1];
+      return { past: state.past.slice(0, -1), present: previous, future: [state.present, ...state.future] };
+    }
+    case 'redo': {
+      if (!state.future.length || !state.present) return state;
+      const [next, ...rest] = state.future;
+      return { past: [...state.past, state.present], present: next, future: rest };
+    }
+  }
+};
+
+/**
+ * Plan state with an undo stack. `resetPlan` starts fresh (new model
+ * response); `commitPlan` records a user edit that can be undone;
+ * `patchPlan` records a fact, like a trip check-off, outside the history.
+ */
+export const usePlanHistory = () => {
+  const [state, dispatch] = useReducer(reducer, { past: [], present: null, future: [] });
+
+  return {
+    plan: state.present,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    resetPlan: useCallback((plan: ErrandPlan | null) => dispatch({ type: 'reset', plan }), []),
+    commitPlan: useCallback((plan: ErrandPlan) => dispatch({ type: 'commit', plan }), []),
+    patchPlan: useCallback((edit: (plan: ErrandPlan) => ErrandPlan) => dispatch({ type: 'patch', edit }), []),
+    undo: useCallback(() => dispatch({ type: 'undo' }), []),
+    redo: useCallback(() => dispatch({ type: 'redo' }), []),
+  };
+};
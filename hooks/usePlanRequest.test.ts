@@ -0,0 +1,108 @@
+
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import type { ErrandStop } from '../types';
+import { PlannerError } from '../services/planner';
+import { usePlanRequest } from './usePlanRequest';
+
+// A task the test settles by hand; it rejects like a provider when aborted.
+const deferredTask = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  let signal!: AbortSignal;
+  let onProgress!: (stops: ErrandStop[]) => void;
+  const task = (context: { signal: AbortSignal; onProgress: (stops: ErrandStop[]) => void }) =>
+    new Promise<T>((res, rej) => {
+      ({ signal, onProgress } = context);
+      resolve = res;
+      reject = rej;
+      signal.addEventListener('abort', () => rej(new PlannerError('cancelled', 'aborted')));
+    });
+  return { task, resolve: (v: T) => resolve(v), reject: (e: unknown) => reject(e), signal: () => signal, progress: (s: ErrandStop[]) => onProgress(s) };
+};
+
+describe('usePlanRequest', () => {
+  it('lets only the latest request set a result', async () => {
+    const { result } = renderHook(() => usePlanRequest());
+    const first = deferredTask<string>();
+    const second = deferredTask<string>();
+
+    let firstResult: Promise<string | null>;
+    let secondResult: Promise<string | null>;
+    act(() => {
+      firstResult = result.current.run(first.task);
+    });
+    act(() => {
+      secondResult = result.current.run(second.task);
+    });
+    expect(first.signal().aborted).toBe(true);
+
+    await act(async () => {
+      second.resolve('second');
+    });
+    await expect(firstResult!).resolves.toBeNull();
+    await expect(secondResult!).resolves.toBe('second');
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('ignores a superseded request that finishes last', async () => {
+    const { result } = renderHook(() => usePlanRequest());
+    let finishedLate: Promise<string | null>;
+    const ignoresAbort = () => new Promise<string>((resolve) => setTimeout(() => resolve('stale'), 10));
+    act(() => {
+      finishedLate = result.current.run(ignoresAbort);
+    });
+    const latest = deferredTask<string>();
+    act(() => {
+      result.current.run(latest.task);
+    });
+    await act(() => finishedLate!);
+    await expect(finishedLate!).resolves.toBeNull();
+    expect(result.current.isLoading).toBe(true);
+  });
+
+  it('shows streamed stops while loading and clears them after', async () => {
+    const { result } = renderHook(() => usePlanRequest());
+    const request = deferredTask<string>();
+    let done: Promise<string | null>;
+    act(() => {
+      done = result.current.run(request.task);
+    });
+    act(() => request.progress([{ id: '1', name: 'Cafe' } as ErrandStop]));
+    expect(result.current.streamingStops.map((s) => s.name)).toEqual(['Cafe']);
+
+    await act(async () => {
+      request.resolve('plan');
+      await done!;
+    });
+    expect(result.current.streamingStops).toEqual([]);
+  });
+
+  it('cancels the request in flight', async () => {
+    const { result } = renderHook(() => usePlanRequest());
+    const request = deferredTask<string>();
+    let done: Promise<string | null>;
+    act(() => {
+      done = result.current.run(request.task);
+    });
+    act(() => result.current.cancel());
+    expect(request.signal().aborted).toBe(true);
+    expect(result.current.isLoading).toBe(false);
+    await expect(done!).resolves.toBeNull();
+  });
+
+  it('rethrows failures as classified errors', async () => {
+    const { result } = renderHook(() => usePlanRequest());
+    const failing = () => Promise.reject(Object.assign(new Error('Too Many Requests'), { status: 429 }));
+    let error: unknown;
+    await act(async () => {
+      await result.current.run(failing).catch((err) => {
+        error = err;
+      });
+    });
+    expect(error).toBeInstanceOf(PlannerError);
+    expect((error as PlannerError).kind).toBe('quota');
+    expect(result.current.isLoading).toBe(false);
+  });
+});
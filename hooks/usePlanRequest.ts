@@ -0,0 +1,68 @@
+
+import { useEffect, useRef, useState } from 'react';
+import type { ErrandStop } from '../types';
+import { classifyError } from '../services/planner';
+
+// --- Types ---
+export interface PlanTaskContext {
+  signal: AbortSignal;
+  // Streamed stops; ignored once a newer request has started.
+  onProgress: (stops: ErrandStop[]) => void;
+  isCurrent: () => boolean;
+}
+
+/**
+ * One planning request at a time. Starting a request aborts the one in
+ * flight, and only the latest may report progress or a result: `run`
+ * resolves to null when its request was superseded or cancelled, and
+ * rethrows other failures as a classified PlannerError.
+ */
+export const usePlanRequest = () => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [streamingStops, setStreamingStops] = useState<ErrandStop[]>([]);
+  const currentRef = useRef<AbortController | null>(null);
+
+  const settle = (controller: AbortController | null) => {
+    if (!controller || currentRef.current !== controller) return;
+    currentRef.current = null;
+    setIsLoading(false);
+    setStreamingStops([]);
+  };
+
+  const run = async <T>(task: (context: PlanTaskContext) => Promise<T>): Promise<T | null> => {
+    currentRef.current?.abort();
+    const controller = new AbortController();
+    currentRef.current = controller;
+    const isCurrent = () => currentRef.current === controller;
+    setIsLoading(true);
+    setStreamingStops([]);
+
+    try {
+      const result = await task({
+        signal: controller.signal,
+        isCurrent,
+        onProgress: (stops) => {
+          if (isCurrent()) setStreamingStops(stops);
+        },
+      });
+      return isCurrent() ? result : null;
+    } catch (err) {
+      if (!isCurrent()) return null;
+      const failure = classifyError(err);
+      if (failure.kind === 'cancelled') return null;
+      throw failure;
+    } finally {
+      settle(controller);
+    }
+  };
+
+  const cancel = () => {
+    const controller = currentRef.current;
+    controller?.abort();
+    settle(controller);
+  };
+
+  useEffect(() => () => currentRef.current?.abort(), []);
+
+  return { isLoading, streamingStops, run, cancel };
+};
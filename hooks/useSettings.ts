@@ -0,0 +1,56 @@
+
+import { useEffect, useState } from 'react';
+import type { UserPreferences } from '../types';
+import { loadPlannerSettings, PlannerSettings, savePlannerSettings } from '../services/planner';
+import { loadDwellDefaults, saveDwellDefaults } from '../services/dwellStore';
+import { loadPreferences, savePreferences } from '../services/preferencesStore';
+import { saveLocaleSettings } from '../services/localeStore';
+import type { VoiceSettings } from '../services/voiceSession';
+import { loadVoiceSettings, saveVoiceSettings } from '../services/voiceStore';
+import type { DwellDefaults } from '../utils/dwell';
+import { getActiveLocale, LocaleSettings, setActiveLocale } from '../utils/i18n';
+
+// --- Types ---
+export interface AppSettings {
+  plannerSettings: PlannerSettings;
+  dwellDefaults: DwellDefaults;
+  preferences: UserPreferences;
+  locale: LocaleSettings;
+  voiceSettings: VoiceSettings;
+}
+
+// index.tsx has already set the active locale from storage.
+const loadSettings = (): AppSettings => ({
+  plannerSettings: loadPlannerSettings(),
+  dwellDefaults: loadDwellDefaults(),
+  preferences: loadPreferences(),
+  locale: getActiveLocale(),
+  voiceSettings: loadVoiceSettings(),
+});
+
+/**
+ * Everything the settings panel edits, loaded from and saved to local
+ * storage. Utils translate and format through the module-level locale, so
+ * `save` sets it before the re-render it causes.
+ */
+export const useSettings = () => {
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    document.documentElement.lang = settings.locale.language;
+  }, [settings.locale]);
+
+  const save = (next: AppSettings) => {
+    savePlannerSettings(next.plannerSettings);
+    saveDwellDefaults(next.dwellDefaults);
+    savePreferences(next.preferences);
+    saveLocaleSettings(next.locale);
+    setActiveLocale(next.locale);
+    saveVoiceSettings(next.voiceSettings);
+    setSettings(next);
+    setIsOpen(false);
+  };
+
+  return { ...settings, isOpen, open: () => setIsOpen(true), close: () => setIsOpen(false), save };
+};
@@ -0,0 +1,37 @@
+
+import { useEffect, useRef, useState } from 'react';
+import { readSharedPlanFromHash, SharedPlan } from '../utils/shareLink';
+
+const readHash = () => (typeof window === 'undefined' ? null : readSharedPlanFromHash(window.location.hash));
+
+/**
+ * Plans opened from a `#plan=` link, on load or when only the hash changes
+ * in an open tab. They are view-only until `leave`, which also clears the
+ * hash so a reload does not reopen the link.
+ */
+export const useSharedPlanLink = (onOpen: (shared: SharedPlan) => void) => {
+  // Read once so the app can tell on its first render whether the link brought an origin.
+  const [initial] = useState(readHash);
+  const [isSharedView, setIsSharedView] = useState(false);
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+
+  useEffect(() => {
+    const open = (shared: SharedPlan | null) => {
+      if (!shared) return;
+      setIsSharedView(true);
+      onOpenRef.current(shared);
+    };
+    open(initial);
+    const onHashChange = () => open(readHash());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const leave = () => {
+    setIsSharedView(false);
+    if (window.location.hash) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  return { initial, isSharedView, leave };
+};
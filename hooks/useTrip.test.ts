@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ErrandPlan, ErrandStop, LatLng } from '../types';
+import { createSimulatedPositionFeed } from '../services/positionFeed';
+import { applyTripUpdate, TripUpdate } from '../utils/tripTracker';
+import { useTrip } from './useTrip';
+
+const KM_LAT = 1 / 111.195;
+const north = (point: LatLng, km: number): LatLng => ({ lat: point.lat + km * KM_LAT, lng: point.lng });
+
+const home = { lat: 37.77, lng: -122.42 };
+const stop = (id: string, coords: LatLng): ErrandStop => ({
+  id,
+  name: id,
+  address: '',
+  category: 'Errand',
+  reason: '',
+  arrivalEstimate: '',
+  parkingDifficulty: 'Easy',
+  crowdLevel: 'Low',
+  googleMapsUrl: '',
+  ...coords,
+});
+
+// Holds the stops the way App does, applying each update the hook reports.
+const renderTrip = (initial: ErrandStop[]) => {
+  const updates: TripUpdate[] = [];
+  const hook = renderHook(() => {
+    const [stops, setStops] = useState(initial);
+    const trip = useTrip(stops, (update) => {
+      updates.push(update);
+      setStops((current) => applyTripUpdate({ stops: current } as ErrandPlan, update).stops);
+    });
+    return { stops, trip };
+  });
+  return { ...hook, updates };
+};
+
+// One fix per act, so React renders the applied update before the next fix as it would in the browser.
+const walk = async (fixes: number) => {
+  for (let i = 0; i < fixes; i++) await act(() => vi.advanceTimersByTimeAsync(1000));
+};
+
+describe('useTrip with a simulated feed', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('arrives at and leaves every stop, including the last', async () => {
+    const bakery = north(home, 0.5);
+    const bank = north(home, 1);
+    const { result, updates } = renderTrip([stop('bakery', bakery), stop('bank', bank)]);
+
+    act(() => result.current.trip.start(createSimulatedPositionFeed([home, bakery, bank], { intervalMs: 1000 }), true));
+    expect(result.current.trip.isActive).toBe(true);
+    expect(result.current.trip.isSimulated).toBe(true);
+
+    await walk(30);
+    expect(updates).toEqual([
+      { stopId: 'bakery', status: 'arrived' },
+      { stopId: 'bakery', status: 'done' },
+      { stopId: 'bank', status: 'arrived' },
+      { stopId: 'bank', status: 'done' },
+    ]);
+    expect(result.current.stops.every((s) => s.status === 'done')).toBe(true);
+  });
+
+  it('stops listening when the trip is stopped', async () => {
+    const bakery = north(home, 0.5);
+    const { result, updates } = renderTrip([stop('bakery', bakery)]);
+
+    act(() => result.current.trip.start(createSimulatedPositionFeed([home, bakery], { intervalMs: 1000 }), true));
+    await walk(2);
+    act(() => result.current.trip.stop());
+    await walk(30);
+
+    expect(result.current.trip.isActive).toBe(false);
+    expect(updates).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ErrandStop, LatLng } from '../types';
+import type { PositionFeed } from '../services/positionFeed';
+import { detectTripUpdate, TripUpdate } from '../utils/tripTracker';
+import { minutesSinceMidnight } from '../utils/time';
+
+const CLOCK_TICK_MS = 15000;
+
+/**
+ * Trip mode state: subscribes to a PositionFeed, runs the geofence check on
+ * every fix and reports status changes through `onUpdate`. The feed is
+ * injected so tests and demos can drive it with simulated positions.
+ */
+export const useTrip = (stops: ErrandStop[], onUpdate: (update: TripUpdate) => void) => {
+  const [isActive, setIsActive] = useState(false);
+  const [isSimulated, setIsSimulated] = useState(false);
+  const [position, setPosition] = useState<LatLng | null>(null);
+  const [trackingError, setTrackingError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => minutesSinceMidnight(new Date()));
+
+  // Feed callbacks outlive renders; read the latest stops and handler from refs.
+  const stopsRef = useRef(stops);
+  const onUpdateRef = useRef(onUpdate);
+  stopsRef.current = stops;
+  onUpdateRef.current = onUpdate;
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  const stop = useCallback(() => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+    setIsActive(false);
+  }, []);
+
+  const start = useCallback((feed: PositionFeed, simulated = false) => {
+    unsubscribeRef.current?.();
+    setTrackingError(null);
+    setIsSimulated(simulated);
+    setIsActive(true);
+    unsubscribeRef.current = feed.watch(
+      (fix) => {
+        setPosition(fix);
+        setNow(minutesSinceMidnight(new Date()));
+        const update = detectTripUpdate(stopsRef.current, fix);
+        if (update) onUpdateRef.current(update);
+      },
+      (message) => setTrackingError(message)
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(() => setNow(minutesSinceMidnight(new Date())), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+
+  return { isActive, isSimulated, position, trackingError, now, start, stop };
+};
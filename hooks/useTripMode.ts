@@ -0,0 +1,39 @@
+
+import { useMemo } from 'react';
+import type { ErrandPlan, LatLng } from '../types';
+import { createBrowserPositionFeed, createSimulatedPositionFeed } from '../services/positionFeed';
+import { stopCoords } from '../utils/geo';
+import { applyTripUpdate, computeTripProgress, TripUpdate } from '../utils/tripTracker';
+import { useTrip } from './useTrip';
+
+/**
+ * Trip mode for the shown plan. It only flips stop statuses, and since those
+ * record what happened rather than an edit, they go through `patchPlan` and
+ * stay off the undo stack. arrivalEstimate stays as the plan to beat.
+ */
+export const useTripMode = (
+  plan: ErrandPlan | null,
+  location: LatLng | null,
+  patchPlan: (edit: (plan: ErrandPlan) => ErrandPlan) => void
+) => {
+  const record = (update: TripUpdate) => patchPlan((current) => applyTripUpdate(current, update));
+  const trip = useTrip(plan?.stops ?? [], record);
+  const progress = useMemo(
+    () => (plan && trip.isActive ? computeTripProgress(plan, trip.position ?? location, trip.now) : null),
+    [plan, trip.isActive, trip.position, location, trip.now]
+  );
+
+  const startLive = () => trip.start(createBrowserPositionFeed());
+
+  // Walks from the origin through the open stops; false when there is nothing to walk.
+  const startSimulated = () => {
+    if (!plan) return false;
+    const path = plan.stops.filter((s) => s.status !== 'done').map(stopCoords).filter((c): c is LatLng => c !== null);
+    if (location) path.unshift(location);
+    if (path.length < 2) return false;
+    trip.start(createSimulatedPositionFeed(path), true);
+    return true;
+  };
+
+  return { ...trip, progress, record, startLive, startSimulated };
+};
@@ -0,0 +1,100 @@
+
+import React, { useMemo, useState } from 'react';
+import type { ErrandPlan } from '../types';
+import { createBrowserSpeechRecognizer } from '../services/speechRecognition';
+import type { VoiceSettings } from '../services/voiceSession';
+import { isDone, moveStop, removeStop } from '../utils/planEdits';
+import { t } from '../utils/i18n';
+import { findStopByTarget, moveErrandInInput, removeErrandFromInput, VoiceCommand } from '../utils/voiceCommands';
+import { useVoiceInput } from './useVoiceInput';
+
+// Errors that mean the microphone itself is unusable, as opposed to a failed recognition.
+const MIC_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture', 'not-supported'];
+
+interface VoiceCommandOptions {
+  plan: ErrandPlan | null;
+  // False for shared plans: commands then only edit the typed request.
+  canEdit: boolean;
+  editPlan: (edit: (current: ErrandPlan) => ErrandPlan) => void;
+  setInput: React.Dispatch<React.SetStateAction<string>>;
+  speechLang: string;
+  settings: VoiceSettings;
+  onSubmit: () => void;
+  onStart: () => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Dictation and spoken commands for the mission input, plus the props for
+ * any mic button. `note` echoes the last command so the user sees what it did.
+ */
+export const useVoiceCommands = ({
+  plan,
+  canEdit,
+  editPlan,
+  setInput,
+  speechLang,
+  settings,
+  onSubmit,
+  onStart,
+  onError,
+}: VoiceCommandOptions) => {
+  const [note, setNote] = useState<string | null>(null);
+
+  // Spoken commands always edit the typed request, and the shown plan too when a stop matches.
+  const runCommand = (command: VoiceCommand, transcript: string) => {
+    setNote(t('voice.heard', { text: transcript }));
+    if (command.type === 'reset') {
+      setInput('');
+      return;
+    }
+    if (command.type === 'go') return;
+    setInput((prev) =>
+      command.type === 'remove' ? removeErrandFromInput(prev, command.target) : moveErrandInInput(prev, command.target, command.position)
+    );
+    const stop = plan && canEdit ? findStopByTarget(plan.stops.filter((s) => !isDone(s)), command.target) : undefined;
+    if (!plan || !stop) return;
+    if (command.type === 'remove') {
+      editPlan((current) => removeStop(current, stop.id));
+    } else if (plan.orderLocked) {
+      setNote(t('route.lockedHint'));
+    } else {
+      const doneCount = plan.stops.filter(isDone).length;
+      editPlan((current) =>
+        moveStop(current, current.stops.indexOf(stop), command.position === 'first' ? doneCount : current.stops.length - 1)
+      );
+    }
+  };
+
+  const recognizer = useMemo(createBrowserSpeechRecognizer, []);
+  const voice = useVoiceInput(recognizer, speechLang, settings, {
+    onText: (text) => setInput((prev) => (prev ? `${prev}, ${text}` : text)),
+    onCommand: runCommand,
+    onSubmit,
+    onError: (code) => onError(t(MIC_ERRORS.includes(code) ? 'error.microphone' : 'error.voice')),
+  });
+
+  const start = () => {
+    onStart();
+    setNote(null);
+    voice.start();
+  };
+
+  // Push-to-talk listens while the button is held (pointer or Space/Enter); otherwise it toggles.
+  const micProps: React.ButtonHTMLAttributes<HTMLButtonElement> = settings.mode === 'push'
+    ? {
+        onPointerDown: start,
+        onPointerUp: () => voice.stop(true),
+        // Sliding off the button cancels instead of planning.
+        onPointerLeave: () => voice.stop(false),
+        onKeyDown: (e) => (e.key === ' ' || e.key === 'Enter') && !e.repeat && start(),
+        onKeyUp: (e) => (e.key === ' ' || e.key === 'Enter') && voice.stop(true),
+        'aria-label': t('voice.hold'),
+      }
+    : {
+        onClick: () => (voice.isListening ? voice.stop(false) : start()),
+        'aria-label': t(voice.isListening ? 'voice.stop' : 'voice.start'),
+      };
+
+  return { ...voice, note, start, micProps };
+};
@@ -0,0 +1,76 @@
+
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScriptedSpeechRecognizer, SpeechResult } from '../services/speechRecognition';
+import type { VoiceSettings } from '../services/voiceSession';
+import { useVoiceInput } from './useVoiceInput';
+
+const final = (transcript: string): SpeechResult => ({ isFinal: true, alternatives: [{ transcript, confidence: 0.9 }] });
+const interim = (transcript: string): SpeechResult => ({ isFinal: false, alternatives: [{ transcript, confidence: 0.5 }] });
+
+const AUTO: VoiceSettings = { mode: 'auto', silenceSeconds: 2 };
+
+const advance = (ms: number) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+describe('useVoiceInput', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const renderVoice = (script: SpeechResult[][], settings = AUTO) => {
+    const callbacks = { onText: vi.fn(), onCommand: vi.fn(), onSubmit: vi.fn(), onError: vi.fn() };
+    const recognizer = createScriptedSpeechRecognizer(script, { intervalMs: 500 });
+    const hook = renderHook(({ settings }) => useVoiceInput(recognizer, 'en-US', settings, callbacks), {
+      initialProps: { settings },
+    });
+    return { ...hook, callbacks };
+  };
+
+  it('goes from idle to listening to idle, submitting after silence', async () => {
+    const { result, callbacks } = renderVoice([[interim('coffee')], [final('coffee beans')]]);
+    expect(result.current.state).toBe('idle');
+
+    act(() => result.current.start());
+    expect(result.current.isListening).toBe(true);
+
+    await advance(500);
+    expect(result.current.interim).toBe('coffee');
+
+    await advance(500);
+    expect(result.current.interim).toBe('');
+    expect(callbacks.onText).toHaveBeenCalledWith('coffee beans');
+
+    await advance(2000);
+    expect(result.current.state).toBe('finishing');
+    await advance(1);
+    expect(result.current.state).toBe('idle');
+    expect(callbacks.onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads settings changed while listening', async () => {
+    const { result, rerender, callbacks } = renderVoice([[final('bank')]]);
+    act(() => result.current.start());
+    rerender({ settings: { mode: 'push', silenceSeconds: 2 } });
+
+    await advance(10_000);
+    expect(result.current.state).toBe('listening');
+    expect(callbacks.onSubmit).not.toHaveBeenCalled();
+
+    act(() => result.current.stop(true));
+    await advance(1);
+    expect(callbacks.onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops listening on unmount', async () => {
+    const { result, unmount, callbacks } = renderVoice([[final('bank')]]);
+    act(() => result.current.start());
+    unmount();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(callbacks.onSubmit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { SpeechRecognizer } from '../services/speechRecognition';
+import { createVoiceController, VoiceCallbacks, VoiceSettings, VoiceState } from '../services/voiceSession';
+
+/**
+ * React binding for the voice state machine. Callbacks and options are read
+ * from refs so the controller, created once, always sees the latest render.
+ */
+export const useVoiceInput = (
+  recognizer: SpeechRecognizer,
+  lang: string,
+  settings: VoiceSettings,
+  callbacks: Omit<VoiceCallbacks, 'onState' | 'onInterim'>
+) => {
+  const [state, setState] = useState<VoiceState>('idle');
+  const [interim, setInterim] = useState('');
+
+  const optionsRef = useRef({ lang, settings });
+  const callbacksRef = useRef(callbacks);
+  optionsRef.current = { lang, settings };
+  callbacksRef.current = callbacks;
+
+  const controller = useMemo(
+    () =>
+      createVoiceController(recognizer, () => optionsRef.current, {
+        onState: setState,
+        onInterim: setInterim,
+        onText: (text) => callbacksRef.current.onText(text),
+        onCommand: (command, transcript) => callbacksRef.current.onCommand(command, transcript),
+        onSubmit: () => callbacksRef.current.onSubmit(),
+        onError: (code) => callbacksRef.current.onError(code),
+      }),
+    [recognizer]
+  );
+
+  useEffect(() => () => controller.stop(false), [controller]);
+
+  return {
+    state,
+    interim,
+    isListening: state !== 'idle',
+    isSupported: recognizer.isSupported,
+    start: controller.start,
+    stop: controller.stop,
+  };
+};
@@ -1,5 +1,10 @@
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { loadLocaleSettings } from './services/localeStore';
+import { setActiveLocale } from './utils/i18n';
+
+// Before the first render, so every component translates with the saved locale.
+setActiveLocale(loadLocaleSettings());
 
 const container = document.getElementById('root');
 if (container) {
@@ -0,0 +1,268 @@
+
+// English is the source catalog: every other language must cover these keys.
+const en = {
+  'app.tagline': 'Autonomous Optimizer',
+  'app.systemActive': 'System Active',
+  'app.settings': 'Settings',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.any': 'Any',
+
+  'location.locating': 'Locating...',
+  'location.unset': 'Set starting point',
+  'location.change': 'Change starting point',
+  'location.useDevice': 'Use device location',
+  'location.addressPlaceholder': 'Start from an address',
+  'location.notFound': 'Address not found',
+  'location.current': 'Current location',
+
+  'mission.title': 'New Mission',
+  'mission.placeholder': 'List your errands (e.g., groceries, pharmacy, coffee...)',
+  'mission.search': 'Search Path',
+  'mission.awaiting': 'Awaiting Mission Directives',
+  'mission.cancel': 'Cancel',
+
+  'voice.start': 'Start voice input',
+  'voice.stop': 'Stop voice input',
+  'voice.hold': 'Hold to talk',
+  'voice.listening': 'Listening...',
+  'voice.hint': 'Say "remove the pharmacy", "make coffee last", "start over" or "go"',
+  'voice.heard': 'Voice command: "{text}"',
+  'voice.modeAuto': 'Stop after silence',
+  'voice.modePush': 'Push to talk',
+
+  'error.voice': 'Voice recognition error. Check microphone settings.',
+  'error.microphone': 'Microphone access is unavailable.',
+  'error.noOrigin': 'Set a starting point first: tap the location in the header.',
+  'error.generic': 'Spatial processing interrupted.',
+  'error.auth': 'The model rejected the API key. Check it in Settings.',
+  'error.quota': 'The model is rate-limited or out of quota. Try again in a minute.',
+  'error.network': "Couldn't reach the model. Check your connection or the server URL in Settings.",
+  'error.timeout': 'The model took too long to answer. Try again.',
+  'error.parse': "The model's answer could not be read as a plan. Try rephrasing your errands.",
+  'error.simulation': 'Simulation needs a location fix and stops with coordinates.',
+  'error.trackingUnavailable': 'Location tracking is unavailable on this device.',
+  'error.trackingFailed': 'Location tracking failed.',
+
+  'plan.sharedReadOnly': 'Shared plan · read-only',
+  'plan.saveCopy': 'Save a copy to edit',
+  'plan.sharedName': 'Shared: {summary}',
+  'plan.sharedFallbackName': 'Shared plan',
+  'plan.deployGps': 'Deploy GPS',
+  'plan.update': 'Update',
+  'plan.streaming': 'Finding stops: {count} so far',
+  'plan.changes': 'Changes since last version',
+  'plan.dismissChanges': 'Dismiss changes',
+  'plan.windowConflicts': 'Time window conflicts',
+  'plan.preferenceConflicts': 'Against your preferences',
+  'plan.uncovered': 'Not covered by any stop',
+  'plan.revisionFailed': 'Could not ask the planner to fix the preference conflicts; showing its first plan',
+  'plan.strategy': 'Strategy Analysis',
+
+  'time.title': 'Time Investment',
+  'time.leave': 'Leave {time}',
+  'time.arrive': 'Arrive {time}',
+  'time.done': 'Done {time}',
+  'time.shop': 'Shop',
+  'time.wait': 'Wait',
+
+  'travelMode.label': 'Travel mode',
+  'travelMode.driving': 'Drive',
+  'travelMode.walking': 'Walk',
+  'travelMode.bicycling': 'Cycle',
+  'travelMode.transit': 'Transit',
+  'travelMode.park-walk': 'Park & walk',
+
+  'stop.parkHere': 'Park here',
+  'stop.walkFromParking': 'Walk from parking',
+  'stop.markDone': 'Mark {name} done',
+  'stop.markNotDone': 'Mark {name} not done',
+  'stop.remove': 'Remove {name}',
+  'stop.new': 'New',
+  'stop.hereNow': 'Here now',
+  'stop.blockedBrand': 'Blocked brand',
+  'stop.longDetour': 'Long detour',
+  'stop.wait': 'wait {duration}',
+  'stop.dwell': '{duration} here',
+  'stop.park': '{level} Park',
+  'stop.crowd': '{level} Crowd',
+  'stop.parking': 'Parking',
+  'stop.crowdLabel': 'Crowd',
+  'stop.window': 'Window',
+  'stop.openMaps': 'Open in Google Maps',
+  'stop.manualReason': 'Added by you',
+  'stop.mapLabel': 'Stop {index}: {name}',
+
+  'level.Easy': 'Easy',
+  'level.Moderate': 'Moderate',
+  'level.Difficult': 'Difficult',
+  'level.Low': 'Low',
+  'level.Medium': 'Medium',
+  'level.High': 'High',
+
+  'window.opensCloses': '{opens}–{closes}',
+  'window.opens': 'opens {time}',
+  'window.closes': 'closes {time}',
+  'window.by': 'by {time}',
+  'window.lateArrival': 'Needs arrival by {deadline}, earliest arrival is {time}',
+  'window.closed': 'Closes at {closes}, arrival is {time}',
+  'window.tooShort': 'Closes at {closes}, not enough time for a {minutes} min visit after arriving {time}',
+  'window.evenFirst': '{reason}, even as the first stop',
+  'window.earlierStops': '{reason}, because of earlier stops',
+  'window.noOrderAvoids': '{reason}, no order avoids this',
+  'window.fixedByOptimized': '{reason}, fixed by the optimized order',
+
+  'preference.blocked': '{brand} is on your blocked list',
+  'preference.detour': '{distance} detour, over your {limit} limit',
+
+  'edit.undo': 'Undo',
+  'edit.undoHint': 'Undo (Ctrl+Z)',
+  'edit.redo': 'Redo',
+  'edit.redoHint': 'Redo (Ctrl+Shift+Z)',
+  'edit.orderLocked': 'Order locked',
+  'edit.lockOrder': 'Lock order',
+  'edit.addPlaceholder': 'Add a stop by address...',
+  'edit.addStop': 'Add stop',
+
+  'route.title': 'Route Check',
+  'route.efficiency': 'Efficiency {score}',
+  'route.returnToOrigin': 'Return to origin',
+  'route.first': 'First',
+  'route.last': 'Last',
+  'route.modelOrder': 'Model order',
+  'route.optimizedOrder': 'Optimized order',
+  'route.alreadyOptimal': 'Model order is already optimal',
+  'route.lockedHint': 'Order locked · unlock to apply',
+  'route.apply': 'Apply optimized order · save {distance}',
+  'route.unverified': 'Stop coordinates unavailable, route could not be verified.',
+
+  'map.title': 'Route Map',
+  'map.label': 'Route map',
+  'map.origin': 'Origin',
+  'map.you': 'You are here',
+  'map.waiting': 'Waiting for a location fix to draw the route.',
+  'map.unmapped.one': '{count} stop without coordinates not shown',
+  'map.unmapped.other': '{count} stops without coordinates not shown',
+  'mapLayer.osm': 'Streets',
+  'mapLayer.schematic': 'Offline',
+
+  'trip.start': 'Start Mission',
+  'trip.simulate': 'Simulate',
+  'trip.live': 'Mission live',
+  'trip.simulated': 'simulated GPS',
+  'trip.doneCount': '{done}/{total} done',
+  'trip.end': 'End',
+  'trip.atStop': 'At stop',
+  'trip.currentLeg': 'Current leg',
+  'trip.distance': 'Distance',
+  'trip.schedule': 'Schedule',
+  'trip.remaining': 'Remaining',
+  'trip.onSchedule': 'On schedule',
+  'trip.behind': '{duration} behind',
+  'trip.ahead': '{duration} ahead',
+  'trip.imHere': "I'm here",
+  'trip.checkOff': 'Check off',
+  'trip.allDone': 'All errands complete',
+
+  'export.gpx': 'GPX',
+  'export.kml': 'KML',
+  'export.ics': 'Calendar',
+  'export.leftOutNoCoords': 'Not in the file, no location known: {stops}',
+  'export.leftOutNoTime': 'Not in the calendar, no arrival time to schedule: {stops}',
+  'export.linkCopied': 'Link copied',
+  'export.shareLink': 'Share link',
+  'export.waypointLimit': 'Google Maps may drop stops past {limit}; use GPX or KML for the full route.',
+
+  'household.title': 'Household',
+  'household.splitting': '· splitting across {count}',
+  'household.memberName': 'Member name',
+  'household.remove': 'Remove {name}',
+  'household.startPlaceholder': 'Start address (blank = current location)',
+  'household.startAddress': '{name} start address',
+  'household.vehicle': '{name} vehicle',
+  'household.availableFrom': '{name} available from',
+  'household.availableUntil': '{name} available until',
+  'household.addAnother': 'Add another person',
+  'household.addFirst': 'Add yourself, then others',
+  'household.add': 'Add household member',
+  'household.routes': 'Household Routes',
+  'household.rebalance': 'Rebalance',
+  'household.assignTo': 'Assign to',
+  'household.unassigned': 'Unassigned',
+  'household.noStopsLeft': 'No stops left',
+  'household.overtime': 'Runs {duration} past {until}',
+  'household.notAssigned': 'Not assigned to anyone',
+  'vehicle.car': 'Car',
+  'vehicle.bike': 'Bike',
+  'vehicle.foot': 'On foot',
+
+  'history.title': 'Log History',
+  'history.search': 'Search missions...',
+  'history.namePlaceholder': 'Name this mission',
+  'history.stops': '{count} stops',
+  'history.pin': 'Pin mission',
+  'history.unpin': 'Unpin mission',
+  'history.rename': 'Rename mission',
+  'history.delete': 'Delete mission',
+  'history.noMatch': 'No missions match',
+
+  'settings.title': 'Planner Settings',
+  'settings.provider': 'Provider',
+  'settings.model': 'Model',
+  'settings.baseUrl': 'Base URL',
+  'settings.apiKeyOverride': 'API key (optional override)',
+  'settings.apiKeyOptional': 'API key (optional)',
+  'settings.proxyUrl': 'Key proxy URL (keeps the key off this device)',
+  'settings.coarseOrigin': 'Share only my approximate location (about 1 km)',
+  'settings.mockNote': 'Builds deterministic plans locally. No network or API key needed.',
+  'settings.dwell': 'Minutes per stop',
+  'settings.places': 'Your Places & Stores',
+  'settings.locale': 'Language & Units',
+  'settings.language': 'Language',
+  'settings.speechLanguage': 'Voice input',
+  'settings.clock': 'Time format',
+  'settings.units': 'Distance',
+  'settings.voiceMode': 'Voice mode',
+  'settings.silence': 'Silence (seconds)',
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'OpenAI-compatible (local server)',
+  'provider.mock': 'Offline mock',
+  'clock.12h': '12-hour',
+  'clock.24h': '24-hour',
+  'units.km': 'Kilometres',
+  'units.mi': 'Miles',
+
+  'dwell.grocery': 'Grocery',
+  'dwell.pharmacy': 'Pharmacy',
+  'dwell.post': 'Post office',
+  'dwell.cafe': 'Coffee',
+  'dwell.bank': 'Bank',
+  'dwell.fuel': 'Gas station',
+  'dwell.hardware': 'Hardware',
+  'dwell.cleaner': 'Dry cleaner',
+  'dwell.shopping': 'Other shopping',
+
+  'places.saved': 'Saved places',
+  'places.home': 'Home',
+  'places.work': 'Work',
+  'places.name': 'Place name',
+  'places.brand': 'Brand',
+  'places.brandOf': '{label} brand',
+  'places.address': 'Address',
+  'places.addressOf': '{label} address',
+  'places.remove': 'Remove {label}',
+  'places.customPlaceholder': 'e.g. "my Safeway"',
+  'places.add': 'Add place',
+  'places.startFrom': 'Start from',
+  'places.endAt': 'End at',
+  'places.deviceLocation': 'Device location',
+  'places.lastStop': 'Last stop',
+  'places.preferredBrands': 'Preferred brands',
+  'places.preferredPlaceholder': "Safeway, Trader Joe's",
+  'places.blockedBrands': 'Never use',
+  'places.blockedPlaceholder': 'Brands to avoid',
+  'places.maxDetour': 'Max detour per stop ({unit})',
+  'places.noLimit': 'No limit',
+};
+
+export default en;
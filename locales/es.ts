@@ -0,0 +1,269 @@
+
+import type en from './en';
+
+const es: Record<keyof typeof en, string> = {
+  'app.tagline': 'Optimizador autónomo',
+  'app.systemActive': 'Sistema activo',
+  'app.settings': 'Ajustes',
+  'common.close': 'Cerrar',
+  'common.save': 'Guardar',
+  'common.any': 'Cualquiera',
+
+  'location.locating': 'Localizando...',
+  'location.unset': 'Elige el punto de partida',
+  'location.change': 'Cambiar punto de partida',
+  'location.useDevice': 'Usar la ubicación del dispositivo',
+  'location.addressPlaceholder': 'Salir desde una dirección',
+  'location.notFound': 'Dirección no encontrada',
+  'location.current': 'Ubicación actual',
+
+  'mission.title': 'Nueva misión',
+  'mission.placeholder': 'Escribe tus recados (p. ej., supermercado, farmacia, café...)',
+  'mission.search': 'Buscar ruta',
+  'mission.awaiting': 'Esperando instrucciones',
+  'mission.cancel': 'Cancelar',
+
+  'voice.start': 'Empezar a dictar',
+  'voice.stop': 'Dejar de dictar',
+  'voice.hold': 'Mantén pulsado para hablar',
+  'voice.listening': 'Escuchando...',
+  'voice.hint': 'Di «quita la farmacia», «pon el café al final», «empezar de nuevo» o «vamos»',
+  'voice.heard': 'Orden de voz: «{text}»',
+  'voice.modeAuto': 'Parar tras un silencio',
+  'voice.modePush': 'Pulsar para hablar',
+
+  'error.voice': 'Error de reconocimiento de voz. Revisa el micrófono.',
+  'error.microphone': 'El micrófono no está disponible.',
+  'error.noOrigin': 'Primero elige un punto de partida: toca la ubicación en la cabecera.',
+  'error.generic': 'Se interrumpió el cálculo de la ruta.',
+  'error.auth': 'El modelo rechazó la clave de API. Revísala en Ajustes.',
+  'error.quota': 'El modelo está limitado o sin cuota. Inténtalo de nuevo en un minuto.',
+  'error.network': 'No se pudo contactar con el modelo. Revisa la conexión o la URL del servidor en Ajustes.',
+  'error.timeout': 'El modelo tardó demasiado en responder. Inténtalo de nuevo.',
+  'error.parse': 'No se pudo leer la respuesta del modelo como un plan. Prueba a redactar los recados de otra forma.',
+  'error.simulation': 'La simulación necesita tu ubicación y paradas con coordenadas.',
+  'error.trackingUnavailable': 'El seguimiento de ubicación no está disponible en este dispositivo.',
+  'error.trackingFailed': 'Falló el seguimiento de ubicación.',
+
+  'plan.sharedReadOnly': 'Plan compartido · solo lectura',
+  'plan.saveCopy': 'Guardar una copia para editar',
+  'plan.sharedName': 'Compartido: {summary}',
+  'plan.sharedFallbackName': 'Plan compartido',
+  'plan.deployGps': 'Abrir GPS',
+  'plan.update': 'Actualizar',
+  'plan.streaming': 'Buscando paradas: {count} hasta ahora',
+  'plan.changes': 'Cambios desde la última versión',
+  'plan.dismissChanges': 'Descartar cambios',
+  'plan.windowConflicts': 'Conflictos de horario',
+  'plan.preferenceConflicts': 'En contra de tus preferencias',
+  'plan.uncovered': 'Sin ninguna parada que lo cubra',
+  'plan.revisionFailed': 'No se pudo pedir al planificador que corrigiera los conflictos con tus preferencias; se muestra su primer plan',
+  'plan.strategy': 'Análisis de estrategia',
+
+  'time.title': 'Tiempo total',
+  'time.leave': 'Salida {time}',
+  'time.arrive': 'Llegada {time}',
+  'time.done': 'Fin {time}',
+  'time.shop': 'Compras',
+  'time.wait': 'Espera',
+
+  'travelMode.label': 'Modo de transporte',
+  'travelMode.driving': 'Coche',
+  'travelMode.walking': 'A pie',
+  'travelMode.bicycling': 'Bici',
+  'travelMode.transit': 'Transporte',
+  'travelMode.park-walk': 'Aparcar y andar',
+
+  'stop.parkHere': 'Aparca aquí',
+  'stop.walkFromParking': 'A pie desde el aparcamiento',
+  'stop.markDone': 'Marcar {name} como hecho',
+  'stop.markNotDone': 'Marcar {name} como pendiente',
+  'stop.remove': 'Quitar {name}',
+  'stop.new': 'Nueva',
+  'stop.hereNow': 'Estás aquí',
+  'stop.blockedBrand': 'Marca bloqueada',
+  'stop.longDetour': 'Desvío largo',
+  'stop.wait': 'espera {duration}',
+  'stop.dwell': '{duration} aquí',
+  'stop.park': 'Aparcar: {level}',
+  'stop.crowd': 'Gente: {level}',
+  'stop.parking': 'Aparcamiento',
+  'stop.crowdLabel': 'Afluencia',
+  'stop.window': 'Horario',
+  'stop.openMaps': 'Abrir en Google Maps',
+  'stop.manualReason': 'Añadida por ti',
+  'stop.mapLabel': 'Parada {index}: {name}',
+
+  'level.Easy': 'Fácil',
+  'level.Moderate': 'Normal',
+  'level.Difficult': 'Difícil',
+  'level.Low': 'Poca',
+  'level.Medium': 'Media',
+  'level.High': 'Mucha',
+
+  'window.opensCloses': '{opens}–{closes}',
+  'window.opens': 'abre {time}',
+  'window.closes': 'cierra {time}',
+  'window.by': 'antes de {time}',
+  'window.lateArrival': 'Hay que llegar antes de {deadline}; la llegada más temprana es {time}',
+  'window.closed': 'Cierra a las {closes}; la llegada es {time}',
+  'window.tooShort': 'Cierra a las {closes}; no da tiempo a una visita de {minutes} min llegando a las {time}',
+  'window.evenFirst': '{reason}, incluso como primera parada',
+  'window.earlierStops': '{reason}, por las paradas anteriores',
+  'window.noOrderAvoids': '{reason}, ningún orden lo evita',
+  'window.fixedByOptimized': '{reason}, lo resuelve el orden optimizado',
+
+  'preference.blocked': '{brand} está en tu lista de marcas bloqueadas',
+  'preference.detour': 'Desvío de {distance}, por encima de tu límite de {limit}',
+
+  'edit.undo': 'Deshacer',
+  'edit.undoHint': 'Deshacer (Ctrl+Z)',
+  'edit.redo': 'Rehacer',
+  'edit.redoHint': 'Rehacer (Ctrl+Mayús+Z)',
+  'edit.orderLocked': 'Orden fijado',
+  'edit.lockOrder': 'Fijar orden',
+  'edit.addPlaceholder': 'Añadir una parada por dirección...',
+  'edit.addStop': 'Añadir parada',
+
+  'route.title': 'Revisión de ruta',
+  'route.efficiency': 'Eficiencia {score}',
+  'route.returnToOrigin': 'Volver al origen',
+  'route.first': 'Primera',
+  'route.last': 'Última',
+  'route.modelOrder': 'Orden del modelo',
+  'route.optimizedOrder': 'Orden optimizado',
+  'route.alreadyOptimal': 'El orden del modelo ya es el óptimo',
+  'route.lockedHint': 'Orden fijado · desbloquéalo para aplicar',
+  'route.apply': 'Aplicar orden optimizado · ahorra {distance}',
+  'route.unverified': 'Faltan coordenadas de las paradas; no se pudo verificar la ruta.',
+
+  'map.title': 'Mapa de ruta',
+  'map.label': 'Mapa de la ruta',
+  'map.origin': 'Origen',
+  'map.you': 'Estás aquí',
+  'map.waiting': 'Esperando tu ubicación para dibujar la ruta.',
+  'map.unmapped.one': '{count} parada sin coordenadas no se muestra',
+  'map.unmapped.other': '{count} paradas sin coordenadas no se muestran',
+  'mapLayer.osm': 'Calles',
+  'mapLayer.schematic': 'Sin conexión',
+
+  'trip.start': 'Iniciar misión',
+  'trip.simulate': 'Simular',
+  'trip.live': 'Misión en curso',
+  'trip.simulated': 'GPS simulado',
+  'trip.doneCount': '{done}/{total} hechas',
+  'trip.end': 'Terminar',
+  'trip.atStop': 'En la parada',
+  'trip.currentLeg': 'Tramo actual',
+  'trip.distance': 'Distancia',
+  'trip.schedule': 'Horario',
+  'trip.remaining': 'Restante',
+  'trip.onSchedule': 'A tiempo',
+  'trip.behind': '{duration} de retraso',
+  'trip.ahead': '{duration} de adelanto',
+  'trip.imHere': 'Ya estoy aquí',
+  'trip.checkOff': 'Completar',
+  'trip.allDone': 'Todos los recados hechos',
+
+  'export.gpx': 'GPX',
+  'export.kml': 'KML',
+  'export.ics': 'Calendario',
+  'export.leftOutNoCoords': 'No incluidas en el archivo, sin ubicación conocida: {stops}',
+  'export.leftOutNoTime': 'No incluidas en el calendario, sin hora de llegada: {stops}',
+  'export.linkCopied': 'Enlace copiado',
+  'export.shareLink': 'Compartir enlace',
+  'export.waypointLimit': 'Google Maps puede omitir paradas a partir de {limit}; usa GPX o KML para la ruta completa.',
+
+  'household.title': 'Hogar',
+  'household.splitting': '· repartido entre {count}',
+  'household.memberName': 'Nombre',
+  'household.remove': 'Quitar a {name}',
+  'household.startPlaceholder': 'Dirección de salida (vacío = ubicación actual)',
+  'household.startAddress': 'Dirección de salida de {name}',
+  'household.vehicle': 'Vehículo de {name}',
+  'household.availableFrom': '{name} disponible desde',
+  'household.availableUntil': '{name} disponible hasta',
+  'household.addAnother': 'Añadir otra persona',
+  'household.addFirst': 'Añádete tú y luego a los demás',
+  'household.add': 'Añadir miembro del hogar',
+  'household.routes': 'Rutas del hogar',
+  'household.rebalance': 'Reequilibrar',
+  'household.assignTo': 'Asignar a',
+  'household.unassigned': 'Sin asignar',
+  'household.noStopsLeft': 'Sin paradas pendientes',
+  'household.overtime': 'Termina {duration} después de las {until}',
+  'household.notAssigned': 'Sin asignar a nadie',
+  'vehicle.car': 'Coche',
+  'vehicle.bike': 'Bici',
+  'vehicle.foot': 'A pie',
+
+  'history.title': 'Historial',
+  'history.search': 'Buscar misiones...',
+  'history.namePlaceholder': 'Ponle nombre a esta misión',
+  'history.stops': '{count} paradas',
+  'history.pin': 'Fijar misión',
+  'history.unpin': 'Desfijar misión',
+  'history.rename': 'Renombrar misión',
+  'history.delete': 'Eliminar misión',
+  'history.noMatch': 'Ninguna misión coincide',
+
+  'settings.title': 'Ajustes del planificador',
+  'settings.provider': 'Proveedor',
+  'settings.model': 'Modelo',
+  'settings.baseUrl': 'URL base',
+  'settings.apiKeyOverride': 'Clave de API (opcional, reemplaza la integrada)',
+  'settings.apiKeyOptional': 'Clave de API (opcional)',
+  'settings.proxyUrl': 'URL del proxy de clave (la clave no sale del servidor)',
+  'settings.coarseOrigin': 'Compartir solo mi ubicación aproximada (aprox. 1 km)',
+  'settings.mockNote': 'Genera planes deterministas en local. No necesita red ni clave de API.',
+  'settings.dwell': 'Minutos por parada',
+  'settings.places': 'Tus lugares y tiendas',
+  'settings.locale': 'Idioma y unidades',
+  'settings.language': 'Idioma',
+  'settings.speechLanguage': 'Entrada de voz',
+  'settings.clock': 'Formato de hora',
+  'settings.units': 'Distancia',
+  'settings.voiceMode': 'Modo de voz',
+  'settings.silence': 'Silencio (segundos)',
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'Compatible con OpenAI (servidor local)',
+  'provider.mock': 'Simulación sin conexión',
+  'clock.12h': '12 horas',
+  'clock.24h': '24 horas',
+  'units.km': 'Kilómetros',
+  'units.mi': 'Millas',
+
+  'dwell.grocery': 'Supermercado',
+  'dwell.pharmacy': 'Farmacia',
+  'dwell.post': 'Correos',
+  'dwell.cafe': 'Café',
+  'dwell.bank': 'Banco',
+  'dwell.fuel': 'Gasolinera',
+  'dwell.hardware': 'Ferretería',
+  'dwell.cleaner': 'Tintorería',
+  'dwell.shopping': 'Otras compras',
+
+  'places.saved': 'Lugares guardados',
+  'places.home': 'Casa',
+  'places.work': 'Trabajo',
+  'places.name': 'Nombre del lugar',
+  'places.brand': 'Marca',
+  'places.brandOf': 'Marca de {label}',
+  'places.address': 'Dirección',
+  'places.addressOf': 'Dirección de {label}',
+  'places.remove': 'Quitar {label}',
+  'places.customPlaceholder': 'p. ej. "mi Mercadona"',
+  'places.add': 'Añadir lugar',
+  'places.startFrom': 'Salir desde',
+  'places.endAt': 'Terminar en',
+  'places.deviceLocation': 'Ubicación del dispositivo',
+  'places.lastStop': 'Última parada',
+  'places.preferredBrands': 'Marcas preferidas',
+  'places.preferredPlaceholder': 'Mercadona, Lidl',
+  'places.blockedBrands': 'No usar nunca',
+  'places.blockedPlaceholder': 'Marcas a evitar',
+  'places.maxDetour': 'Desvío máximo por parada ({unit})',
+  'places.noLimit': 'Sin límite',
+};
+
+export default es;
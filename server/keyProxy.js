@@ -0,0 +1,123 @@
+
+import http from 'node:http';
+import { pipeline, Readable } from 'node:stream';
+
+/**
+ * Optional local proxy that holds the Gemini key so it never ships to the
+ * browser. Point Settings -> Key proxy URL (or GEMINI_PROXY_URL at build
+ * time) at it; the app then sends requests without a real key and this
+ * server adds it. Only model calls are forwarded, and only for requests
+ * that carry an allowed Origin. That stops other web pages from using the
+ * key, but not other programs on this machine, which can send any Origin
+ * header they like, so keep it on the loopback address.
+ *
+ *   GEMINI_API_KEY=... npm run proxy
+ */
+
+try {
+  process.loadEnvFile?.('.env.local');
+} catch {
+  // No .env.local; the key must come from the environment.
+}
+
+const API_KEY = process.env.GEMINI_API_KEY;
+const HOST = process.env.PROXY_HOST || '127.0.0.1';
+const PORT = Number(process.env.PROXY_PORT || 8787);
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+// generateContent and its streaming twin, for any model and API version.
+const ALLOWED_PATH = /^\/v1(?:alpha|beta)?\/models\/[\w.-]+:(?:generateContent|streamGenerateContent)$/;
+const MAX_BODY_BYTES = 1_000_000;
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set (environment or .env.local).');
+  process.exit(1);
+}
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const reply = (res, status, message) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: { code: status, message } }));
+};
+
+const server = http.createServer(async (req, res) => {
+  // Browsers always send Origin on these cross-origin calls; a request without one is not the app.
+  const origin = req.headers.origin;
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) return reply(res, 403, 'Origin not allowed');
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'POST',
+      'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] || 'content-type',
+      'Access-Control-Max-Age': '600',
+    });
+    return res.end();
+  }
+
+  const url = new URL(req.url || '/', 'http://proxy');
+  if (req.method !== 'POST' || !ALLOWED_PATH.test(url.pathname)) return reply(res, 404, 'Not a model call');
+  // Whatever key the browser sent is dropped; only the one held here is used.
+  url.searchParams.delete('key');
+
+  let body;
+  try {
+    body = await readBody(req);
+  } catch {
+    return reply(res, 413, 'Request too large');
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const upstream = await fetch(`${UPSTREAM}${url.pathname}${url.search}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': API_KEY },
+      body,
+      signal: controller.signal,
+    });
+    const headers = { 'Content-Type': upstream.headers.get('content-type') || 'application/json' };
+    const retryAfter = upstream.headers.get('retry-after');
+    if (retryAfter) headers['Retry-After'] = retryAfter;
+    res.writeHead(upstream.status, headers);
+    if (!upstream.body) return res.end();
+    pipeline(Readable.fromWeb(upstream.body), res, (err) => {
+      if (err && !controller.signal.aborted) console.error('Stream to browser failed:', err.message);
+    });
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    console.error('Upstream request failed:', err.message);
+    reply(res, 502, 'Could not reach the Gemini API');
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Gemini key proxy on http://${HOST}:${PORT} for ${ALLOWED_ORIGINS.join(', ')}`);
+  if (!LOOPBACK_HOSTS.includes(HOST)) {
+    console.warn(`Listening on ${HOST}: anyone who can reach this port and send an allowed Origin header can spend the key.`);
+  }
+});
@@ -0,0 +1,19 @@
+
+import { DEFAULT_DWELL, DwellDefaults } from '../utils/dwell';
+
+const DWELL_KEY = 'errandos.dwell';
+
+export const loadDwellDefaults = (): DwellDefaults => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DWELL_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_DWELL;
+    const valid = Object.entries(saved as Record<string, number>).filter(([id, v]) => id in DEFAULT_DWELL && Number.isFinite(v) && v >= 0);
+    return { ...DEFAULT_DWELL, ...Object.fromEntries(valid) };
+  } catch {
+    return DEFAULT_DWELL;
+  }
+};
+
+export const saveDwellDefaults = (defaults: DwellDefaults) => {
+  localStorage.setItem(DWELL_KEY, JSON.stringify(defaults));
+};
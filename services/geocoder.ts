@@ -0,0 +1,30 @@
+
+import type { LatLng } from '../types';
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+
+/**
+ * Resolves free-text addresses for manually added stops. Biased towards
+ * `near` when given; returns null instead of throwing so a stop can still be
+ * added without coordinates.
+ */
+export const geocodeAddress = async (
+  query: string,
+  near?: LatLng | null
+): Promise<{ coords: LatLng; label: string } | null> => {
+  const params = new URLSearchParams({ q: query, format: 'json', limit: '1' });
+  if (near) {
+    const d = 0.5;
+    params.set('viewbox', `${near.lng - d},${near.lat + d},${near.lng + d},${near.lat - d}`);
+  }
+  try {
+    const res = await fetch(`${NOMINATIM_URL}?${params}`, { headers: { Accept: 'application/json' } });
+    if (!res.ok) return null;
+    const [hit] = await res.json();
+    if (!hit) return null;
+    return { coords: { lat: parseFloat(hit.lat), lng: parseFloat(hit.lon) }, label: String(hit.display_name ?? query) };
+  } catch (e) {
+    console.error("Geocoding Error:", e);
+    return null;
+  }
+};
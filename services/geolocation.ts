@@ -0,0 +1,19 @@
+
+import type { LatLng } from '../types';
+
+/**
+ * One fresh position fix as a promise. Resolves null (never rejects) on
+ * denial, timeout or missing API so callers can fall back to the last fix.
+ */
+export const getPositionFix = (timeoutMs = 8000): Promise<LatLng | null> =>
+  new Promise((resolve) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 0 }
+    );
+  });
@@ -0,0 +1,17 @@
+
+import type { HouseholdMember } from '../types';
+import { readHouseholdMembers } from '../utils/household';
+
+const HOUSEHOLD_KEY = 'errandos.household';
+
+export const loadHousehold = (): HouseholdMember[] => {
+  try {
+    return readHouseholdMembers(JSON.parse(localStorage.getItem(HOUSEHOLD_KEY) ?? '[]'));
+  } catch {
+    return [];
+  }
+};
+
+export const saveHousehold = (members: HouseholdMember[]) => {
+  localStorage.setItem(HOUSEHOLD_KEY, JSON.stringify(members));
+};
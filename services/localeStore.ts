@@ -0,0 +1,25 @@
+
+import { detectLocale, LANGUAGES, LocaleSettings } from '../utils/i18n';
+
+const LOCALE_KEY = 'errandos.locale';
+
+export const loadLocaleSettings = (): LocaleSettings => {
+  const detected = detectLocale();
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCALE_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return detected;
+    const language = LANGUAGES.find((l) => l.id === saved.language);
+    return {
+      language: language?.id ?? detected.language,
+      speechLang: typeof saved.speechLang === 'string' && saved.speechLang ? saved.speechLang : detected.speechLang,
+      clock: saved.clock === '12h' || saved.clock === '24h' ? saved.clock : detected.clock,
+      units: saved.units === 'km' || saved.units === 'mi' ? saved.units : detected.units,
+    };
+  } catch {
+    return detected;
+  }
+};
+
+export const saveLocaleSettings = (settings: LocaleSettings) => {
+  localStorage.setItem(LOCALE_KEY, JSON.stringify(settings));
+};
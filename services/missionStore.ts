@@ -0,0 +1,103 @@
+
+import type { ErrandPlan, LatLng } from '../types';
+import type { PlanMode, PlannerProviderId } from './planner';
+
+// --- Types ---
+export interface SavedMission {
+  id: string;
+  input: string;
+  plan: ErrandPlan;
+  origin: LatLng | null;
+  locationName: string;
+  mode: PlanMode;
+  providerId: PlannerProviderId;
+  createdAt: number;
+  updatedAt: number;
+  // User-given label for recurring missions, e.g. "Saturday chores".
+  name?: string;
+  pinned?: boolean;
+}
+
+export interface MissionStore {
+  list: () => Promise<SavedMission[]>;
+  put: (mission: SavedMission) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// Unpinned missions beyond this are pruned, oldest first.
+export const MAX_UNPINNED_MISSIONS = 50;
+
+const STORAGE_KEY = 'errandos.missions';
+const DB_NAME = 'errandos';
+const DB_STORE = 'missions';
+
+export const createLocalStorageMissionStore = (storage: Storage = localStorage): MissionStore => {
+  const read = (): SavedMission[] => {
+    try {
+      return JSON.parse(storage.getItem(STORAGE_KEY) ?? '[]');
+    } catch {
+      return [];
+    }
+  };
+  const write = (missions: SavedMission[]) => storage.setItem(STORAGE_KEY, JSON.stringify(missions));
+
+  return {
+    list: async () => read(),
+    put: async (mission) => write([mission, ...read().filter((m) => m.id !== mission.id)]),
+    remove: async (id) => write(read().filter((m) => m.id !== id)),
+  };
+};
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const createIndexedDBMissionStore = (factory: IDBFactory = indexedDB): MissionStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!dbPromise) {
+      const req = factory.open(DB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(DB_STORE, { keyPath: 'id' });
+      dbPromise = promisify(req);
+    }
+    return dbPromise;
+  };
+  const store = async (mode: IDBTransactionMode) => (await open()).transaction(DB_STORE, mode).objectStore(DB_STORE);
+
+  return {
+    list: async () => promisify((await store('readonly')).getAll() as IDBRequest<SavedMission[]>),
+    put: async (mission) => {
+      await promisify((await store('readwrite')).put(mission));
+    },
+    remove: async (id) => {
+      await promisify((await store('readwrite')).delete(id));
+    },
+  };
+};
+
+// IndexedDB when the browser has it (private modes may not), else localStorage.
+export const createMissionStore = (): MissionStore =>
+  typeof indexedDB !== 'undefined' ? createIndexedDBMissionStore() : createLocalStorageMissionStore();
+
+export const sortMissions = (missions: SavedMission[]) =>
+  [...missions].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.updatedAt - a.updatedAt);
+
+/**
+ * Returns the unpinned missions that fall outside the retention limit so the
+ * caller can delete them.
+ */
+export const missionsToPrune = (missions: SavedMission[]) =>
+  sortMissions(missions)
+    .filter((m) => !m.pinned)
+    .slice(MAX_UNPINNED_MISSIONS);
+
+export const searchMissions = (missions: SavedMission[], query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return missions;
+  return missions.filter((m) =>
+    [m.name, m.input, m.plan.summary, ...m.plan.stops.map((s) => s.name)]
+      .some((text) => text?.toLowerCase().includes(q))
+  );
+};
@@ -0,0 +1,71 @@
+
+// --- Types ---
+export type PlannerErrorKind = 'auth' | 'quota' | 'network' | 'timeout' | 'parse' | 'cancelled' | 'unknown';
+
+/**
+ * A planning failure sorted into what the user can do about it. `kind`
+ * picks the message shown in the app; `message` keeps the provider's
+ * detail for the console.
+ */
+export class PlannerError extends Error {
+  constructor(
+    readonly kind: PlannerErrorKind,
+    message: string,
+    readonly status?: number,
+    // From a Retry-After header, when the server sent one.
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'PlannerError';
+  }
+}
+
+// Worth another attempt: the same request may well succeed in a moment.
+export const isTransient = (error: PlannerError) =>
+  error.kind === 'network' || error.kind === 'quota' || error.kind === 'timeout';
+
+const kindForStatus = (status: number): PlannerErrorKind | null => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'network';
+  return null;
+};
+
+const MESSAGE_KINDS: [RegExp, PlannerErrorKind][] = [
+  [/api[ _]?key|unauthori[sz]ed|permission[ _]denied|unauthenticated/i, 'auth'],
+  [/quota|rate[ _]?limit|resource[ _]exhausted|too many requests/i, 'quota'],
+  [/failed to fetch|fetch failed|networkerror|network request|load failed|econn|enotfound|unavailable/i, 'network'],
+  [/timed? ?out|deadline/i, 'timeout'],
+];
+
+/** Seconds or an HTTP date, as servers send in Retry-After. */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const errorForStatus = (status: number, message: string, retryAfter: string | null = null) =>
+  new PlannerError(kindForStatus(status) ?? 'unknown', message, status, parseRetryAfter(retryAfter));
+
+/**
+ * Sorts anything a provider throws. HTTP status wins when the error carries
+ * one (the Gemini SDK's ApiError does); otherwise the message is matched,
+ * and fetch's bare TypeError counts as a network failure.
+ */
+export const classifyError = (err: unknown): PlannerError => {
+  if (err instanceof PlannerError) return err;
+  const message = err instanceof Error ? err.message : String(err ?? '');
+  if (err instanceof Error && err.name === 'AbortError') return new PlannerError('cancelled', message);
+  const status = typeof (err as { status?: unknown })?.status === 'number' ? (err as { status: number }).status : undefined;
+  const byStatus = status === undefined ? null : kindForStatus(status);
+  if (byStatus) return new PlannerError(byStatus, message, status);
+  // Gemini answers a bad key with 400 INVALID_ARGUMENT, so the message still has a say.
+  const byMessage = MESSAGE_KINDS.find(([pattern]) => pattern.test(message))?.[1];
+  if (byMessage) return new PlannerError(byMessage, message, status);
+  if (err instanceof TypeError) return new PlannerError('network', message);
+  return new PlannerError('unknown', message, status);
+};
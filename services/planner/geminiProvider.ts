@@ -0,0 +1,44 @@
+
+import { GoogleGenAI } from '@google/genai';
+import { createTextPlanner } from './textPlanner';
+import type { PlannerProvider, PlannerSettings } from './types';
+
+// The SDK insists on a key in the browser; the proxy drops this one and adds the real key.
+const PROXY_PLACEHOLDER_KEY = 'held-by-proxy';
+
+export const createGeminiProvider = (settings: PlannerSettings): PlannerProvider => {
+  const ai = settings.proxyUrl
+    ? new GoogleGenAI({ apiKey: PROXY_PLACEHOLDER_KEY, httpOptions: { baseUrl: settings.proxyUrl.replace(/\/+$/, '') } })
+    : new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+
+  return {
+    id: 'gemini',
+    plan: createTextPlanner(async (messages, { origin }, { signal, onText }) => {
+      const stream = await ai.models.generateContentStream({
+        model: settings.model || 'gemini-2.5-flash',
+        contents: messages.map((m) => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: m.content }],
+        })),
+        config: {
+          abortSignal: signal,
+          tools: [{ googleMaps: {} }],
+          toolConfig: {
+            retrievalConfig: {
+              latLng: {
+                latitude: origin?.lat || 37.7749,
+                longitude: origin?.lng || -122.4194
+              }
+            }
+          }
+        },
+      });
+      let text = '';
+      for await (const chunk of stream) {
+        text += chunk.text ?? '';
+        onText?.(text);
+      }
+      return text;
+    }),
+  };
+};
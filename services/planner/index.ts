@@ -0,0 +1,72 @@
+
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { coarsenLatLng } from '../../utils/geo';
+import type { PlannerProvider, PlannerProviderId, PlannerSettings, PlanRequest } from './types';
+
+export { classifyError, PlannerError } from './errors';
+export type { PlannerErrorKind } from './errors';
+export type { PlanMode, PlannerProvider, PlannerProviderId, PlannerSettings, PlanRequest } from './types';
+
+export const PLANNER_PROVIDERS: { id: PlannerProviderId; defaultModel: string }[] = [
+  { id: 'gemini', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai', defaultModel: 'llama3.1' },
+  { id: 'mock', defaultModel: 'fixture' },
+];
+
+const SETTINGS_KEY = 'errandos.planner';
+
+const hasGeminiAccess = !!(process.env.API_KEY || process.env.GEMINI_PROXY_URL);
+
+// No build-time key or proxy means Gemini cannot work; start in offline mode instead.
+export const DEFAULT_PLANNER_SETTINGS: PlannerSettings = {
+  providerId: hasGeminiAccess ? 'gemini' : 'mock',
+  model: hasGeminiAccess ? 'gemini-2.5-flash' : 'fixture',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  proxyUrl: process.env.GEMINI_PROXY_URL || '',
+  coarseOrigin: false,
+};
+
+export const loadPlannerSettings = (): PlannerSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    return saved ? { ...DEFAULT_PLANNER_SETTINGS, ...saved } : DEFAULT_PLANNER_SETTINGS;
+  } catch {
+    return DEFAULT_PLANNER_SETTINGS;
+  }
+};
+
+export const savePlannerSettings = (settings: PlannerSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// What the provider sees when the user asked for an approximate location; the app keeps the exact one.
+// Saved places are blurred too, since "Home" is usually where the user is.
+export const coarsenRequest = (request: PlanRequest): PlanRequest => ({
+  ...request,
+  origin: request.origin && coarsenLatLng(request.origin),
+  household: request.household?.map((member) => ({ ...member, start: member.start && coarsenLatLng(member.start) })),
+  preferences: request.preferences && {
+    ...request.preferences,
+    places: request.preferences.places.map((place) => ({ ...place, coords: place.coords && coarsenLatLng(place.coords) })),
+  },
+});
+
+const createProvider = (settings: PlannerSettings): PlannerProvider => {
+  switch (settings.providerId) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+export const createPlanner = (settings: PlannerSettings): PlannerProvider => {
+  const provider = createProvider(settings);
+  return settings.coarseOrigin ? { ...provider, plan: (request) => provider.plan(coarsenRequest(request)) } : provider;
+};
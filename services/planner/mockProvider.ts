@@ -0,0 +1,179 @@
+
+import type { ErrandPlan, ErrandStop, LatLng } from '../../types';
+import { buildPlaceUrl } from '../../utils/planSchema';
+import { recomputeTimes } from '../../utils/planEdits';
+import { stopCoords } from '../../utils/geo';
+import { solveRouteOrder } from '../../utils/routeOptimizer';
+import { parseClock, toClockString, minutesSinceMidnight } from '../../utils/time';
+import { createItem } from '../../utils/errandItems';
+import { sleep } from './requestPipeline';
+import { createTextPlanner } from './textPlanner';
+import type { PlannerProvider, PlanRequest } from './types';
+
+const FALLBACK_ORIGIN: LatLng = { lat: 37.7749, lng: -122.4194 };
+
+// Keyword -> [category, store name, minutes spent]. First match wins.
+// English and Spanish keywords, matching the supplied UI languages.
+const CATEGORY_RULES: [RegExp, string, string, number][] = [
+  [/pharm|prescription|medicine|cvs|walgreens|farmacia|receta|medicina/i, 'Pharmacy', 'Corner Pharmacy', 10],
+  [/grocer|milk|bread|eggs|produce|food|supermercado|leche|\bpan\b|huevos|comida/i, 'Grocery', 'Fresh Market', 25],
+  [/coffee|latte|espresso|caf[eé]/i, 'Cafe', 'Bean Street Coffee', 10],
+  [/post|package|mail|ship|stamps|fedex|ups|correos|paquete|sellos/i, 'Post Office', 'Main St Post Office', 10],
+  [/bank|atm|deposit|cash|banco|cajero/i, 'Bank', 'First City Bank', 10],
+  [/gas|fuel/i, 'Gas Station', 'Quick Fuel', 8],
+  [/hardware|battery|batteries|screw|paint|ferreter[ií]a|pilas|tornillo|pintura/i, 'Hardware', 'Ace Tools', 15],
+  [/dry clean|laundry|tintorer[ií]a|lavander[ií]a/i, 'Dry Cleaner', 'Press & Fold', 5],
+  [/card|gift|birthday|tarjeta|regalo|cumplea[ñn]os/i, 'Gift Shop', 'Paper & Co', 10],
+  [/library|book|biblioteca|libro/i, 'Library', 'Public Library', 15],
+  [/school|kid|daycare|colegio|escuela|guarder[ií]a/i, 'School', 'Elm Street School', 5],
+];
+
+// What a store sells beyond its own category, e.g. pharmacies stock cards and batteries.
+const STORE_EXTRAS: Record<string, RegExp> = {
+  Pharmacy: /card|gift|birthday|battery|batteries|stamps|tarjeta|regalo|cumplea[ñn]os|pilas|sellos/i,
+  Grocery: /card|birthday|battery|batteries|flowers|tarjeta|cumplea[ñn]os|pilas|flores/i,
+  'Gas Station': /coffee|snack|battery|batteries|caf[eé]|pilas/i,
+  'Post Office': /card|stamps|tarjeta|sellos/i,
+};
+
+// FNV-1a; stable across runs so the same request always yields the same plan.
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const splitErrands = (input: string) =>
+  input
+    .split(/,|;|\n|\band then\b|\bthen\b|\band\b|\by luego\b|\bluego\b|\by\b/i)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+const clockAfter = (pattern: RegExp, text: string) => {
+  const match = text.match(pattern);
+  const minutes = match ? parseClock(match[1]) : null;
+  return minutes === null ? undefined : toClockString(minutes);
+};
+
+const ruleFor = (errand: string) => CATEGORY_RULES.find(([re]) => re.test(errand));
+
+const covers = (category: string, errand: string) =>
+  ruleFor(errand)?.[1] === category || !!STORE_EXTRAS[category]?.test(errand);
+
+/**
+ * Groups errands into as few stores as possible (greedy set cover). Only
+ * store types the request already needs are candidates, so "milk and a
+ * card" becomes one grocery run rather than a grocery and a gift shop.
+ * Errands with no known category each get their own stop.
+ */
+const groupErrands = (errands: string[]) => {
+  const groups: { category?: string; errands: string[] }[] = errands
+    .filter((e) => !ruleFor(e))
+    .map((e) => ({ errands: [e] }));
+  let left = errands.filter((e) => ruleFor(e));
+  while (left.length) {
+    const candidates = [...new Set(left.map((e) => ruleFor(e)![1]))];
+    const best = candidates
+      .map((category) => ({ category, errands: left.filter((e) => covers(category, e)) }))
+      .reduce((a, b) => (b.errands.length > a.errands.length ? b : a));
+    groups.push(best);
+    left = left.filter((e) => !best.errands.includes(e));
+  }
+  // Visit in the order the user mentioned things; the route is optimised later.
+  return groups.sort((a, b) => errands.indexOf(a.errands[0]) - errands.indexOf(b.errands[0]));
+};
+
+const mockStop = ({ category: covering, errands }: { category?: string; errands: string[] }, idx: number, origin: LatLng): ErrandStop => {
+  const errand = errands.join(', ');
+  const rule = covering ? CATEGORY_RULES.find((r) => r[1] === covering) : undefined;
+  const [category, storeName, serviceMinutes] = rule ? [rule[1], rule[2], rule[3]] : ['Errand', errand, 15];
+  const h = hash(errand.toLowerCase());
+  const openUntil = clockAfter(/closes? at ([\d:]+\s*(?:am|pm)?)/i, errand);
+  // Scatter stops 0.5-3.5 km from the origin in a direction fixed by the hash.
+  const angle = ((h % 360) * Math.PI) / 180;
+  const km = 0.5 + ((h >>> 9) % 300) / 100;
+  const lat = origin.lat + (km / 111) * Math.sin(angle);
+  const lng = origin.lng + (km / (111 * Math.cos((origin.lat * Math.PI) / 180))) * Math.cos(angle);
+  const address = `${100 + (h % 900)} ${['Oak', 'Pine', 'Market', 'Mission', 'Elm'][h % 5]} St`;
+
+  return {
+    id: String(idx + 1),
+    name: storeName,
+    address,
+    category,
+    reason: `Covers ${errands.map((e) => `"${e}"`).join(', ')}`,
+    arrivalEstimate: '',
+    parkingDifficulty: (['Easy', 'Moderate', 'Difficult'] as const)[h % 3],
+    crowdLevel: (['Low', 'Medium', 'High'] as const)[(h >>> 3) % 3],
+    googleMapsUrl: buildPlaceUrl(storeName, address),
+    lat: Number(lat.toFixed(6)),
+    lng: Number(lng.toFixed(6)),
+    openUntil,
+    mustArriveBy: openUntil ? undefined : clockAfter(/\b(?:by|at) ([\d:]+\s*(?:am|pm)?)/i, errand),
+    serviceMinutes,
+    items: errands.map((errand) => createItem(errand)),
+  };
+};
+
+export const buildMockPlan = ({ input, origin, now, travelMode }: PlanRequest): ErrandPlan => {
+  const start = origin ?? FALLBACK_ORIGIN;
+  const stops = groupErrands(splitErrands(input)).map((group, i) => mockStop(group, i, start));
+
+  const plan: ErrandPlan = {
+    summary: `Mock plan with ${stops.length} stop${stops.length === 1 ? '' : 's'}, in the order requested.`,
+    stops,
+    totalTime: '',
+    departureTime: toClockString(minutesSinceMidnight(now)),
+    efficiencyScore: 50,
+    alternatives: [],
+    householdSuggestions: ['Generated offline by the mock planner'],
+    reasoning: 'Deterministic fixture: stops are placed around the origin by hashing the errand text.',
+    travelMode,
+  };
+  return recomputeTimes(plan, start);
+};
+
+// REROUTE answer in the diff format: remaining stops by distance from here.
+export const buildMockRerouteDiff = ({ origin, previousPlan }: PlanRequest) => {
+  const remaining = (previousPlan?.stops ?? []).filter((s) => s.status !== 'done');
+  const located = remaining.filter((s) => stopCoords(s));
+  const order = previousPlan?.orderLocked || !origin
+    ? remaining.map((s) => s.id)
+    : [
+        ...solveRouteOrder(origin, located.map((s) => stopCoords(s) as LatLng)).order.map((i) => located[i].id),
+        ...remaining.filter((s) => !stopCoords(s)).map((s) => s.id),
+      ];
+  return {
+    summary: `Mock reroute: ${remaining.length} stop${remaining.length === 1 ? '' : 's'} left.`,
+    order,
+    removed: [],
+    added: [],
+    changes: ['Remaining stops re-sequenced from your current position'],
+    reasoning: 'Deterministic fixture: nearest-first from the current position.',
+  };
+};
+
+const STREAM_CHUNK = 120;
+
+/**
+ * Offline provider for development, demos and tests. It still returns JSON
+ * text through the shared parse/validate pipeline, so that path is exercised
+ * without a network or key, and hands it over in chunks like a streaming model.
+ */
+export const createMockProvider = (): PlannerProvider => ({
+  id: 'mock',
+  plan: createTextPlanner(async (_messages, request, { signal, onText }) => {
+    const text = JSON.stringify(request.mode === 'REROUTE' && request.previousPlan ? buildMockRerouteDiff(request) : buildMockPlan(request));
+    if (onText) {
+      for (let end = STREAM_CHUNK; end < text.length; end += STREAM_CHUNK) {
+        onText(text.slice(0, end));
+        await sleep(0, signal);
+      }
+      onText(text);
+    }
+    return text;
+  }),
+});
@@ -0,0 +1,65 @@
+
+import { errorForStatus } from './errors';
+import { createTextPlanner } from './textPlanner';
+import type { PlannerProvider, PlannerSettings } from './types';
+
+// Concatenates the `delta.content` of each `data:` event until [DONE].
+const readEventStream = async (body: ReadableStream<Uint8Array>, onText?: (textSoFar: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return text;
+      try {
+        const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          text += delta;
+          onText?.(text);
+        }
+      } catch {
+        // Some servers interleave non-JSON status events; they carry no text.
+      }
+    }
+    if (done) return text;
+  }
+};
+
+/**
+ * Talks to any server exposing the OpenAI /chat/completions API (Ollama,
+ * LM Studio, llama.cpp, vLLM...). These have no Maps grounding, so stop
+ * names and coordinates are only as good as the local model's knowledge.
+ * Responses are requested as a server-sent event stream; servers that
+ * ignore `stream` and answer with plain JSON work too.
+ */
+export const createOpenAICompatibleProvider = (settings: PlannerSettings): PlannerProvider => ({
+  id: 'openai',
+  plan: createTextPlanner(async (messages, _request, { signal, onText }) => {
+    const res = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: settings.model, messages, temperature: 0.2, stream: true }),
+      signal,
+    });
+    if (!res.ok) {
+      const message = `Model server responded ${res.status}: ${(await res.text()).slice(0, 200)}`;
+      throw errorForStatus(res.status, message, res.headers.get('Retry-After'));
+    }
+    if (!res.body || !res.headers.get('Content-Type')?.includes('text/event-stream')) {
+      const data = await res.json();
+      return String(data?.choices?.[0]?.message?.content ?? '');
+    }
+    return readEventStream(res.body, onText);
+  }),
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type { UserPreferences } from '../../types';
+import { coarsenRequest } from './index';
+import { buildPlanPrompt } from './prompt';
+import type { PlanRequest } from './types';
+
+const preferences: UserPreferences = {
+  places: [{ id: 'home', label: 'Home', address: '12 Elm St', coords: { lat: 37.774929, lng: -122.419416 } }],
+  preferredBrands: [],
+  blockedBrands: [],
+  maxDetourKm: null,
+};
+
+const request: PlanRequest = {
+  input: 'milk, then home',
+  origin: { lat: 37.781234, lng: -122.405678 },
+  now: new Date(2024, 0, 1, 9, 0),
+  mode: 'PLAN_INIT',
+  preferences,
+};
+
+describe('coarsenRequest', () => {
+  it('keeps exact saved-place coordinates out of the prompt', () => {
+    const prompt = buildPlanPrompt(coarsenRequest(request));
+    expect(prompt).not.toContain('37.774929');
+    expect(prompt).not.toContain('-122.419416');
+    expect(prompt).not.toContain('37.781234');
+    expect(prompt).toContain('"coords":{"lat":37.775,"lng":-122.415}');
+  });
+
+  it('leaves the exact places for the app', () => {
+    coarsenRequest(request);
+    expect(preferences.places[0].coords).toEqual({ lat: 37.774929, lng: -122.419416 });
+    expect(buildPlanPrompt(request)).toContain('37.774929');
+  });
+});
@@ -0,0 +1,140 @@
+
+import type { ErrandPlan, HouseholdMember, TravelModeSetting, UserPreferences } from '../../types';
+import { findPlace, PreferenceIssue } from '../../utils/preferences';
+import { LANGUAGES, LanguageId } from '../../utils/i18n';
+import { fenceUserText, USER_TEXT_RULE } from '../../utils/promptSafety';
+import { minutesSinceMidnight, toClockString } from '../../utils/time';
+import type { PlanRequest } from './types';
+
+const describeHousehold = (members: HouseholdMember[]) =>
+  JSON.stringify(members.map(({ id, name, start, vehicle, availableFrom, availableUntil }) => ({
+    id, name, start, vehicle, availableFrom, availableUntil,
+  })));
+
+const householdTask = (household?: HouseholdMember[]) =>
+  household && household.length > 1
+    ? `5. Split the stops across these household members: ${describeHousehold(household)}. Set each stop's assigneeId to one member id. Keep stops that belong together (same shopping trip, items needed together) with the same person, balance everyone's total time, and keep each person inside their availability window (null start means the origin).`
+    : '5. Suggest household coordination.';
+
+// Only the lines the user has actually set, so an empty profile adds nothing.
+// Everything typed by the user goes in as JSON strings, never spliced in raw.
+const describePreferences = (prefs?: UserPreferences) => {
+  if (!prefs) return '';
+  const lines: string[] = [];
+  const located = prefs.places.filter((p) => p.address || p.coords);
+  if (located.length) {
+    lines.push(`Saved places (the request may refer to them by label): ${JSON.stringify(located.map(({ label, address, coords, brand }) => ({ label, address, coords, brand })))}`);
+  }
+  if (prefs.preferredBrands.length) lines.push(`Preferred brands, use them when one fits the route: ${JSON.stringify(prefs.preferredBrands)}`);
+  if (prefs.blockedBrands.length) lines.push(`Never use these brands: ${JSON.stringify(prefs.blockedBrands)}`);
+  if (prefs.maxDetourKm !== null) lines.push(`No single stop may add more than ${prefs.maxDetourKm} km of detour`);
+  const end = findPlace(prefs, prefs.defaultEndId);
+  if (end) lines.push(`The trip ends at ${JSON.stringify(end.label)} (${JSON.stringify(end.address)}); make the last stop one on the way there`);
+  return lines.length ? `User Preferences:\n${lines.map((l) => `        - ${l}`).join('\n')}` : '';
+};
+
+// Free text follows the user's language; keys and enum values stay English so validation still reads them.
+const describeLanguage = (language: LanguageId = 'en') => {
+  const name = LANGUAGES.find((l) => l.id === language)?.promptName ?? 'English';
+  return `Response Language: write "summary", "reasoning", "householdSuggestions", "changes" and every stop's "reason", "parkingAdvice" and "trafficNote" in ${name}. Keep JSON keys, ids, parkingDifficulty and crowdLevel values in English.`;
+};
+
+const TRAVEL_MODE_TASKS: Record<TravelModeSetting, string> = {
+  driving: 'Sequence them to minimize total driving time',
+  walking: 'The user is walking. Sequence them to minimize total walking time, preferring places close together,',
+  bicycling: 'The user is cycling. Sequence them to minimize total cycling time, preferring bike-friendly routes,',
+  transit: 'The user travels by public transit. Sequence them to minimize total transit time, preferring places near stations and lines,',
+  'park-walk': 'The user drives, parks once per area and walks between nearby stops. Prefer places within about a 600 m walk of each other so they can share one parking spot, and sequence the areas to minimize total time',
+};
+
+export const buildPlanPrompt = ({ input, origin, now, mode, household, travelMode = 'driving', preferences, language }: PlanRequest) => `
+        ${USER_TEXT_RULE}
+        User Request: ${fenceUserText(input)}
+        Origin Coords: ${origin?.lat}, ${origin?.lng}
+        Current Time: ${toClockString(minutesSinceMidnight(now))}
+        Operational Mode: ${mode}
+        Travel Mode: ${travelMode}
+        ${describeLanguage(language)}
+        ${describePreferences(preferences)}
+
+        Task: Optimize a multi-stop errand trip. 
+        1. Use Google Maps to find exact business names and addresses.
+        2. ${TRAVEL_MODE_TASKS[travelMode]} while reaching every stop inside its time window.
+        3. Include each stop's latitude and longitude as numbers.
+        4. Include parking difficulty (Easy/Moderate/Difficult) and crowd levels (Low/Medium/High).
+        ${householdTask(household)}
+        6. For each stop, set openFrom/openUntil from today's opening hours and mustArriveBy from any deadline in the request (e.g. "pharmacy closes at 6", "pick up kid at 3:15"), all as "HH:MM" 24h. Set serviceMinutes to the expected time spent there. Omit fields you do not know.
+        7. Break the request into items (things to buy or do, e.g. "milk", "AA batteries", "mail this package") and give each stop an "items" list of the items it covers, worded as the user said them. Prefer fewer stops: when one store sells several items (e.g. a pharmacy that also has birthday cards and batteries), send the user there once instead of to separate stores. Every item must appear on exactly one stop or in "unassignedItems" if no nearby place covers it.
+
+        IMPORTANT: Return ONLY a JSON object. No markdown, no conversational filler.
+        Format:
+        {
+          "summary": "trip summary",
+          "stops": [{ "id": "1", "name": "Store", "address": "Address", "category": "Type", "reason": "why", "arrivalEstimate": "HH:MM AM/PM", "parkingDifficulty": "Easy", "crowdLevel": "Low", "googleMapsUrl": "url", "lat": 37.7749, "lng": -122.4194, "openFrom": "09:00", "openUntil": "18:00", "mustArriveBy": "15:15", "serviceMinutes": 15, "parkingAdvice": "tips", "trafficNote": "notes", "items": ["item"]${household && household.length > 1 ? ', "assigneeId": "member id"' : ''} }],
+          "totalTime": "string",
+          "efficiencyScore": 95,
+          "alternatives": [],
+          "householdSuggestions": ["suggestion"],
+          "unassignedItems": [],
+          "reasoning": "spatial logic"
+        }
+      `;
+
+// Only what the model needs to re-sequence; times are recomputed locally.
+const describeStops = (plan: ErrandPlan) =>
+  JSON.stringify(plan.stops.map(({ id, name, address, lat, lng, status, openFrom, openUntil, mustArriveBy, assigneeId, items }) => ({
+    id, name, address, lat, lng, status: status ?? 'pending', openFrom, openUntil, mustArriveBy, assigneeId,
+    items: items?.map((i) => i.name),
+  })));
+
+/**
+ * REROUTE prompt: the model sees the previous plan and the user's live
+ * position, and answers with a diff rather than a whole new plan.
+ */
+export const buildReroutePrompt = ({ input, origin, now, previousPlan, preferences, language }: PlanRequest & { previousPlan: ErrandPlan }) => `
+        ${USER_TEXT_RULE}
+        User Request: ${fenceUserText(input)}
+        Current Position: ${origin?.lat}, ${origin?.lng}
+        Current Time: ${toClockString(minutesSinceMidnight(now))}
+        Operational Mode: REROUTE
+        ${describeLanguage(language)}
+        ${describePreferences(preferences)}
+
+        Previous Plan Stops (in order): ${describeStops(previousPlan)}
+        ${previousPlan.orderLocked ? 'Locked Order: the user fixed the stop order. Do not reorder the remaining stops.' : ''}
+        ${previousPlan.household && previousPlan.household.length > 1 ? `Household: stops are split by assigneeId across ${describeHousehold(previousPlan.household)}. Keep existing assignments and give every added stop an assigneeId.` : ''}
+
+        Task: Update the trip from the current position.
+        1. Stops with status "done" are finished. Never reorder, remove or repeat them.
+           A stop with status "arrived" is where the user is right now; keep it first among the remaining stops.
+        2. Re-sequence the remaining stops to minimize ${previousPlan.travelMode && previousPlan.travelMode !== 'park-walk' ? previousPlan.travelMode : 'driving'} time from the current position, respecting time windows.
+        3. Remove a remaining stop only if it can no longer be visited (e.g. closed), and say why.
+        4. Add a stop only if the request needs one that is missing, using the same stop format as before.
+           Items of a removed stop should move to an added stop that covers them; list any that cannot be covered in "unassignedItems".
+        ${previousPlan.unassignedItems?.length ? `Unassigned Items (no stop yet): ${JSON.stringify(previousPlan.unassignedItems.filter((i) => !i.done).map((i) => i.name))}. Add a stop for them if one fits the route.` : ''}
+
+        IMPORTANT: Return ONLY a JSON object. No markdown, no conversational filler.
+        Format:
+        {
+          "summary": "updated trip summary",
+          "order": ["ids of remaining stops, in the new visiting order, including added stops"],
+          "removed": [{ "id": "3", "reason": "why" }],
+          "added": [{ "id": "new-1", "name": "Store", "address": "Address", "category": "Type", "reason": "why", "arrivalEstimate": "HH:MM AM/PM", "parkingDifficulty": "Easy", "crowdLevel": "Low", "googleMapsUrl": "url", "lat": 37.7749, "lng": -122.4194, "items": ["item"] }],
+          "unassignedItems": [],
+          "changes": ["short note per change"],
+          "totalTime": "string",
+          "reasoning": "spatial logic"
+        }
+      `;
+
+/**
+ * Follow-up sent when a valid plan breaks the user's preferences. The
+ * offending response itself goes in the preceding model turn.
+ */
+export const buildPreferencePrompt = (issues: PreferenceIssue[], plan: ErrandPlan) => `
+  Your plan breaks the user's preferences:
+  ${issues.map((i) => `- ${plan.stops.find((s) => s.id === i.stopId)?.name ?? i.stopId}: ${i.reason}`).join('\n  ')}
+
+  Replace each of these stops with another place that covers the same items and respects the preferences, or drop it and list its items in "unassignedItems" if none exists.
+  Return ONLY the corrected JSON object with the same format as requested. No markdown, no explanation.
+`;
@@ -0,0 +1,113 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyError, errorForStatus, PlannerError } from './errors';
+import { backoffDelay, callWithRetry } from './requestPipeline';
+
+const httpError = (status: number, message = `HTTP ${status}`) => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+  it.each([
+    [httpError(401), 'auth'],
+    [httpError(403), 'auth'],
+    [httpError(400, 'API key not valid. Please pass a valid API key.'), 'auth'],
+    [httpError(429), 'quota'],
+    [new Error('RESOURCE_EXHAUSTED: quota exceeded'), 'quota'],
+    [httpError(503), 'network'],
+    [new TypeError('Failed to fetch'), 'network'],
+    [httpError(408), 'timeout'],
+    [Object.assign(new Error('The user aborted a request.'), { name: 'AbortError' }), 'cancelled'],
+    [new Error('Something odd'), 'unknown'],
+  ])('%s -> %s', (err, kind) => {
+    expect(classifyError(err).kind).toBe(kind);
+  });
+
+  it('passes PlannerErrors through', () => {
+    const error = new PlannerError('parse', 'bad JSON');
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it('reads Retry-After seconds', () => {
+    expect(errorForStatus(429, 'slow down', '7').retryAfterMs).toBe(7000);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles up to the cap', () => {
+    const max = () => 1;
+    expect([0, 1, 2, 3, 4].map((attempt) => backoffDelay(attempt, 1000, 8000, max))).toEqual([1000, 2000, 4000, 8000, 8000]);
+    expect(backoffDelay(3, 1000, 8000, () => 0.5)).toBe(4000);
+  });
+});
+
+describe('callWithRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const noJitter = { random: () => 1, baseDelayMs: 1000 };
+
+  it('retries transient failures with backoff', async () => {
+    const call = vi.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValue('plan');
+    const result = callWithRetry(call, noJitter);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(call).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toBe('plan');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails fast on auth errors', async () => {
+    const call = vi.fn().mockRejectedValue(httpError(401));
+    await expect(callWithRetry(call, noJitter)).rejects.toMatchObject({ kind: 'auth' });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last retry', async () => {
+    const call = vi.fn().mockRejectedValue(httpError(503));
+    const result = callWithRetry(call, { ...noJitter, retries: 2 });
+    const assertion = expect(result).rejects.toMatchObject({ kind: 'network' });
+    await vi.advanceTimersByTimeAsync(10_000);
+    await assertion;
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('times out an attempt that never answers', async () => {
+    const call = vi.fn((signal: AbortSignal) => new Promise<string>(() => void signal));
+    const result = callWithRetry(call, { ...noJitter, timeoutMs: 5000, retries: 0 });
+    const assertion = expect(result).rejects.toMatchObject({ kind: 'timeout' });
+    await vi.advanceTimersByTimeAsync(5000);
+    await assertion;
+    expect(call.mock.calls[0][0].aborted).toBe(true);
+  });
+
+  it('cancels the attempt and the wait before a retry', async () => {
+    const controller = new AbortController();
+    const call = vi.fn().mockRejectedValue(httpError(503));
+    const result = callWithRetry(call, { ...noJitter, signal: controller.signal });
+    const assertion = expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await assertion;
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits at least as long as Retry-After', async () => {
+    const call = vi.fn().mockRejectedValueOnce(errorForStatus(429, 'slow down', '5')).mockResolvedValue('plan');
+    const result = callWithRetry(call, noJitter);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('plan');
+  });
+});
@@ -0,0 +1,97 @@
+
+import { classifyError, isTransient, PlannerError } from './errors';
+
+// --- Types ---
+export interface RetryOptions {
+  // Cancels the attempt in flight and any wait between attempts.
+  signal?: AbortSignal;
+  // Per attempt; a slow attempt counts as a transient failure.
+  timeoutMs?: number;
+  // Extra attempts after the first.
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Seam for tests; defaults to Math.random.
+  random?: () => number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+
+const cancelled = () => new PlannerError('cancelled', 'Request cancelled');
+
+/** Exponential backoff with full jitter: a random wait up to base * 2^attempt, capped. */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, random = Math.random) =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelled());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs one attempt with its own AbortController, aborted by the caller's
+ * signal or by the timeout. The attempt is also raced against that abort,
+ * so a provider that ignores its signal still stops holding up the caller.
+ */
+const runAttempt = <T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, parent?: AbortSignal) => {
+  const controller = new AbortController();
+  let failure: PlannerError | null = null;
+  const abort = (error: PlannerError) => {
+    failure = error;
+    controller.abort();
+  };
+  const onParentAbort = () => abort(cancelled());
+  const timer = setTimeout(() => abort(new PlannerError('timeout', `No response within ${Math.round(timeoutMs / 1000)}s`)), timeoutMs);
+  parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(failure), { once: true });
+  });
+  return Promise.race([call(controller.signal), aborted])
+    .catch((err) => {
+      throw failure ?? classifyError(err);
+    })
+    .finally(() => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    });
+};
+
+/**
+ * Calls `call` until it succeeds, retrying network, quota and timeout
+ * failures with exponential backoff (or the server's Retry-After, if
+ * longer). Auth and other failures are thrown straight away, already
+ * classified as PlannerError.
+ */
+export const callWithRetry = async <T>(
+  call: (signal: AbortSignal, attempt: number) => Promise<T>,
+  {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = 2,
+    baseDelayMs = 1000,
+    maxDelayMs = 8000,
+    random,
+  }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw cancelled();
+    try {
+      return await runAttempt((attemptSignal) => call(attemptSignal, attempt), timeoutMs, signal);
+    } catch (err) {
+      const error = classifyError(err);
+      if (error.kind === 'cancelled' || !isTransient(error) || attempt >= retries) throw error;
+      const delay = Math.max(backoffDelay(attempt, baseDelayMs, maxDelayMs, random), error.retryAfterMs ?? 0);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { UserPreferences } from '../../types';
+import { PlannerError } from './errors';
+import { createTextPlanner } from './textPlanner';
+import type { CompleteFn, PlanRequest } from './types';
+
+const preferences: UserPreferences = { places: [], preferredBrands: [], blockedBrands: ['Megamart'], maxDetourKm: null };
+
+const request: PlanRequest = {
+  input: 'milk',
+  origin: { lat: 37.7749, lng: -122.4194 },
+  now: new Date(2024, 0, 1, 9, 0),
+  mode: 'PLAN_INIT',
+  preferences,
+};
+
+const response = JSON.stringify({
+  summary: 'Milk run',
+  stops: [{ id: '1', name: 'Megamart', address: '1 Oak St', category: 'Grocery', lat: 37.78, lng: -122.41 }],
+});
+
+describe('createTextPlanner', () => {
+  it('keeps the valid plan with a notice when the preference revision fails', async () => {
+    const complete: CompleteFn = vi.fn()
+      .mockResolvedValueOnce(response)
+      .mockRejectedValueOnce(new PlannerError('auth', 'key revoked'));
+    const plan = await createTextPlanner(complete)(request);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(plan.stops.map((s) => s.name)).toEqual(['Megamart']);
+    expect(plan.notices).toHaveLength(1);
+  });
+
+  it('still rejects when the revision is cancelled', async () => {
+    const complete: CompleteFn = vi.fn()
+      .mockResolvedValueOnce(response)
+      .mockRejectedValueOnce(new PlannerError('cancelled', 'cancelled'));
+    await expect(createTextPlanner(complete)(request)).rejects.toMatchObject({ kind: 'cancelled' });
+  });
+});
@@ -0,0 +1,78 @@
+
+import type { ErrandPlan } from '../../types';
+import { buildRepairPrompt, extractJSON, formatPlanErrors, readPartialStops, validatePlan, validateRerouteDiff } from '../../utils/planSchema';
+import { checkPreferences, placeCoords } from '../../utils/preferences';
+import { t } from '../../utils/i18n';
+import { classifyError, PlannerError } from './errors';
+import { buildPlanPrompt, buildPreferencePrompt, buildReroutePrompt } from './prompt';
+import { callWithRetry } from './requestPipeline';
+import type { ChatMessage, CompleteFn, PlanRequest } from './types';
+
+/**
+ * Shared pipeline for text-completion providers: prompt, parse, validate,
+ * and one automatic repair round-trip before surfacing a parse failure.
+ * REROUTE with a previous plan asks for and merges a diff instead.
+ * New plans that break the user's preferences get one more round-trip; the
+ * revision is kept only if it breaks fewer, and the app flags what is left.
+ * A failed revision keeps the valid plan, with a notice that it was not revised.
+ * Every round-trip goes through callWithRetry, and the first one of a new
+ * plan reports stops to `onProgress` as they stream in.
+ */
+export const createTextPlanner = (complete: CompleteFn) => async (request: PlanRequest): Promise<ErrandPlan> => {
+  const { previousPlan } = request;
+  const isDiff = request.mode === 'REROUTE' && !!previousPlan;
+  const prompt = isDiff ? buildReroutePrompt({ ...request, previousPlan }) : buildPlanPrompt(request);
+  const parse = (text: string) =>
+    isDiff ? validateRerouteDiff(extractJSON(text), previousPlan) : validatePlan(extractJSON(text));
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+
+  const call = (conversation: ChatMessage[], stream = false) => {
+    const { onProgress } = request;
+    let shown = -1;
+    // A retry starts the text over, so the count drops back and the preview clears.
+    const onText = stream && onProgress
+      ? (text: string) => {
+          const stops = readPartialStops(text);
+          if (stops.length === shown) return;
+          shown = stops.length;
+          onProgress(stops);
+        }
+      : undefined;
+    return callWithRetry((signal) => complete(conversation, request, { signal, onText }), { signal: request.signal });
+  };
+
+  let responseText = await call(messages, !isDiff);
+  let result = parse(responseText);
+
+  if (!result.plan) {
+    responseText = await call([
+      ...messages,
+      { role: 'assistant', content: responseText },
+      { role: 'user', content: buildRepairPrompt(result.errors) },
+    ]);
+    result = parse(responseText);
+  }
+
+  if (!result.plan) {
+    throw new PlannerError('parse', `Critical: AI response contained no valid plan data (${formatPlanErrors(result.errors)}). Please try again with more specific details.`);
+  }
+
+  const { preferences } = request;
+  if (!preferences || isDiff) return result.plan;
+  const end = placeCoords(preferences, preferences.defaultEndId);
+  const issues = checkPreferences(result.plan, request.origin, preferences, end);
+  if (!issues.length) return result.plan;
+
+  try {
+    const revisedText = await call([
+      ...messages,
+      { role: 'assistant', content: responseText },
+      { role: 'user', content: buildPreferencePrompt(issues, result.plan) },
+    ]);
+    const revised = parse(revisedText).plan;
+    return revised && checkPreferences(revised, request.origin, preferences, end).length < issues.length ? revised : result.plan;
+  } catch (err) {
+    if (classifyError(err).kind === 'cancelled') throw err;
+    return { ...result.plan, notices: [...(result.plan.notices ?? []), t('plan.revisionFailed')] };
+  }
+};
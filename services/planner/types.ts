@@ -0,0 +1,62 @@
+
+import type { ErrandPlan, ErrandStop, HouseholdMember, LatLng, TravelModeSetting, UserPreferences } from '../../types';
+import type { LanguageId } from '../../utils/i18n';
+
+// --- Types ---
+export type PlanMode = 'PLAN_INIT' | 'REROUTE';
+
+export interface PlanRequest {
+  input: string;
+  origin: LatLng | null;
+  now: Date;
+  mode: PlanMode;
+  // REROUTE only: the plan being updated, with completed stops marked done.
+  previousPlan?: ErrandPlan;
+  // Two or more people to split the errands across.
+  household?: HouseholdMember[];
+  // Missing means driving.
+  travelMode?: TravelModeSetting;
+  // Saved places and brand rules; also enforced after the response.
+  preferences?: UserPreferences;
+  // Language for the text the model writes; missing means English.
+  language?: LanguageId;
+  // Aborts the request, including retries; the plan promise then rejects as 'cancelled'.
+  signal?: AbortSignal;
+  // Stops parsed so far while the response streams in; PLAN_INIT only.
+  onProgress?: (stops: ErrandStop[]) => void;
+}
+
+export interface PlannerProvider {
+  id: PlannerProviderId;
+  plan: (request: PlanRequest) => Promise<ErrandPlan>;
+}
+
+export type PlannerProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface PlannerSettings {
+  providerId: PlannerProviderId;
+  model: string;
+  // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  // Overrides the build-time key; leave empty for keyless local servers.
+  apiKey: string;
+  // Gemini only: a key proxy (npm run proxy) that adds the key server-side; empty calls Google directly.
+  proxyUrl: string;
+  // Round the origin and household starts to a ~1 km grid before they leave the device.
+  coarseOrigin: boolean;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompleteOptions {
+  // Per attempt: aborted on cancel or timeout.
+  signal: AbortSignal;
+  // The whole response so far, for providers that stream.
+  onText?: (textSoFar: string) => void;
+}
+
+// A provider reduced to "messages in, text out"; see createTextPlanner.
+export type CompleteFn = (messages: ChatMessage[], request: PlanRequest, options: CompleteOptions) => Promise<string>;
@@ -0,0 +1,83 @@
+
+import type { LatLng } from '../types';
+import { haversineKm } from '../utils/geo';
+import { t } from '../utils/i18n';
+
+/**
+ * Source of live positions for trip mode. `watch` returns an unsubscribe
+ * function, mirroring navigator.geolocation.watchPosition/clearWatch.
+ */
+export interface PositionFeed {
+  watch: (onPosition: (position: LatLng) => void, onError?: (message: string) => void) => () => void;
+}
+
+export const createBrowserPositionFeed = (): PositionFeed => ({
+  watch: (onPosition, onError) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      onError?.(t('error.trackingUnavailable'));
+      return () => {};
+    }
+    const id = navigator.geolocation.watchPosition(
+      (pos) => onPosition({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      (err) => onError?.(err.message || t('error.trackingFailed')),
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+    return () => navigator.geolocation.clearWatch(id);
+  },
+});
+
+// How far the simulated walk carries on past the last waypoint: beyond the
+// departure geofence, so the final stop is checked off and the trip ends.
+const EXIT_KM = 0.25;
+
+// A point `km` past `to`, continuing the heading from `from` (north if they coincide).
+const beyond = (from: LatLng, to: LatLng, km: number): LatLng => {
+  const legKm = haversineKm(from, to);
+  if (legKm === 0) return { lat: to.lat + km / 111, lng: to.lng };
+  return { lat: to.lat + ((to.lat - from.lat) * km) / legKm, lng: to.lng + ((to.lng - from.lng) * km) / legKm };
+};
+
+/**
+ * Walks a path at a steady pace, emitting a fix every `intervalMs` and
+ * pausing `dwellTicks` fixes at each waypoint after the first, then walks
+ * on past the last one. Used for demos and tests in place of real GPS.
+ */
+export const createSimulatedPositionFeed = (
+  path: LatLng[],
+  { intervalMs = 1000, stepKm = 0.1, dwellTicks = 3 }: { intervalMs?: number; stepKm?: number; dwellTicks?: number } = {}
+): PositionFeed => ({
+  watch: (onPosition) => {
+    const fixes: LatLng[] = [];
+    const walk = (from: LatLng, to: LatLng) => {
+      const steps = Math.max(1, Math.ceil(haversineKm(from, to) / stepKm));
+      for (let s = 1; s <= steps; s++) {
+        fixes.push({
+          lat: from.lat + ((to.lat - from.lat) * s) / steps,
+          lng: from.lng + ((to.lng - from.lng) * s) / steps,
+        });
+      }
+    };
+    path.forEach((point, i) => {
+      if (i > 0) {
+        walk(path[i - 1], point);
+        for (let d = 0; d < dwellTicks; d++) fixes.push(point);
+      } else {
+        fixes.push(point);
+      }
+    });
+    if (path.length) {
+      const last = path[path.length - 1];
+      walk(last, beyond(path[path.length - 2] ?? last, last, EXIT_KM));
+    }
+
+    let tick = 0;
+    const timer = setInterval(() => {
+      if (tick >= fixes.length) {
+        clearInterval(timer);
+        return;
+      }
+      onPosition(fixes[tick++]);
+    }, intervalMs);
+    return () => clearInterval(timer);
+  },
+});
@@ -0,0 +1,17 @@
+
+import type { UserPreferences } from '../types';
+import { DEFAULT_PREFERENCES, readPreferences } from '../utils/preferences';
+
+const PREFERENCES_KEY = 'errandos.preferences';
+
+export const loadPreferences = (): UserPreferences => {
+  try {
+    return readPreferences(JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? 'null'));
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = (prefs: UserPreferences) => {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(prefs));
+};
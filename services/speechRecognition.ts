@@ -0,0 +1,105 @@
+
+// --- Types ---
+export interface SpeechAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+export interface SpeechResult {
+  isFinal: boolean;
+  // Best first, as the engine ranked them.
+  alternatives: SpeechAlternative[];
+}
+
+export interface SpeechHandlers {
+  // The whole result list of the session so far; earlier entries can still change until final.
+  onResults: (results: SpeechResult[]) => void;
+  // Error codes as the Web Speech API names them, e.g. "not-allowed", "no-speech".
+  onError: (code: string) => void;
+  onEnd: () => void;
+}
+
+export interface SpeechSession {
+  // Stops listening; results already heard still arrive before onEnd.
+  stop: () => void;
+}
+
+/**
+ * Source of transcripts for voice input, mirroring the browser's
+ * SpeechRecognition with continuous and interim results switched on.
+ */
+export interface SpeechRecognizer {
+  isSupported: boolean;
+  listen: (lang: string, handlers: SpeechHandlers) => SpeechSession;
+}
+
+const MAX_ALTERNATIVES = 3;
+
+export const createBrowserSpeechRecognizer = (): SpeechRecognizer => {
+  const Recognition = typeof window === 'undefined'
+    ? undefined
+    : (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+  return {
+    isSupported: !!Recognition,
+    listen: (lang, handlers) => {
+      if (!Recognition) {
+        handlers.onError('not-supported');
+        handlers.onEnd();
+        return { stop: () => {} };
+      }
+      const recognition = new Recognition();
+      recognition.continuous = true;
+      recognition.interimResults = true;
+      recognition.maxAlternatives = MAX_ALTERNATIVES;
+      recognition.lang = lang;
+      recognition.onresult = (event: any) => {
+        const results: SpeechResult[] = [];
+        for (let i = 0; i < event.results.length; i++) {
+          const result = event.results[i];
+          const alternatives: SpeechAlternative[] = [];
+          for (let j = 0; j < result.length; j++) {
+            alternatives.push({ transcript: result[j].transcript, confidence: result[j].confidence ?? 0 });
+          }
+          results.push({ isFinal: result.isFinal, alternatives });
+        }
+        handlers.onResults(results);
+      };
+      recognition.onerror = (event: any) => handlers.onError(event.error || 'unknown');
+      recognition.onend = () => handlers.onEnd();
+      try {
+        recognition.start();
+      } catch {
+        handlers.onError('not-allowed');
+        handlers.onEnd();
+      }
+      return { stop: () => recognition.stop() };
+    },
+  };
+};
+
+/**
+ * Plays back a fixed script of result lists, one every `intervalMs`, then
+ * stays silent until stopped, like a microphone in a quiet room. Used for
+ * demos and tests in place of real speech.
+ */
+export const createScriptedSpeechRecognizer = (
+  script: SpeechResult[][],
+  { intervalMs = 500 }: { intervalMs?: number } = {}
+): SpeechRecognizer => ({
+  isSupported: true,
+  listen: (_lang, handlers) => {
+    let step = 0;
+    let ended = false;
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      clearInterval(timer);
+      handlers.onEnd();
+    };
+    const timer = setInterval(() => {
+      if (step < script.length) handlers.onResults(script[step++]);
+      else clearInterval(timer);
+    }, intervalMs);
+    return { stop: () => setTimeout(end, 0) };
+  },
+});
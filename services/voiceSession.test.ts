@@ -0,0 +1,128 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScriptedSpeechRecognizer, SpeechResult } from './speechRecognition';
+import { createVoiceController, VoiceSettings } from './voiceSession';
+
+const heard = (transcript: string, isFinal = true, ...others: string[]): SpeechResult => ({
+  isFinal,
+  alternatives: [transcript, ...others].map((t) => ({ transcript: t, confidence: 0.9 })),
+});
+
+// The scripted recognizer reports its end on the next tick after stop().
+const nextTick = () => vi.advanceTimersByTimeAsync(1);
+
+const setup = (script: SpeechResult[][], settings: VoiceSettings = { mode: 'auto', silenceSeconds: 3 }) => {
+  const callbacks = {
+    onState: vi.fn(),
+    onInterim: vi.fn(),
+    onText: vi.fn(),
+    onCommand: vi.fn(),
+    onSubmit: vi.fn(),
+    onError: vi.fn(),
+  };
+  const recognizer = createScriptedSpeechRecognizer(script, { intervalMs: 500 });
+  const controller = createVoiceController(recognizer, () => ({ lang: 'en-US', settings }), callbacks);
+  const states = () => callbacks.onState.mock.calls.map(([state]) => state);
+  return { controller, callbacks, states };
+};
+
+describe('createVoiceController', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows interim words, then appends the final phrase', async () => {
+    const { controller, callbacks } = setup([[heard('milk and', false)], [heard('milk and eggs')]]);
+    controller.start();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(callbacks.onInterim).toHaveBeenLastCalledWith('milk and');
+    expect(callbacks.onText).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(callbacks.onText).toHaveBeenCalledWith('milk and eggs');
+    expect(callbacks.onInterim).toHaveBeenLastCalledWith('');
+  });
+
+  it('submits after the configured silence, counted from the last result', async () => {
+    const { controller, callbacks, states } = setup([[heard('pharmacy')], [heard('pharmacy'), heard('coffee')]]);
+    controller.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(callbacks.onText).toHaveBeenCalledTimes(2);
+
+    // The second result at 1000 ms restarted the 3 s timer.
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(callbacks.onSubmit).not.toHaveBeenCalled();
+    expect(states()).toEqual(['listening']);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(states()).toEqual(['listening', 'finishing']);
+    await nextTick();
+    expect(states()).toEqual(['listening', 'finishing', 'idle']);
+    expect(callbacks.onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('never times out in push-to-talk mode', async () => {
+    const { controller, callbacks, states } = setup([[heard('bank')]], { mode: 'push', silenceSeconds: 1 });
+    controller.start();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(states()).toEqual(['listening']);
+
+    controller.stop(true);
+    await nextTick();
+    expect(states()).toEqual(['listening', 'finishing', 'idle']);
+    expect(callbacks.onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops without submitting when cancelled', async () => {
+    const { controller, callbacks, states } = setup([[heard('bank')]]);
+    controller.start();
+    await vi.advanceTimersByTimeAsync(500);
+    controller.stop(false);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(states()).toEqual(['listening', 'finishing', 'idle']);
+    expect(callbacks.onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('routes commands and submits at once on "go"', async () => {
+    const { controller, callbacks } = setup([[heard('remove the pharmacy')], [heard('remove the pharmacy'), heard("that's it")]]);
+    controller.start();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(callbacks.onCommand).toHaveBeenCalledWith({ type: 'remove', target: 'pharmacy' }, 'remove the pharmacy');
+    expect(callbacks.onText).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(500);
+    await nextTick();
+    expect(callbacks.onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('prefers a confident alternative that reads as a command', async () => {
+    const { controller, callbacks } = setup([[heard('reset the route', true, 'reset')]]);
+    controller.start();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(callbacks.onCommand).toHaveBeenCalledWith({ type: 'reset' }, 'reset');
+  });
+
+  it('does not let an unsure alternative run a command', async () => {
+    const unsure: SpeechResult = {
+      isFinal: true,
+      alternatives: [{ transcript: 'milk and eggs', confidence: 0.9 }, { transcript: 'go', confidence: 0.3 }],
+    };
+    const { controller, callbacks } = setup([[unsure]]);
+    controller.start();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(callbacks.onText).toHaveBeenCalledWith('milk and eggs');
+    expect(callbacks.onCommand).not.toHaveBeenCalled();
+    expect(callbacks.onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('ignores start while already listening', () => {
+    const { controller, states } = setup([]);
+    controller.start();
+    controller.start();
+    expect(states()).toEqual(['listening']);
+  });
+});
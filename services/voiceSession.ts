@@ -0,0 +1,128 @@
+
+import { parseVoiceCommand, pickTranscript, VoiceCommand } from '../utils/voiceCommands';
+import type { SpeechRecognizer, SpeechSession } from './speechRecognition';
+
+// --- Types ---
+export type VoiceMode = 'auto' | 'push';
+
+export interface VoiceSettings {
+  // auto: stop and plan after `silenceSeconds` without speech. push: listen while the mic is held.
+  mode: VoiceMode;
+  silenceSeconds: number;
+}
+
+export type VoiceState = 'idle' | 'listening' | 'finishing';
+
+export interface VoiceCallbacks {
+  onState: (state: VoiceState) => void;
+  // Words heard but not yet final; empty once they settle.
+  onInterim: (text: string) => void;
+  // A finished phrase that is not a command, to append as errands.
+  onText: (text: string) => void;
+  onCommand: (command: VoiceCommand, transcript: string) => void;
+  // Listening ended and the input should be planned.
+  onSubmit: () => void;
+  onError: (code: string) => void;
+}
+
+export interface VoiceController {
+  start: () => void;
+  // submit: plan once the last results are in, as after silence or a push-to-talk release.
+  stop: (submit: boolean) => void;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { mode: 'auto', silenceSeconds: 3 };
+
+/**
+ * Voice input state machine: idle -> listening -> finishing -> idle.
+ * Final results are split into commands and errand text; in auto mode any
+ * result restarts the silence timer, and silence (or a spoken "go") ends
+ * the session with a submit. The recognizer is injected so tests can
+ * script results and drive the timer with fake clocks.
+ */
+export const createVoiceController = (
+  recognizer: SpeechRecognizer,
+  getOptions: () => { lang: string; settings: VoiceSettings },
+  callbacks: VoiceCallbacks
+): VoiceController => {
+  let state: VoiceState = 'idle';
+  let session: SpeechSession | null = null;
+  let processed = 0;
+  let submitOnEnd = false;
+  let silenceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setState = (next: VoiceState) => {
+    state = next;
+    callbacks.onState(next);
+  };
+
+  const clearSilence = () => {
+    if (silenceTimer) clearTimeout(silenceTimer);
+    silenceTimer = null;
+  };
+
+  const finish = (submit: boolean) => {
+    if (state !== 'listening') return;
+    clearSilence();
+    submitOnEnd = submit;
+    setState('finishing');
+    session?.stop();
+  };
+
+  const armSilence = () => {
+    const { settings } = getOptions();
+    if (settings.mode !== 'auto') return;
+    clearSilence();
+    silenceTimer = setTimeout(() => finish(true), settings.silenceSeconds * 1000);
+  };
+
+  const start = () => {
+    if (state !== 'idle') return;
+    processed = 0;
+    submitOnEnd = false;
+    setState('listening');
+    session = recognizer.listen(getOptions().lang, {
+      onResults: (results) => {
+        const interim: string[] = [];
+        for (let i = processed; i < results.length; i++) {
+          const result = results[i];
+          if (!result.isFinal) {
+            interim.push(result.alternatives[0]?.transcript.trim() ?? '');
+            continue;
+          }
+          // Results finalize in order; anything after an interim one is re-read next time.
+          if (interim.length) {
+            interim.push(result.alternatives[0]?.transcript.trim() ?? '');
+            continue;
+          }
+          processed = i + 1;
+          const transcript = pickTranscript(result.alternatives);
+          if (!transcript) continue;
+          const command = parseVoiceCommand(transcript);
+          if (!command) callbacks.onText(transcript);
+          else if (command.type === 'go') submitOnEnd = true;
+          else callbacks.onCommand(command, transcript);
+        }
+        callbacks.onInterim(interim.filter(Boolean).join(' '));
+        if (submitOnEnd && state === 'listening') finish(true);
+        else if (state === 'listening') armSilence();
+      },
+      onError: (code) => {
+        // Silence before any speech is not worth an error message.
+        if (code !== 'no-speech' && code !== 'aborted') callbacks.onError(code);
+        submitOnEnd = false;
+      },
+      onEnd: () => {
+        clearSilence();
+        session = null;
+        callbacks.onInterim('');
+        const submit = submitOnEnd;
+        submitOnEnd = false;
+        setState('idle');
+        if (submit) callbacks.onSubmit();
+      },
+    });
+  };
+
+  return { start, stop: finish };
+};
@@ -0,0 +1,22 @@
+
+import { DEFAULT_VOICE_SETTINGS, VoiceSettings } from './voiceSession';
+
+const VOICE_KEY = 'errandos.voice';
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(VOICE_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_VOICE_SETTINGS;
+    const seconds = Number(saved.silenceSeconds);
+    return {
+      mode: saved.mode === 'push' ? 'push' : 'auto',
+      silenceSeconds: Number.isFinite(seconds) && seconds >= 1 && seconds <= 15 ? seconds : DEFAULT_VOICE_SETTINGS.silenceSeconds,
+    };
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) => {
+  localStorage.setItem(VOICE_KEY, JSON.stringify(settings));
+};
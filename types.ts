@@ -0,0 +1,153 @@
+
+// --- Types ---
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type ParkingDifficulty = 'Easy' | 'Moderate' | 'Difficult';
+export type CrowdLevel = 'Low' | 'Medium' | 'High';
+export type StopStatus = 'pending' | 'arrived' | 'done';
+export type VehicleType = 'car' | 'bike' | 'foot';
+// Google Maps travel modes; each leg of a route uses one.
+export type TravelMode = 'driving' | 'walking' | 'bicycling' | 'transit';
+// Plan-wide choice: a single mode, or drive between clusters and walk inside them.
+export type TravelModeSetting = TravelMode | 'park-walk';
+
+export interface HouseholdMember {
+  id: string;
+  name: string;
+  // Null means "wherever the app's location fix is".
+  start: LatLng | null;
+  startLabel: string;
+  vehicle: VehicleType;
+  // Availability window, "HH:MM" 24h local time.
+  availableFrom?: string;
+  availableUntil?: string;
+}
+
+export interface SavedPlace {
+  id: string;
+  // What the user calls it: "Home", "Work", "my Safeway".
+  label: string;
+  address: string;
+  // Null until the address has been geocoded.
+  coords: LatLng | null;
+  // Set for stores, so "my Safeway" also counts as a preferred Safeway.
+  brand?: string;
+}
+
+export interface UserPreferences {
+  places: SavedPlace[];
+  // Brand names matched against stop names, case-insensitively.
+  preferredBrands: string[];
+  blockedBrands: string[];
+  // Most extra road distance a single stop may add; null means no limit.
+  maxDetourKm: number | null;
+  // SavedPlace ids. Missing end means the trip ends at the last stop;
+  // missing origin means the device location.
+  defaultEndId?: string;
+  defaultOriginId?: string;
+}
+
+export interface ErrandItem {
+  // Derived from the name, so the same item keeps its id across responses.
+  id: string;
+  // What to buy or do, as the user put it ("AA batteries", "mail this package").
+  name: string;
+  done?: boolean;
+}
+
+export interface ErrandStop {
+  id: string;
+  name: string;
+  address: string;
+  category: string;
+  reason: string;
+  arrivalEstimate: string;
+  parkingDifficulty: ParkingDifficulty;
+  crowdLevel: CrowdLevel;
+  googleMapsUrl: string;
+  lat?: number;
+  lng?: number;
+  // Time window fields are "HH:MM" 24h local time.
+  openFrom?: string;
+  openUntil?: string;
+  mustArriveBy?: string;
+  serviceMinutes?: number;
+  parkingAdvice?: string;
+  trafficNote?: string;
+  // Missing means pending; done stops stay fixed across REROUTE.
+  status?: StopStatus;
+  // HouseholdMember.id of the person running this stop.
+  assigneeId?: string;
+  // Mode of the leg that arrives at this stop.
+  legMode?: TravelMode;
+  // Park-once mode: id of the stop where the car is parked for this cluster.
+  clusterId?: string;
+  // The requested items this stop covers.
+  items?: ErrandItem[];
+}
+
+export interface PlanLeg {
+  // Stop ids; a null fromId is the route's start, a null toId the final leg
+  // home (or to the saved end place).
+  fromId: string | null;
+  toId: string | null;
+  mode: TravelMode;
+  // Null when either end has no coordinates and the leg was guessed.
+  distanceKm: number | null;
+  // Clock values are minutes since midnight.
+  departAt: number;
+  arriveAt: number;
+  travelMinutes: number;
+  // Waiting for the place to open.
+  waitMinutes: number;
+  // Time spent at toId; 0 for the trip home.
+  dwellMinutes: number;
+  // Household plans: whose route the leg belongs to.
+  assigneeId?: string;
+}
+
+export interface PlanTiming {
+  departAt: number;
+  // When the last stop is finished, or when the user is back home.
+  endAt: number;
+  // Set when the route ends with a leg home or to a saved end place.
+  returnAt?: number;
+  legs: PlanLeg[];
+}
+
+export interface PlanAlternative {
+  original: string;
+  suggested: string;
+  benefit: string;
+}
+
+export interface ErrandPlan {
+  summary: string;
+  stops: ErrandStop[];
+  totalTime: string;
+  // "HH:MM" 24h; when the trip starts, used to simulate arrival times.
+  departureTime?: string;
+  efficiencyScore: number;
+  alternatives?: PlanAlternative[];
+  householdSuggestions?: string[];
+  reasoning: string;
+  // User asked to keep the current stop order; REROUTE must not resequence.
+  orderLocked?: boolean;
+  // The model's notes on what the last REROUTE changed.
+  changeLog?: string[];
+  // Snapshot of the members the stops were split across; each member's route
+  // is their stops in plan order.
+  household?: HouseholdMember[];
+  // Missing means driving.
+  travelMode?: TravelModeSetting;
+  // Computed locally: done stops keep their legs and the rest are simulated
+  // after them; totalTime and each arrivalEstimate are rendered from it.
+  timing?: PlanTiming;
+  // Requested items no stop covers; shown to the user rather than dropped.
+  unassignedItems?: ErrandItem[];
+  // Things the planner could not do, told to the user alongside the plan.
+  notices?: string[];
+}
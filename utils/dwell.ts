@@ -0,0 +1,46 @@
+
+import type { ErrandPlan, ErrandStop } from '../types';
+import { isDone } from './planEdits';
+
+// --- Types ---
+export interface DwellCategory {
+  // Also the translation key suffix, dwell.<id>.
+  id: string;
+  // Tested against the stop's category, then its name.
+  match: RegExp;
+  minutes: number;
+}
+
+// Minutes at a stop, keyed by DwellCategory.id.
+export type DwellDefaults = Record<string, number>;
+
+export const DWELL_CATEGORIES: DwellCategory[] = [
+  { id: 'grocery', match: /grocer|supermarket|market|supermercado|mercado/i, minutes: 25 },
+  { id: 'pharmacy', match: /pharm|drugstore|chemist|farmacia/i, minutes: 10 },
+  { id: 'post', match: /post|mail|shipping|parcel|correos/i, minutes: 10 },
+  { id: 'cafe', match: /caf[eé]|coffee/i, minutes: 10 },
+  { id: 'bank', match: /bank|atm|credit union|banco|cajero/i, minutes: 10 },
+  { id: 'fuel', match: /gas|fuel|petrol|gasolinera/i, minutes: 8 },
+  { id: 'hardware', match: /hardware|home improvement|ferreter[ií]a/i, minutes: 15 },
+  { id: 'cleaner', match: /dry clean|laundr|tintorer[ií]a|lavander[ií]a/i, minutes: 5 },
+  { id: 'shopping', match: /shop|store|retail|gift|mall|tienda|regalo/i, minutes: 20 },
+];
+
+export const DEFAULT_DWELL: DwellDefaults = Object.fromEntries(DWELL_CATEGORIES.map((c) => [c.id, c.minutes]));
+
+export const dwellCategoryFor = (stop: ErrandStop) =>
+  DWELL_CATEGORIES.find((c) => c.match.test(stop.category)) ?? DWELL_CATEGORIES.find((c) => c.match.test(stop.name));
+
+/**
+ * Sets serviceMinutes on pending stops whose category has a configured
+ * default. The user's numbers win over the model's guesses for the
+ * categories they cover; other stops keep what the model said.
+ */
+export const applyDwellDefaults = (plan: ErrandPlan, defaults: DwellDefaults): ErrandPlan => ({
+  ...plan,
+  stops: plan.stops.map((stop) => {
+    const category = isDone(stop) ? undefined : dwellCategoryFor(stop);
+    const minutes = category ? defaults[category.id] ?? category.minutes : undefined;
+    return minutes === undefined ? stop : { ...stop, serviceMinutes: minutes };
+  }),
+});
@@ -0,0 +1,49 @@
+
+import { describe, expect, it } from 'vitest';
+import { createItem, itemId } from './errandItems';
+import { validatePlan } from './planSchema';
+
+describe('itemId', () => {
+  it('keeps letters outside ASCII', () => {
+    expect(itemId('Pañales')).toBe('pañales');
+    expect(itemId('  Café au lait ')).toBe('café-au-lait');
+    expect(itemId('молоко')).toBe('молоко');
+    expect(itemId('pañales')).not.toBe(itemId('panales'));
+  });
+
+  it('treats composed and decomposed accents alike', () => {
+    expect(itemId('cafe\u0301')).toBe(itemId('caf\u00e9'));
+  });
+});
+
+describe('createItem', () => {
+  it('suffixes a different name that slugs to a taken id', () => {
+    const taken = new Map<string, string>();
+    expect(createItem('🍎', taken).id).toBe('item');
+    expect(createItem('🍌', taken).id).toBe('item-2');
+    expect(createItem('🍎', taken).id).toBe('item');
+    expect(createItem('A/B test', taken).id).toBe('a-b-test');
+    expect(createItem('A B test', taken).id).toBe('a-b-test-2');
+  });
+
+  it('keeps the same item on one id regardless of case', () => {
+    const taken = new Map<string, string>();
+    expect(createItem('Milk', taken).id).toBe(createItem('milk ', taken).id);
+  });
+});
+
+describe('plan items', () => {
+  it('keeps items apart across stops when their slugs collide', () => {
+    const { plan } = validatePlan({
+      stops: [
+        { name: 'Farmacia', address: '1 Calle', items: ['pañales', '🧴'] },
+        { name: 'Mercado', address: '2 Calle', items: ['panales', '🍞'] },
+      ],
+      unassignedItems: ['🍞', 'Pañales'],
+    });
+    const ids = plan!.stops.flatMap((s) => s.items!.map((i) => i.id));
+    expect(new Set(ids).size).toBe(4);
+    // Both unassigned entries are already covered by a stop.
+    expect(plan!.unassignedItems).toEqual([]);
+  });
+});
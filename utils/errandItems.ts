@@ -0,0 +1,68 @@
+
+import type { ErrandItem, ErrandPlan, ErrandStop } from '../types';
+
+// Stable across responses so the same item keeps its id (and check mark) on REROUTE.
+// Letters and digits of any script count, so "pañales" and "panales" stay apart.
+export const itemId = (name: string) =>
+  name.normalize('NFC').trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'item';
+
+/**
+ * `taken` maps ids handed out so far in one plan to the name each stands
+ * for; a different name that slugs to a taken id gets a numbered suffix.
+ */
+export const createItem = (name: string, taken?: Map<string, string>): ErrandItem => {
+  const label = name.trim();
+  const key = label.normalize('NFC').toLowerCase();
+  const base = itemId(label);
+  let id = base;
+  if (taken) {
+    for (let n = 2; taken.has(id) && taken.get(id) !== key; n++) id = `${base}-${n}`;
+    taken.set(id, key);
+  }
+  return { id, name: label };
+};
+
+const itemsOf = (stops: ErrandStop[]) => stops.flatMap((s) => s.items ?? []);
+
+/**
+ * Drops unassigned items that some stop now covers and merges duplicates,
+ * keeping the first copy. Call after anything that adds stops or items.
+ */
+export const reconcileItems = (plan: ErrandPlan): ErrandPlan => {
+  if (!plan.unassignedItems) return plan;
+  const covered = new Set(itemsOf(plan.stops).map((i) => i.id));
+  const seen = new Set<string>();
+  const unassignedItems = plan.unassignedItems.filter((item) => {
+    if (covered.has(item.id) || seen.has(item.id)) return false;
+    seen.add(item.id);
+    return true;
+  });
+  return { ...plan, unassignedItems };
+};
+
+/**
+ * Items still to get from stops that are leaving the plan go back to the
+ * unassigned list, so removing a stop never silently drops an errand.
+ */
+export const releaseItems = (plan: ErrandPlan, removed: ErrandStop[]): ErrandPlan => {
+  const released = itemsOf(removed).filter((i) => !i.done);
+  if (!released.length) return plan;
+  return reconcileItems({ ...plan, unassignedItems: [...(plan.unassignedItems ?? []), ...released] });
+};
+
+// Toggles an item wherever it lives: on a stop, or in the unassigned list.
+export const toggleItem = (plan: ErrandPlan, id: string): ErrandPlan => {
+  const flip = (items?: ErrandItem[]) => items?.map((i) => (i.id === id ? { ...i, done: !i.done } : i));
+  return {
+    ...plan,
+    stops: plan.stops.map((s) => (s.items?.some((i) => i.id === id) ? { ...s, items: flip(s.items) } : s)),
+    unassignedItems: flip(plan.unassignedItems),
+  };
+};
+
+export const itemProgress = (plan: ErrandPlan) => {
+  const all = [...itemsOf(plan.stops), ...(plan.unassignedItems ?? [])];
+  return { done: all.filter((i) => i.done).length, total: all.length };
+};
+
+export const openUnassignedItems = (plan: ErrandPlan) => (plan.unassignedItems ?? []).filter((i) => !i.done);
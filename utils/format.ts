@@ -0,0 +1,6 @@
+
+// Model output is untrusted; never hand React an object or undefined.
+export const renderVal = (val: any) => {
+  if (val === undefined || val === null) return '';
+  return String(val);
+};
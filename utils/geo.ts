@@ -0,0 +1,39 @@
+
+import type { ErrandStop, LatLng } from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Great-circle distance; good enough for ranking errand legs inside a city.
+export const haversineKm = (a: LatLng, b: LatLng) => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const stopCoords = (stop: ErrandStop): LatLng | null =>
+  typeof stop.lat === 'number' && typeof stop.lng === 'number'
+    ? { lat: stop.lat, lng: stop.lng }
+    : null;
+
+// Straight-line distances undercount real streets; these keep estimates honest.
+const ROAD_DETOUR_FACTOR = 1.3;
+export const AVERAGE_DRIVING_KMH = 30;
+
+export const estimateRoadKm = (km: number) => km * ROAD_DETOUR_FACTOR;
+
+export const estimateTravelMinutes = (km: number, speedKmh = AVERAGE_DRIVING_KMH) =>
+  Math.round((estimateRoadKm(km) / speedKmh) * 60);
+
+// Two decimals is a cell of about 1.1 km north-south: enough for nearby stores, not for a street address.
+export const COARSE_GRID_DEGREES = 0.01;
+
+/** Snaps a position to the centre of its grid cell, so every point in the cell reports the same place. */
+export const coarsenLatLng = ({ lat, lng }: LatLng, grid = COARSE_GRID_DEGREES): LatLng => ({
+  lat: Number(((Math.floor(lat / grid) + 0.5) * grid).toFixed(6)),
+  lng: Number(((Math.floor(lng / grid) + 0.5) * grid).toFixed(6)),
+});
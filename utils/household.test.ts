@@ -0,0 +1,122 @@
+
+import { describe, expect, it } from 'vitest';
+import type { ErrandPlan, ErrandStop, HouseholdMember, LatLng } from '../types';
+import { readHouseholdMembers, reassignStop, splitAcrossHousehold } from './household';
+
+const origin = { lat: 0, lng: 0 };
+// Points along the equator, `x` tenths of a km east (negative is west).
+const east = (x: number): LatLng => ({ lat: 0, lng: x / 1111.95 });
+
+const stop = (id: string, coords: LatLng, extra: Partial<ErrandStop> = {}): ErrandStop => ({
+  id,
+  name: id,
+  address: '',
+  category: 'Errand',
+  reason: '',
+  arrivalEstimate: '',
+  parkingDifficulty: 'Easy',
+  crowdLevel: 'Low',
+  googleMapsUrl: '',
+  ...coords,
+  ...extra,
+});
+
+const member = (id: string, start: LatLng | null, extra: Partial<HouseholdMember> = {}): HouseholdMember => ({
+  id,
+  name: id,
+  start,
+  startLabel: '',
+  vehicle: 'car',
+  ...extra,
+});
+
+const planOf = (stops: ErrandStop[]): ErrandPlan => ({
+  summary: '',
+  stops,
+  totalTime: '',
+  departureTime: '09:00',
+  efficiencyScore: 100,
+  reasoning: '',
+});
+
+const assignees = (plan: ErrandPlan) => Object.fromEntries(plan.stops.map((s) => [s.id, s.assigneeId]));
+
+describe('splitAcrossHousehold', () => {
+  const west = member('west', east(-100));
+  const eastSide = member('east', east(100));
+
+  it('gives each cluster of stops to the member who starts nearest', () => {
+    const plan = planOf([stop('w1', east(-90)), stop('e1', east(90)), stop('w2', east(-92)), stop('e2', east(92))]);
+    expect(assignees(splitAcrossHousehold(plan, [west, eastSide], origin))).toEqual({ w1: 'west', w2: 'west', e1: 'east', e2: 'east' });
+  });
+
+  it('keeps stops within the bundle radius with one person, even in a chain', () => {
+    // Each stop is 300 m from the next, so the ends are 900 m apart but still one bundle.
+    const plaza = [stop('a', east(1)), stop('b', east(4)), stop('c', east(7)), stop('d', east(10))];
+    const both = [member('one', origin), member('two', origin)];
+    const split = splitAcrossHousehold(planOf(plaza), both, origin);
+    expect(new Set(split.stops.map((s) => s.assigneeId)).size).toBe(1);
+  });
+
+  it('evens out the work between people starting at the same place', () => {
+    const plan = planOf([stop('w', east(-50)), stop('e', east(50))]);
+    const split = splitAcrossHousehold(plan, [member('one', origin), member('two', origin)], origin);
+    expect(new Set(Object.values(assignees(split)))).toEqual(new Set(['one', 'two']));
+  });
+
+  it('moves stops away from someone who would run past their availability', () => {
+    const plan = planOf([stop('w1', east(-90)), stop('w2', east(-60)), stop('w3', east(-30))]);
+    const busy = member('busy', east(-100), { availableUntil: '09:05' });
+    const free = member('free', origin);
+    expect(Object.values(assignees(splitAcrossHousehold(plan, [busy, free], origin)))).toEqual(['free', 'free', 'free']);
+  });
+
+  it('leaves existing assignees alone with keepAssignments', () => {
+    const plan = planOf([stop('w1', east(-90), { assigneeId: 'east' })]);
+    expect(assignees(splitAcrossHousehold(plan, [west, eastSide], origin))).toEqual({ w1: 'west' });
+    expect(assignees(splitAcrossHousehold(plan, [west, eastSide], origin, { keepAssignments: true }))).toEqual({ w1: 'east' });
+  });
+
+  it('keeps done stops in front of each route, and orphaned ones first', () => {
+    const plan = planOf([
+      stop('w1', east(-90)),
+      stop('done-west', east(-95), { status: 'done', assigneeId: 'west' }),
+      stop('done-gone', east(0), { status: 'done', assigneeId: 'moved-out' }),
+      stop('e1', east(90)),
+    ]);
+    const split = splitAcrossHousehold(plan, [west, eastSide], origin);
+    expect(split.stops.map((s) => s.id)).toEqual(['done-gone', 'done-west', 'w1', 'e1']);
+    expect(split.household).toEqual([west, eastSide]);
+    expect(split.timing?.legs.map((l) => l.assigneeId)).toEqual(['west', 'east']);
+  });
+
+  it('leaves the plan alone for a household of one', () => {
+    const plan = planOf([stop('a', east(1))]);
+    expect(splitAcrossHousehold(plan, [west], origin)).toBe(plan);
+  });
+});
+
+describe('reassignStop', () => {
+  it('moves a stop to the end of the other member’s route', () => {
+    const plan = {
+      ...planOf([stop('a', east(1), { assigneeId: 'one' }), stop('b', east(2), { assigneeId: 'two' }), stop('c', east(3), { assigneeId: 'one' })]),
+      household: [member('one', origin), member('two', origin, { vehicle: 'bike' })],
+    };
+    const moved = reassignStop(plan, 'a', 'two');
+    expect(moved.stops.map((s) => s.id)).toEqual(['b', 'a', 'c']);
+    expect(moved.stops[1]).toMatchObject({ assigneeId: 'two', legMode: 'bicycling' });
+    expect(reassignStop(plan, 'b', 'two')).toBe(plan);
+  });
+});
+
+describe('readHouseholdMembers', () => {
+  it('drops malformed members and defaults unknown fields', () => {
+    const members = readHouseholdMembers([
+      { id: 'a', name: 'Ana', vehicle: 'rocket', start: { lat: 'north', lng: 2 } },
+      { id: 'b' },
+      'nobody',
+    ]);
+    expect(members).toEqual([{ id: 'a', name: 'Ana', start: null, startLabel: '', vehicle: 'car', availableFrom: undefined, availableUntil: undefined }]);
+    expect(readHouseholdMembers({ id: 'a' })).toEqual([]);
+  });
+});
@@ -0,0 +1,299 @@
+
+import type { ErrandPlan, ErrandStop, HouseholdMember, LatLng, PlanLeg, TravelMode, VehicleType } from '../types';
+import { haversineKm, stopCoords } from './geo';
+import { isDone, UNKNOWN_LEG_MINUTES } from './planEdits';
+import { applyStopOrder, solveRouteOrder } from './routeOptimizer';
+import { formatClock, formatDuration, minutesSinceMidnight, parseClock } from './time';
+import { hasTimeWindow, simulateSchedule, solveTimeWindows } from './timeWindows';
+import { MODE_SPEED_KMH } from './travelModes';
+import { legsFromSchedule } from './planTiming';
+import { isRecord } from './planSchema';
+
+// --- Types ---
+export interface MemberRoute {
+  member: HouseholdMember;
+  // Every stop assigned to the member, done ones included, in plan order.
+  stops: ErrandStop[];
+  startAt: number;
+  // When the member finishes their remaining stops; equals startAt when idle.
+  endAt: number;
+  // Minutes past the member's availableUntil.
+  overtimeMinutes: number;
+}
+
+export const VEHICLE_MODE: Record<VehicleType, TravelMode> = { car: 'driving', bike: 'bicycling', foot: 'walking' };
+const vehicleSpeed = (member: HouseholdMember) => MODE_SPEED_KMH[VEHICLE_MODE[member.vehicle]];
+export const VEHICLE_TYPES: VehicleType[] = ['car', 'bike', 'foot'];
+
+// Route colours on the map and in the household panel, by member position.
+const MEMBER_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#06b6d4', '#a855f7'];
+export const memberColor = (index: number) => MEMBER_COLORS[index % MEMBER_COLORS.length];
+
+// Stops this close (same plaza or block) form one bundle and go to one person.
+export const BUNDLE_RADIUS_KM = 0.4;
+
+const MAX_REBALANCE_PASSES = 20;
+
+export const isHouseholdPlan = (plan: ErrandPlan) => (plan.household?.length ?? 0) > 1;
+
+export const createHouseholdMember = (name: string, vehicle: VehicleType = 'car'): HouseholdMember => ({
+  id: `member-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  start: null,
+  startLabel: '',
+  vehicle,
+});
+
+// Drops anything malformed so a hand-edited entry cannot break the split.
+const readMember = (raw: unknown): HouseholdMember | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') return null;
+  const { start } = raw;
+  const validStart = isRecord(start) && Number.isFinite(start.lat) && Number.isFinite(start.lng)
+    ? { lat: start.lat as number, lng: start.lng as number }
+    : null;
+  return {
+    id: raw.id,
+    name: raw.name,
+    start: validStart,
+    startLabel: typeof raw.startLabel === 'string' ? raw.startLabel : '',
+    vehicle: VEHICLE_TYPES.includes(raw.vehicle as VehicleType) ? (raw.vehicle as VehicleType) : 'car',
+    availableFrom: typeof raw.availableFrom === 'string' ? raw.availableFrom : undefined,
+    availableUntil: typeof raw.availableUntil === 'string' ? raw.availableUntil : undefined,
+  };
+};
+
+export const readHouseholdMembers = (raw: unknown): HouseholdMember[] =>
+  Array.isArray(raw) ? raw.map(readMember).filter((m): m is HouseholdMember => m !== null) : [];
+
+const clockOf = (val?: string) => (val ? parseClock(val) : null);
+
+const memberDepartAt = (member: HouseholdMember, departAt: number) =>
+  Math.max(departAt, clockOf(member.availableFrom) ?? departAt);
+
+// Falls back to the first mapped stop; with nothing mapped every leg is unknown
+// and the anchor is never measured against.
+const routeAnchor = (member: HouseholdMember, origin: LatLng | null, stops: ErrandStop[]): LatLng =>
+  member.start ?? origin ?? stops.map(stopCoords).find((c): c is LatLng => c !== null) ?? { lat: 0, lng: 0 };
+
+const scheduleFor = (member: HouseholdMember, stops: ErrandStop[], origin: LatLng | null, departAt: number) => {
+  const startAt = memberDepartAt(member, departAt);
+  const schedule = stops.length
+    ? simulateSchedule(routeAnchor(member, origin, stops), stops, startAt, {
+        unknownLegMinutes: UNKNOWN_LEG_MINUTES,
+        speedKmh: vehicleSpeed(member),
+      })
+    : null;
+  const endAt = schedule?.endAt ?? startAt;
+  const until = clockOf(member.availableUntil);
+  return { schedule, startAt, endAt, overtimeMinutes: until !== null ? Math.max(0, endAt - until) : 0 };
+};
+
+/**
+ * Visiting order for one member's stops. Uses the time-window solver when
+ * windows are involved and everything is mapped; otherwise distance only,
+ * with unmapped stops last.
+ */
+const orderMemberStops = (
+  member: HouseholdMember,
+  stops: ErrandStop[],
+  origin: LatLng | null,
+  departAt: number,
+  withWindows: boolean
+) => {
+  if (stops.length < 2) return stops;
+  const anchor = routeAnchor(member, origin, stops);
+  const mapped = stops.filter((s) => stopCoords(s));
+  const unmapped = stops.filter((s) => !stopCoords(s));
+  if (withWindows && !unmapped.length && mapped.some(hasTimeWindow)) {
+    const solution = solveTimeWindows(anchor, mapped, memberDepartAt(member, departAt), {
+      speedKmh: vehicleSpeed(member),
+    });
+    if (solution) return applyStopOrder(mapped, solution.order);
+  }
+  const { order } = solveRouteOrder(anchor, mapped.map((s) => stopCoords(s) as LatLng));
+  return [...order.map((i) => mapped[i]), ...unmapped];
+};
+
+// Union-find over "within BUNDLE_RADIUS_KM of each other".
+const bundleStops = (stops: ErrandStop[]): ErrandStop[][] => {
+  const parent = stops.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const coords = stops.map(stopCoords);
+  for (let i = 0; i < stops.length; i++) {
+    for (let j = i + 1; j < stops.length; j++) {
+      const a = coords[i];
+      const b = coords[j];
+      if (a && b && haversineKm(a, b) <= BUNDLE_RADIUS_KM) parent[find(i)] = find(j);
+    }
+  }
+  const groups = new Map<number, ErrandStop[]>();
+  stops.forEach((stop, i) => groups.set(find(i), [...(groups.get(find(i)) ?? []), stop]));
+  return [...groups.values()];
+};
+
+// Lexicographic: least overtime, then earliest household finish, then least total effort.
+type SplitScore = [number, number, number];
+const isBetterSplit = (a: SplitScore, b: SplitScore) => {
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return a[i] < b[i];
+  return false;
+};
+
+/**
+ * Splits the pending stops into one route per household member. Nearby stops
+ * are bundled so they stay with one person; bundles go greedily to whoever
+ * they cost least, then single bundles move between people while that lowers
+ * overtime, the household's finish time or total effort. Existing (or
+ * model-suggested) assignees seed the split; with `keepAssignments` they are
+ * left alone and only unassigned stops are placed. Each member's stops are
+ * then ordered from their own start and grouped together in `plan.stops`.
+ */
+export const splitAcrossHousehold = (
+  plan: ErrandPlan,
+  members: HouseholdMember[],
+  origin: LatLng | null,
+  { keepAssignments = false }: { keepAssignments?: boolean } = {}
+): ErrandPlan => {
+  if (members.length < 2) return plan;
+  const departAt = clockOf(plan.departureTime) ?? minutesSinceMidnight(new Date());
+  const memberIds = new Set(members.map((m) => m.id));
+  const validAssignee = (stop: ErrandStop) => (stop.assigneeId && memberIds.has(stop.assigneeId) ? stop.assigneeId : undefined);
+
+  const bundles = bundleStops(plan.stops.filter((s) => !isDone(s)));
+  const assignment = new Map<ErrandStop[], string>();
+  const fixed = new Set<ErrandStop[]>();
+  bundles.forEach((bundle) => {
+    const votes = new Map<string, number>();
+    bundle.forEach((s) => {
+      const id = validAssignee(s);
+      if (id) votes.set(id, (votes.get(id) ?? 0) + 1);
+    });
+    const seed = [...votes.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    if (!seed) return;
+    assignment.set(bundle, seed);
+    if (keepAssignments) fixed.add(bundle);
+  });
+
+  const stopsOf = (memberId: string) => bundles.filter((b) => assignment.get(b) === memberId).flat();
+  const evaluate = (): SplitScore => {
+    let overtime = 0;
+    let finish = departAt;
+    let effort = 0;
+    members.forEach((member) => {
+      const mine = stopsOf(member.id);
+      const { startAt, endAt, overtimeMinutes } = scheduleFor(member, orderMemberStops(member, mine, origin, departAt, false), origin, departAt);
+      overtime += overtimeMinutes;
+      if (mine.length) finish = Math.max(finish, endAt);
+      effort += endAt - startAt;
+    });
+    return [overtime, finish, effort];
+  };
+
+  // Largest bundles first, so small ones can even out what is left.
+  bundles
+    .filter((b) => !assignment.has(b))
+    .sort((a, b) => b.length - a.length)
+    .forEach((bundle) => {
+      let bestId = members[0].id;
+      let best: SplitScore | null = null;
+      members.forEach((member) => {
+        assignment.set(bundle, member.id);
+        const score = evaluate();
+        if (!best || isBetterSplit(score, best)) {
+          best = score;
+          bestId = member.id;
+        }
+      });
+      assignment.set(bundle, bestId);
+    });
+
+  let current = evaluate();
+  for (let pass = 0, improved = true; improved && pass < MAX_REBALANCE_PASSES; pass++) {
+    improved = false;
+    bundles.forEach((bundle) => {
+      if (fixed.has(bundle)) return;
+      members.forEach((member) => {
+        if (member.id === assignment.get(bundle)) return;
+        const previous = assignment.get(bundle) as string;
+        assignment.set(bundle, member.id);
+        const score = evaluate();
+        if (isBetterSplit(score, current)) {
+          current = score;
+          improved = true;
+        } else {
+          assignment.set(bundle, previous);
+        }
+      });
+    });
+  }
+
+  const stops = members.flatMap((member) => {
+    const done = plan.stops.filter((s) => isDone(s) && validAssignee(s) === member.id);
+    const mine = plan.stops.filter((s) => !isDone(s) && bundles.some((b) => b.includes(s) && assignment.get(b) === member.id));
+    const ordered = plan.orderLocked ? mine : orderMemberStops(member, mine, origin, departAt, true);
+    return [...done, ...ordered.map(({ clusterId, ...s }) => ({ ...s, assigneeId: member.id, legMode: VEHICLE_MODE[member.vehicle] }))];
+  });
+  // Done stops of people no longer in the household stay at the front.
+  const orphaned = plan.stops.filter((s) => isDone(s) && !validAssignee(s));
+
+  return recomputeHouseholdTimes({ ...plan, household: members, stops: [...orphaned, ...stops] }, origin);
+};
+
+export const memberRoutes = (plan: ErrandPlan, origin: LatLng | null): MemberRoute[] => {
+  const departAt = clockOf(plan.departureTime) ?? minutesSinceMidnight(new Date());
+  return (plan.household ?? []).map((member) => {
+    const stops = plan.stops.filter((s) => s.assigneeId === member.id);
+    const { startAt, endAt, overtimeMinutes } = scheduleFor(member, stops.filter((s) => !isDone(s)), origin, departAt);
+    return { member, stops, startAt, endAt, overtimeMinutes };
+  });
+};
+
+export const unassignedStops = (plan: ErrandPlan) => {
+  const ids = new Set((plan.household ?? []).map((m) => m.id));
+  return plan.stops.filter((s) => !s.assigneeId || !ids.has(s.assigneeId));
+};
+
+/**
+ * Household counterpart of recomputeTimes: every member's pending stops are
+ * simulated from their own start, vehicle and availability, and their legs
+ * tagged with the member. totalTime is the household's finish time, measured
+ * from the plan's departure.
+ */
+export const recomputeHouseholdTimes = (plan: ErrandPlan, origin: LatLng | null): ErrandPlan => {
+  const departAt = clockOf(plan.departureTime);
+  if (departAt === null || !isHouseholdPlan(plan)) return plan;
+
+  const arrivals = new Map<string, number>();
+  const legs: PlanLeg[] = [];
+  let finish = departAt;
+  memberRoutes(plan, origin).forEach(({ member, stops }) => {
+    const pending = stops.filter((s) => !isDone(s));
+    const { schedule, endAt } = scheduleFor(member, pending, origin, departAt);
+    if (!schedule) return;
+    schedule.visits.forEach((v) => arrivals.set(v.stopId, v.arriveAt));
+    legs.push(...legsFromSchedule(pending, schedule, VEHICLE_MODE[member.vehicle], member.id));
+    finish = Math.max(finish, endAt);
+  });
+
+  return {
+    ...plan,
+    stops: plan.stops.map((stop) =>
+      arrivals.has(stop.id) ? { ...stop, arrivalEstimate: formatClock(arrivals.get(stop.id) as number) } : stop
+    ),
+    totalTime: formatDuration(finish - departAt),
+    timing: { departAt, endAt: finish, legs },
+  };
+};
+
+// Hands a stop to another member, appending it to the end of their route.
+export const reassignStop = (plan: ErrandPlan, stopId: string, memberId: string): ErrandPlan => {
+  const stop = plan.stops.find((s) => s.id === stopId);
+  if (!stop || stop.assigneeId === memberId) return plan;
+  const rest = plan.stops.filter((s) => s.id !== stopId);
+  let insertAt = rest.length;
+  rest.forEach((s, i) => {
+    if (s.assigneeId === memberId) insertAt = i + 1;
+  });
+  const member = plan.household?.find((m) => m.id === memberId);
+  const moved = { ...stop, assigneeId: memberId, legMode: member ? VEHICLE_MODE[member.vehicle] : stop.legMode };
+  return { ...plan, stops: [...rest.slice(0, insertAt), moved, ...rest.slice(insertAt)] };
+};
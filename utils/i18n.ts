@@ -0,0 +1,75 @@
+
+import en from '../locales/en';
+import es from '../locales/es';
+
+// --- Types ---
+export type MessageKey = keyof typeof en;
+export type LanguageId = 'en' | 'es';
+export type ClockStyle = '12h' | '24h';
+export type DistanceUnit = 'km' | 'mi';
+
+export interface LocaleSettings {
+  // UI strings and the language the model writes the plan in.
+  language: LanguageId;
+  // BCP 47 tag for speech recognition, e.g. "es-MX".
+  speechLang: string;
+  clock: ClockStyle;
+  units: DistanceUnit;
+}
+
+export const LANGUAGES: { id: LanguageId; label: string; promptName: string; speechLangs: string[] }[] = [
+  { id: 'en', label: 'English', promptName: 'English', speechLangs: ['en-US', 'en-GB', 'en-AU', 'en-IN'] },
+  { id: 'es', label: 'Español', promptName: 'Spanish', speechLangs: ['es-ES', 'es-MX', 'es-US', 'es-AR'] },
+];
+
+const CATALOGS: Record<LanguageId, Record<MessageKey, string>> = { en, es };
+
+const KM_PER_MILE = 1.609344;
+
+/**
+ * Best guess from the browser language: Spanish speakers get Spanish, the
+ * US keeps 12h clocks and miles, everyone else 24h and kilometres.
+ */
+export const detectLocale = (browserLang = typeof navigator === 'undefined' ? 'en-US' : navigator.language): LocaleSettings => {
+  const language: LanguageId = browserLang.toLowerCase().startsWith('es') ? 'es' : 'en';
+  const speechLangs = LANGUAGES.find((l) => l.id === language)?.speechLangs ?? [];
+  const isUS = /-US$/i.test(browserLang);
+  return {
+    language,
+    speechLang: speechLangs.includes(browserLang) ? browserLang : speechLangs[0],
+    clock: isUS || browserLang === 'en' ? '12h' : '24h',
+    units: isUS ? 'mi' : 'km',
+  };
+};
+
+// Module-level so utils can format and translate without threading the
+// locale through every call; set at startup and when the user saves a change.
+let active: LocaleSettings = detectLocale();
+
+export const setActiveLocale = (settings: LocaleSettings) => {
+  active = settings;
+};
+
+export const getActiveLocale = () => active;
+
+/** Looks up `key` in the active language, filling `{name}` placeholders from `vars`. */
+export const t = (key: MessageKey, vars?: Record<string, string | number>) => {
+  const text = CATALOGS[active.language][key] ?? en[key];
+  return vars ? text.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match)) : text;
+};
+
+export const tCount = (count: number, one: MessageKey, other: MessageKey) => t(count === 1 ? one : other, { count });
+
+// Parking and crowd levels come from the model; unknown values are shown as sent.
+export const levelLabel = (level: unknown) => {
+  const key = `level.${level}`;
+  if (key in en) return t(key as MessageKey);
+  return level === undefined || level === null ? '' : String(level);
+};
+
+export const kmToDisplay = (km: number) => (active.units === 'mi' ? km / KM_PER_MILE : km);
+
+export const displayToKm = (value: number) => (active.units === 'mi' ? value * KM_PER_MILE : value);
+
+// "2.4 km" / "1.5 mi".
+export const formatDistance = (km: number, digits = 1) => `${kmToDisplay(km).toFixed(digits)} ${active.units}`;
@@ -0,0 +1,72 @@
+
+import type { LatLng } from '../types';
+
+// --- Types ---
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface MapViewport {
+  width: number;
+  height: number;
+  zoom: number;
+  // World pixel at the viewport centre, at `zoom`.
+  center: Point;
+}
+
+export const TILE_SIZE = 256;
+const MAX_ZOOM = 17;
+// Fallback span for a single point so the map does not zoom to street level.
+const MIN_SPAN_DEG = 0.01;
+
+// Web Mercator world pixel coordinates; matches slippy-map tile numbering.
+export const toWorldPx = ({ lat, lng }: LatLng, zoom: number): Point => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.min(0.9999, Math.max(-0.9999, Math.sin((lat * Math.PI) / 180)));
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+/**
+ * Picks the zoom and centre that fit every point inside width x height
+ * with `padding` on each side. `integerZoom` snaps down for tile layers.
+ */
+export const fitViewport = (
+  points: LatLng[],
+  width: number,
+  height: number,
+  { padding = 40, integerZoom = false }: { padding?: number; integerZoom?: boolean } = {}
+): MapViewport => {
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  let [south, north] = [Math.min(...lats), Math.max(...lats)];
+  let [west, east] = [Math.min(...lngs), Math.max(...lngs)];
+  if (north - south < MIN_SPAN_DEG) [south, north] = [south - MIN_SPAN_DEG / 2, north + MIN_SPAN_DEG / 2];
+  if (east - west < MIN_SPAN_DEG) [west, east] = [west - MIN_SPAN_DEG / 2, east + MIN_SPAN_DEG / 2];
+
+  const nw = toWorldPx({ lat: north, lng: west }, 0);
+  const se = toWorldPx({ lat: south, lng: east }, 0);
+  const fitX = Math.log2((width - 2 * padding) / (se.x - nw.x));
+  const fitY = Math.log2((height - 2 * padding) / (se.y - nw.y));
+  let zoom = Math.min(MAX_ZOOM, fitX, fitY);
+  if (integerZoom) zoom = Math.max(0, Math.floor(zoom));
+
+  const scale = 2 ** zoom;
+  return {
+    width,
+    height,
+    zoom,
+    center: { x: ((nw.x + se.x) / 2) * scale, y: ((nw.y + se.y) / 2) * scale },
+  };
+};
+
+export const projectToViewport = (point: LatLng, viewport: MapViewport): Point => {
+  const world = toWorldPx(point, viewport.zoom);
+  return {
+    x: world.x - viewport.center.x + viewport.width / 2,
+    y: world.y - viewport.center.y + viewport.height / 2,
+  };
+};
@@ -0,0 +1,54 @@
+
+import type { ErrandPlan, ErrandStop, LatLng, TravelModeSetting } from '../types';
+import { stopCoords } from './geo';
+import { planTravelMode } from './travelModes';
+
+const DIRECTIONS_BASE = 'https://www.google.com/maps/dir/?api=1';
+
+/**
+ * Whether a link from model output or storage may become an href: https
+ * only (no javascript:, data: or plain http) and no credentials in the URL.
+ */
+export const isSafeExternalUrl = (url: unknown): url is string => {
+  if (typeof url !== 'string') return false;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && !parsed.username && !parsed.password;
+  } catch {
+    return false;
+  }
+};
+
+// What Maps routes to: the address, else the coordinates; null for a stop with neither.
+const place = (stop: ErrandStop) => {
+  if (typeof stop.address === 'string' && stop.address.trim()) return stop.address.trim();
+  const coords = stopCoords(stop);
+  return coords ? `${coords.lat},${coords.lng}` : null;
+};
+
+/**
+ * Google Maps directions link from `origin` through `stops` in order. With
+ * no origin, Maps starts from the device's location. Park-once routes are
+ * driven between parking stops only, since the walking part needs no
+ * navigation. Maps ignores waypoints for transit, so transit links go to the
+ * next stop. Stops with neither an address nor coordinates are left out.
+ */
+export const buildDirectionsUrl = (origin: LatLng | null, stops: ErrandStop[], mode: TravelModeSetting = 'driving') => {
+  let route = stops.filter((s) => place(s) !== null);
+  if (mode === 'park-walk') route = route.filter((s) => !s.clusterId || s.clusterId === s.id);
+  if (mode === 'transit') route = route.slice(0, 1);
+  if (!route.length) return DIRECTIONS_BASE;
+
+  const params = new URLSearchParams();
+  if (origin) params.set('origin', `${origin.lat},${origin.lng}`);
+  params.set('destination', place(route[route.length - 1]));
+  if (route.length > 1) params.set('waypoints', route.slice(0, -1).map(place).join('|'));
+  params.set('travelmode', mode === 'park-walk' ? 'driving' : mode);
+  return `${DIRECTIONS_BASE}&${params.toString()}`;
+};
+
+/** Directions through the stops of `plan` not yet done, in its own travel mode; "#" without a plan. */
+export const buildPlanDirectionsUrl = (plan: ErrandPlan | null, origin: LatLng | null) => {
+  if (!plan?.stops) return '#';
+  return buildDirectionsUrl(origin, plan.stops.filter((s) => s.status !== 'done'), planTravelMode(plan));
+};
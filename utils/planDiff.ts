@@ -0,0 +1,34 @@
+
+import type { ErrandPlan, ErrandStop } from '../types';
+
+// --- Types ---
+export interface PlanDiff {
+  addedIds: string[];
+  // Positions moved, by stop id: positive means earlier than before.
+  movedBy: Record<string, number>;
+  removed: ErrandStop[];
+  notes: string[];
+}
+
+export const diffPlans = (before: ErrandPlan, after: ErrandPlan): PlanDiff => {
+  const oldIndex = new Map(before.stops.map((s, i) => [s.id, i]));
+  const newIds = new Set(after.stops.map((s) => s.id));
+  const movedBy: Record<string, number> = {};
+  const addedIds: string[] = [];
+
+  after.stops.forEach((stop, i) => {
+    const was = oldIndex.get(stop.id);
+    if (was === undefined) addedIds.push(stop.id);
+    else if (was !== i) movedBy[stop.id] = was - i;
+  });
+
+  return {
+    addedIds,
+    movedBy,
+    removed: before.stops.filter((s) => !newIds.has(s.id)),
+    notes: after.changeLog ?? [],
+  };
+};
+
+export const hasChanges = (diff: PlanDiff) =>
+  diff.addedIds.length > 0 || diff.removed.length > 0 || Object.keys(diff.movedBy).length > 0 || diff.notes.length > 0;
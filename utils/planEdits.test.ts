@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { ErrandPlan } from '../types';
+import { createManualStop, insertStop, moveStop, recomputeTimes, removeStop, toggleStopDone } from './planEdits';
+import { validatePlan } from './planSchema';
+import { parseClock } from './time';
+
+const origin = { lat: 37.7749, lng: -122.4194 };
+
+const plan = {
+  ...(validatePlan({
+    summary: 'Two stops',
+    stops: [
+      { id: '1', name: 'Fresh Market', address: '1 Oak St', category: 'Grocery', lat: 37.78, lng: -122.41, serviceMinutes: 30 },
+      { id: '2', name: 'Corner Pharmacy', address: '2 Pine St', category: 'Pharmacy', lat: 37.77, lng: -122.43 },
+    ],
+  }).plan as ErrandPlan),
+  departureTime: '09:00',
+};
+
+const arrival = (shown: ErrandPlan, id: string) => parseClock(shown.stops.find((s) => s.id === id)?.arrivalEstimate ?? '');
+
+describe('recomputeTimes', () => {
+  it('keeps pending stops after the time spent at done ones', () => {
+    const timed = recomputeTimes(plan, origin);
+    const afterDone = recomputeTimes(toggleStopDone(timed, '1'), origin);
+
+    expect(arrival(afterDone, '1')).toBe(arrival(timed, '1'));
+    expect(arrival(afterDone, '2')).toBe(arrival(timed, '2'));
+    expect(afterDone.totalTime).toBe(timed.totalTime);
+    expect(afterDone.timing?.legs.map((l) => [l.fromId, l.toId])).toEqual([[null, '1'], ['1', '2']]);
+  });
+
+  it('resumes from the done stop when it has no leg to read', () => {
+    const timed = recomputeTimes(plan, origin);
+    const doneFirst = toggleStopDone({ ...timed, timing: undefined }, '1');
+    expect(arrival(recomputeTimes(doneFirst, origin), '2')).toBe(arrival(timed, '2'));
+  });
+
+  it('ends at the done stop once nothing is pending', () => {
+    const timed = recomputeTimes(plan, origin);
+    const allDone = recomputeTimes(toggleStopDone(toggleStopDone(timed, '1'), '2'), origin);
+    expect(allDone.totalTime).toBe(timed.totalTime);
+    expect(allDone.timing?.legs).toHaveLength(2);
+  });
+});
+
+describe('stop edits', () => {
+  const ids = (edited: ErrandPlan) => edited.stops.map((s) => s.id);
+
+  it('moves a stop and re-times the new order', () => {
+    const timed = recomputeTimes(plan, origin);
+    const moved = recomputeTimes(moveStop(timed, 1, 0), origin);
+    expect(ids(moved)).toEqual(['2', '1']);
+    expect(moved.timing?.legs.map((l) => [l.fromId, l.toId])).toEqual([[null, '2'], ['2', '1']]);
+    expect(arrival(moved, '2')).toBeLessThan(arrival(timed, '2') as number);
+  });
+
+  it('leaves the plan alone for a move out of range', () => {
+    expect(moveStop(plan, 5, 0)).toBe(plan);
+    expect(ids(moveStop(plan, 0, 9))).toEqual(['2', '1']);
+  });
+
+  it('keeps the items of a removed stop as unassigned', () => {
+    const withItems = {
+      ...plan,
+      stops: plan.stops.map((s) => (s.id === '1' ? { ...s, items: [{ id: 'milk', name: 'Milk', done: false }] } : s)),
+    };
+    const removed = removeStop(withItems, '1');
+    expect(ids(removed)).toEqual(['2']);
+    expect(removed.unassignedItems?.map((i) => i.id)).toEqual(['milk']);
+  });
+
+  it('inserts a manual stop and times it', () => {
+    const manual = createManualStop('10 Elm St, Springfield', { lat: 37.775, lng: -122.42 });
+    expect(manual).toMatchObject({ name: '10 Elm St', category: 'Manual', lat: 37.775 });
+    const inserted = recomputeTimes(insertStop(plan, manual, 1), origin);
+    expect(ids(inserted)).toEqual(['1', manual.id, '2']);
+    expect(arrival(inserted, manual.id)).not.toBeNull();
+    expect(arrival(inserted, '2')).toBeGreaterThan(arrival(recomputeTimes(plan, origin), '2') as number);
+  });
+});
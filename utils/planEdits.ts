@@ -0,0 +1,112 @@
+
+import type { ErrandPlan, ErrandStop, LatLng } from '../types';
+import { haversineKm, stopCoords } from './geo';
+import { buildPlaceUrl } from './planSchema';
+import { formatClock, formatDuration, parseClock } from './time';
+import { DEFAULT_SERVICE_MINUTES, simulateSchedule } from './timeWindows';
+import { annotateLegs, baseTravelMode, legMinutesFor, planTravelMode } from './travelModes';
+import { homeLeg, legsFromSchedule, legTo } from './planTiming';
+import { releaseItems } from './errandItems';
+import { t } from './i18n';
+
+// Stand-in drive time for stops we could not geocode.
+export const UNKNOWN_LEG_MINUTES = 10;
+
+export const isDone = (stop: ErrandStop) => stop.status === 'done';
+
+// When the last done stop's visit ended, from its leg or else its arrivalEstimate.
+const doneFinish = (plan: ErrandPlan, stop: ErrandStop) => {
+  const leg = legTo(plan.timing, stop.id);
+  if (leg) return leg.arriveAt + leg.waitMinutes + leg.dwellMinutes;
+  const arriveAt = parseClock(stop.arrivalEstimate);
+  return arriveAt === null ? null : arriveAt + (stop.serviceMinutes ?? DEFAULT_SERVICE_MINUTES);
+};
+
+/**
+ * Rebuilds the plan's typed legs from the local schedule simulation and
+ * renders every pending arrivalEstimate and totalTime from them, so manual
+ * edits never leave stale model times behind.
+ * Done stops keep their times and legs; the rest are scheduled from the last
+ * done stop once its visit is over, or from `origin` at departure.
+ * Legs are re-stamped with their travel mode first, since the order (and so
+ * the park-once clusters) may have changed. With `end` (the origin on a round
+ * trip, or a saved end place) a final leg takes the user there.
+ */
+export const recomputeTimes = (plan: ErrandPlan, origin: LatLng | null, end: LatLng | null = null): ErrandPlan => {
+  plan = annotateLegs(plan);
+  const departAt = parseClock(plan.departureTime ?? '');
+  if (!origin || departAt === null) return plan;
+  const done = plan.stops.filter(isDone);
+  const pending = plan.stops.filter((s) => !isDone(s));
+  const doneLegs = done.map((s) => legTo(plan.timing, s.id)).filter((leg) => leg !== undefined);
+  const lastDone = done[done.length - 1];
+  const resumeAt = lastDone ? Math.max(departAt, doneFinish(plan, lastDone) ?? departAt) : departAt;
+  if (!pending.length) {
+    return { ...plan, totalTime: formatDuration(resumeAt - departAt), timing: { departAt, endAt: resumeAt, legs: doneLegs } };
+  }
+
+  const mode = baseTravelMode(planTravelMode(plan));
+  const legMinutes = legMinutesFor(plan);
+  const from = (lastDone && stopCoords(lastDone)) ?? origin;
+  const schedule = simulateSchedule(from, pending, resumeAt, { unknownLegMinutes: UNKNOWN_LEG_MINUTES, legMinutes });
+  if (!schedule) return plan;
+
+  const pendingLegs = legsFromSchedule(pending, schedule, mode);
+  if (lastDone) pendingLegs[0] = { ...pendingLegs[0], fromId: lastDone.id };
+  if (end) {
+    const last = pending[pending.length - 1];
+    const lastKnown = [...pending].reverse().map(stopCoords).find((c) => c !== null);
+    const km = lastKnown ? haversineKm(lastKnown, end) : null;
+    pendingLegs.push(homeLeg(last, schedule.endAt, km !== null ? legMinutes(last, end, km) : UNKNOWN_LEG_MINUTES, km, mode));
+  }
+  const finalLeg = pendingLegs[pendingLegs.length - 1];
+  const endAt = finalLeg.arriveAt + finalLeg.dwellMinutes;
+
+  const arrivals = new Map(schedule.visits.map((v) => [v.stopId, v.arriveAt]));
+  return {
+    ...plan,
+    stops: plan.stops.map((stop) =>
+      arrivals.has(stop.id) ? { ...stop, arrivalEstimate: formatClock(arrivals.get(stop.id) as number) } : stop
+    ),
+    totalTime: formatDuration(endAt - departAt),
+    timing: { departAt, endAt, ...(end ? { returnAt: endAt } : {}), legs: [...doneLegs, ...pendingLegs] },
+  };
+};
+
+export const toggleStopDone = (plan: ErrandPlan, stopId: string): ErrandPlan => ({
+  ...plan,
+  stops: plan.stops.map((s) => (s.id === stopId ? { ...s, status: isDone(s) ? 'pending' : 'done' } : s)),
+});
+
+export const moveStop = (plan: ErrandPlan, from: number, to: number): ErrandPlan => {
+  if (from === to || from < 0 || from >= plan.stops.length) return plan;
+  const stops = [...plan.stops];
+  const [moved] = stops.splice(from, 1);
+  stops.splice(Math.max(0, Math.min(to, stops.length)), 0, moved);
+  return { ...plan, stops };
+};
+
+export const removeStop = (plan: ErrandPlan, stopId: string): ErrandPlan =>
+  releaseItems({ ...plan, stops: plan.stops.filter((s) => s.id !== stopId) }, plan.stops.filter((s) => s.id === stopId));
+
+export const insertStop = (plan: ErrandPlan, stop: ErrandStop, index = plan.stops.length): ErrandPlan => {
+  const stops = [...plan.stops];
+  stops.splice(index, 0, stop);
+  return { ...plan, stops };
+};
+
+export const createManualStop = (address: string, coords: LatLng | null, label?: string): ErrandStop => {
+  const name = label?.trim() || address.split(',')[0].trim();
+  return {
+    id: `manual-${Date.now().toString(36)}`,
+    name,
+    address,
+    category: 'Manual',
+    reason: t('stop.manualReason'),
+    arrivalEstimate: '',
+    parkingDifficulty: 'Moderate',
+    crowdLevel: 'Medium',
+    googleMapsUrl: buildPlaceUrl(name, address),
+    ...(coords ?? {}),
+  };
+};
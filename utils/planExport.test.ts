@@ -0,0 +1,42 @@
+
+import { describe, expect, it } from 'vitest';
+import type { ErrandPlan } from '../types';
+import { planToIcs } from './planExport';
+import { validatePlan } from './planSchema';
+
+const plan = validatePlan({
+  summary: 'Recados del sábado ☕',
+  stops: [
+    {
+      id: '1',
+      name: 'Panadería',
+      address: 'Calle de la Señora Ñúñez 12, Logroño',
+      reason: `Pan, café y ${'pañales ✨🧁 '.repeat(8)}`,
+      arrivalEstimate: '10:15 AM',
+    },
+    { id: '2', name: 'Banco', address: '3 Main St', arrivalEstimate: 'soon' },
+  ],
+}).plan as ErrandPlan;
+
+const ics = planToIcs(plan, { origin: null, returnToOrigin: false, day: new Date(2024, 5, 1) });
+const lines = ics.content.split('\r\n');
+
+describe('planToIcs', () => {
+  it('folds lines at 75 octets of UTF-8', () => {
+    const bytes = (line: string) => new TextEncoder().encode(line).length;
+    expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+    lines.forEach((line) => expect(bytes(line)).toBeLessThanOrEqual(75));
+  });
+
+  it('never splits a character across a fold', () => {
+    expect(ics.content).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])/);
+    const description = ics.content.replace(/\r\n /g, '').split('\r\n').find((l) => l.startsWith('DESCRIPTION:'));
+    expect(description).toContain('pañales ✨🧁 '.repeat(8).trim());
+  });
+
+  it('lists stops it could not schedule', () => {
+    expect(ics.skipped).toEqual(['Banco']);
+    expect(ics.skipReason).toBe('time');
+    expect(ics.content.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+  });
+});
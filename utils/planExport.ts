@@ -0,0 +1,217 @@
+
+import type { ErrandPlan, ErrandStop, LatLng } from '../types';
+import { stopCoords } from './geo';
+import { stopPlaceUrl } from './planSchema';
+import { parseClock } from './time';
+import { DEFAULT_SERVICE_MINUTES } from './timeWindows';
+
+// --- Types ---
+export type ExportFormat = 'gpx' | 'kml' | 'ics';
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+  // Stops left out, and why: no coordinates (GPX/KML) or no readable arrival time (ICS).
+  skipped: string[];
+  skipReason: 'coords' | 'time';
+}
+
+export interface ExportOptions {
+  origin: LatLng | null;
+  returnToOrigin: boolean;
+  // Calendar day the ICS events are placed on; defaults to today.
+  day?: Date;
+  title?: string;
+}
+
+const APP_NAME = 'ErrandOS';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const stopLabel = (stop: ErrandStop, idx: number) => `${String(idx + 1).padStart(2, '0')} ${stop.name}`;
+
+const titleOf = (plan: ErrandPlan, options: ExportOptions) => options.title || plan.summary || `${APP_NAME} mission`;
+
+const slug = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'mission';
+
+const mappedStops = (plan: ErrandPlan) => {
+  const mapped: { stop: ErrandStop; idx: number; coords: LatLng }[] = [];
+  const skipped: string[] = [];
+  plan.stops.forEach((stop, idx) => {
+    const coords = stopCoords(stop);
+    if (coords) mapped.push({ stop, idx, coords });
+    else skipped.push(stop.name);
+  });
+  return { mapped, skipped };
+};
+
+// Route geometry in visiting order, bracketed by the origin when known.
+const routePath = (mapped: { coords: LatLng }[], options: ExportOptions) => [
+  ...(options.origin ? [options.origin] : []),
+  ...mapped.map((m) => m.coords),
+  ...(options.origin && options.returnToOrigin && mapped.length ? [options.origin] : []),
+];
+
+/** GPX 1.1 with one waypoint per stop plus a route through them. */
+export const planToGpx = (plan: ErrandPlan, options: ExportOptions): ExportFile => {
+  const title = titleOf(plan, options);
+  const { mapped, skipped } = mappedStops(plan);
+  const point = (tag: string, p: LatLng, name?: string, extra = '') =>
+    `<${tag} lat="${p.lat.toFixed(6)}" lon="${p.lng.toFixed(6)}">${name ? `<name>${escapeXml(name)}</name>` : ''}${extra}</${tag}>`;
+
+  const waypoints = mapped.map(({ stop, idx, coords }) =>
+    `  ${point('wpt', coords, stopLabel(stop, idx), `<desc>${escapeXml(stop.address)}</desc><type>${escapeXml(stop.category)}</type>`)}`
+  );
+  const routePoints = routePath(mapped, options).map((p) => `    ${point('rtept', p)}`);
+
+  const content = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${APP_NAME}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata><name>${escapeXml(title)}</name></metadata>`,
+    ...waypoints,
+    '  <rte>',
+    `    <name>${escapeXml(title)}</name>`,
+    ...routePoints,
+    '  </rte>',
+    '</gpx>',
+    '',
+  ].join('\n');
+
+  return { filename: `${slug(title)}.gpx`, mimeType: 'application/gpx+xml', content, skipped, skipReason: 'coords' };
+};
+
+/** KML with a placemark per stop and a line for the route. */
+export const planToKml = (plan: ErrandPlan, options: ExportOptions): ExportFile => {
+  const title = titleOf(plan, options);
+  const { mapped, skipped } = mappedStops(plan);
+  // KML coordinates are lng,lat[,alt].
+  const coord = (p: LatLng) => `${p.lng.toFixed(6)},${p.lat.toFixed(6)},0`;
+
+  const placemarks = mapped.map(({ stop, idx, coords }) => [
+    '    <Placemark>',
+    `      <name>${escapeXml(stopLabel(stop, idx))}</name>`,
+    `      <description>${escapeXml([stop.address, stop.arrivalEstimate && `ETA ${stop.arrivalEstimate}`].filter(Boolean).join(' · '))}</description>`,
+    `      <Point><coordinates>${coord(coords)}</coordinates></Point>`,
+    '    </Placemark>',
+  ].join('\n'));
+
+  const path = routePath(mapped, options);
+  const line = path.length > 1
+    ? [
+        '    <Placemark>',
+        '      <name>Route</name>',
+        `      <LineString><tessellate>1</tessellate><coordinates>${path.map(coord).join(' ')}</coordinates></LineString>`,
+        '    </Placemark>',
+      ].join('\n')
+    : null;
+
+  const content = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(title)}</name>`,
+    ...placemarks,
+    ...(line ? [line] : []),
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+
+  return { filename: `${slug(title)}.kml`, mimeType: 'application/vnd.google-earth.kml+xml', content, skipped, skipReason: 'coords' };
+};
+
+// RFC 5545 TEXT escaping.
+const escapeIcsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Content lines longer than 75 octets of UTF-8 are folded with CRLF + space,
+// which counts towards the next line. Folds fall between code points only.
+const foldIcsLine = (line: string) => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > 75) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 1;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Floating local time, so the event lands at the same wall-clock time anywhere.
+const icsLocal = (day: Date, minutes: number) => {
+  const d = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes);
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}T${pad(d.getHours())}${pad(d.getMinutes())}00`;
+};
+
+const icsUtc = (d: Date) =>
+  `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+
+/**
+ * One VEVENT per stop, starting at its arrivalEstimate and lasting its
+ * service time. Stops without a readable arrival time have no slot to go
+ * in; they are listed in `skipped` for the caller to report.
+ */
+export const planToIcs = (plan: ErrandPlan, options: ExportOptions): ExportFile => {
+  const title = titleOf(plan, options);
+  const day = options.day ?? new Date();
+  const stamp = icsUtc(new Date());
+  const skipped: string[] = [];
+
+  const events = plan.stops.flatMap((stop, idx) => {
+    const start = parseClock(stop.arrivalEstimate);
+    if (start === null) {
+      skipped.push(stop.name);
+      return [];
+    }
+    const coords = stopCoords(stop);
+    return [
+      'BEGIN:VEVENT',
+      `UID:${stop.id}-${icsLocal(day, start)}@errandos`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsLocal(day, start)}`,
+      `DTEND:${icsLocal(day, start + (stop.serviceMinutes ?? DEFAULT_SERVICE_MINUTES))}`,
+      `SUMMARY:${escapeIcsText(stopLabel(stop, idx))}`,
+      `LOCATION:${escapeIcsText(stop.address)}`,
+      `DESCRIPTION:${escapeIcsText([stop.reason, stop.items?.length && `Items: ${stop.items.map((i) => i.name).join(', ')}`, stop.parkingAdvice].filter(Boolean).join('\n'))}`,
+      ...(coords ? [`GEO:${coords.lat.toFixed(6)};${coords.lng.toFixed(6)}`] : []),
+      `URL:${stopPlaceUrl(stop)}`,
+      'END:VEVENT',
+    ];
+  });
+
+  const content = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${APP_NAME}//Errand Plan//EN`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(title)}`,
+    ...events,
+    'END:VCALENDAR',
+    '',
+  ].map(foldIcsLine).join('\r\n');
+
+  return { filename: `${slug(title)}.ics`, mimeType: 'text/calendar', content, skipped, skipReason: 'time' };
+};
+
+export const EXPORTERS: Record<ExportFormat, (plan: ErrandPlan, options: ExportOptions) => ExportFile> = {
+  gpx: planToGpx,
+  kml: planToKml,
+  ics: planToIcs,
+};
@@ -0,0 +1,61 @@
+
+import { describe, expect, it } from 'vitest';
+import type { ErrandPlan, UserPreferences } from '../types';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptimizer';
+import { finalizeNewPlan, finalizeReroute, routeEndFor } from './planFinalize';
+import { validatePlan } from './planSchema';
+
+const origin = { lat: 37.7749, lng: -122.4194 };
+const preferences: UserPreferences = { places: [], preferredBrands: [], blockedBrands: [], maxDetourKm: null };
+
+const parsed = validatePlan({
+  summary: 'Two stops',
+  efficiencyScore: 99,
+  stops: [
+    { id: '1', name: 'Fresh Market', address: '1 Oak St', category: 'Grocery', lat: 37.78, lng: -122.41, arrivalEstimate: '3:00 AM' },
+    { id: '2', name: 'Corner Pharmacy', address: '2 Pine St', category: 'Pharmacy', lat: 37.77, lng: -122.43 },
+  ],
+}).plan as ErrandPlan;
+
+const context = {
+  origin,
+  now: new Date(2024, 0, 1, 9, 30),
+  dwellDefaults: {},
+  routeOptions: DEFAULT_ROUTE_OPTIONS,
+  preferences,
+};
+
+describe('finalizeNewPlan', () => {
+  it('departs now and rebuilds times and score locally', () => {
+    const plan = finalizeNewPlan(parsed, { ...context, travelMode: 'walking' });
+    expect(plan.departureTime).toBe('09:30');
+    expect(plan.travelMode).toBe('walking');
+    expect(plan.stops.every((s) => s.arrivalEstimate && s.arrivalEstimate !== '3:00 AM')).toBe(true);
+    expect(plan.efficiencyScore).not.toBe(99);
+  });
+
+  it('splits the stops across a household', () => {
+    const household = [
+      { id: 'a', name: 'Ana', start: null, startLabel: '', vehicle: 'car' as const },
+      { id: 'b', name: 'Ben', start: null, startLabel: '', vehicle: 'bike' as const },
+    ];
+    const plan = finalizeNewPlan(parsed, { ...context, travelMode: 'driving', household });
+    expect(plan.household).toHaveLength(2);
+    expect(plan.stops.every((s) => s.assigneeId === 'a' || s.assigneeId === 'b')).toBe(true);
+  });
+});
+
+describe('finalizeReroute', () => {
+  it('departs from the new fix time', () => {
+    const plan = finalizeReroute(parsed, parsed, { ...context, now: new Date(2024, 0, 1, 11, 5) });
+    expect(plan.departureTime).toBe('11:05');
+    expect(plan.stops.map((s) => s.id)).toEqual(['1', '2']);
+  });
+});
+
+describe('routeEndFor', () => {
+  it('ends at the origin only on round trips', () => {
+    expect(routeEndFor(origin, { ...DEFAULT_ROUTE_OPTIONS, returnToOrigin: true }, preferences)).toBe(origin);
+    expect(routeEndFor(origin, { ...DEFAULT_ROUTE_OPTIONS, returnToOrigin: false }, preferences)).toBeNull();
+  });
+});
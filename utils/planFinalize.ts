@@ -0,0 +1,54 @@
+
+import type { ErrandPlan, HouseholdMember, LatLng, TravelModeSetting, UserPreferences } from '../types';
+import { applyDwellDefaults, DwellDefaults } from './dwell';
+import { isHouseholdPlan, splitAcrossHousehold } from './household';
+import { recomputeTimes } from './planEdits';
+import { placeCoords } from './preferences';
+import { scorePlan } from './routeAnalysis';
+import type { RouteOptions } from './routeOptimizer';
+import { minutesSinceMidnight, toClockString } from './time';
+
+// --- Types ---
+export interface FinalizeContext {
+  origin: LatLng | null;
+  // When the request was made; the plan departs then.
+  now: Date;
+  dwellDefaults: DwellDefaults;
+  routeOptions: RouteOptions;
+  preferences: UserPreferences;
+}
+
+/** Where a route ends: back at the origin, at the saved default end place, or at its last stop (null). */
+export const routeEndFor = (origin: LatLng | null, options: RouteOptions, prefs: UserPreferences) =>
+  options.returnToOrigin ? origin : placeCoords(prefs, prefs.defaultEndId);
+
+const timeAndScore = (plan: ErrandPlan, { origin, routeOptions, preferences }: FinalizeContext) =>
+  scorePlan(recomputeTimes(plan, origin, routeEndFor(origin, routeOptions, preferences)), origin, routeOptions);
+
+/**
+ * Turns a validated PLAN_INIT response into the plan the app shows. Times
+ * are rebuilt locally from typed legs; the model's estimates are only a
+ * first draft. Two or more household members split the stops instead.
+ */
+export const finalizeNewPlan = (
+  parsed: ErrandPlan,
+  context: FinalizeContext & { travelMode: TravelModeSetting; household?: HouseholdMember[] }
+): ErrandPlan => {
+  const departureTime = toClockString(minutesSinceMidnight(context.now));
+  const fresh = applyDwellDefaults({ ...parsed, departureTime, travelMode: context.travelMode }, context.dwellDefaults);
+  return context.household
+    ? splitAcrossHousehold(fresh, context.household, context.origin)
+    : timeAndScore(fresh, context);
+};
+
+/**
+ * Same for a merged REROUTE diff. Diff responses carry no times, so they are
+ * rebuilt from the fresh fix; household plans keep their assignments.
+ */
+export const finalizeReroute = (parsed: ErrandPlan, previousPlan: ErrandPlan, context: FinalizeContext): ErrandPlan => {
+  const departureTime = toClockString(minutesSinceMidnight(context.now));
+  const merged = applyDwellDefaults({ ...parsed, departureTime }, context.dwellDefaults);
+  return isHouseholdPlan(previousPlan)
+    ? splitAcrossHousehold(merged, previousPlan.household!, context.origin, { keepAssignments: true })
+    : timeAndScore(merged, context);
+};
@@ -0,0 +1,127 @@
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ErrandPlan } from '../types';
+import { buildPlaceUrl, extractJSON, readPartialStops, stopPlaceUrl, validatePlan, validateRerouteDiff } from './planSchema';
+
+describe('extractJSON', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('parses a bare object', () => {
+    expect(extractJSON('{"stops":[]}')).toEqual({ stops: [] });
+  });
+
+  it('strips markdown fences', () => {
+    expect(extractJSON('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJSON('```\n{"a":1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('ignores prose around the object', () => {
+    expect(extractJSON('Here is your plan:\n{"a":{"b":2}}\nHave a good trip!')).toEqual({ a: { b: 2 } });
+  });
+
+  it('keeps braces and quotes inside strings', () => {
+    expect(extractJSON('{"reason":"open {late} \\"today\\""}')).toEqual({ reason: 'open {late} "today"' });
+  });
+
+  it('falls back to the first balanced object when trailing prose has braces', () => {
+    expect(extractJSON('{"a":1} Let me know if you want changes :}')).toEqual({ a: 1 });
+    expect(extractJSON('Plan: {"stops":[{"name":"A {1}"}]}\nAlt: {"stops": []}')).toEqual({ stops: [{ name: 'A {1}' }] });
+  });
+
+  it('does not fall back past a malformed first object', () => {
+    expect(extractJSON('{"a":1,} then {"b":2}')).toBeNull();
+  });
+
+  it('returns null without an object', () => {
+    expect(extractJSON('')).toBeNull();
+    expect(extractJSON('Sorry, I cannot help with that.')).toBeNull();
+    expect(extractJSON('["not", "an", "object"]')).toBeNull();
+  });
+
+  it('returns null for truncated or malformed JSON', () => {
+    expect(extractJSON('{"stops":[{"name":"A"}')).toBeNull();
+    expect(extractJSON("{'single': 'quotes'}")).toBeNull();
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('reports parse failures to the given logger instead of the console', () => {
+    const logError = vi.fn();
+    expect(extractJSON("{'single': 'quotes'}", logError)).toBeNull();
+    expect(logError).toHaveBeenCalledTimes(1);
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it('tolerates a missing response', () => {
+    expect(extractJSON(undefined as unknown as string)).toBeNull();
+  });
+});
+
+describe('readPartialStops', () => {
+  const stop = (name: string) => `{"name":"${name}","address":"1 Main St","items":["milk"]}`;
+
+  it('returns only the stops that have closed', () => {
+    const text = `{"summary":"x","stops":[${stop('A')},${stop('B')},{"name":"C","addr`;
+    expect(readPartialStops(text).map((s) => s.name)).toEqual(['A', 'B']);
+  });
+
+  it('returns nothing before the stops array starts', () => {
+    expect(readPartialStops('{"summary":"Three sto')).toEqual([]);
+  });
+
+  it('skips stops that fail validation on their own', () => {
+    expect(readPartialStops(`{"stops":[{"name":"No address"},${stop('B')}]}`).map((s) => s.name)).toEqual(['B']);
+  });
+});
+
+describe('googleMapsUrl checks', () => {
+  const validStop = (googleMapsUrl: string) => ({ name: 'Cafe', address: '1 Main St', googleMapsUrl });
+
+  it.each(['javascript:alert(1)', 'http://maps.google.com/?q=cafe', 'data:text/html,hi', 'not a url'])(
+    'rebuilds %s from name and address',
+    (url) => {
+      const { plan, repairs } = validatePlan({ stops: [validStop(url)] });
+      expect(plan?.stops[0].googleMapsUrl).toBe(buildPlaceUrl('Cafe', '1 Main St'));
+      expect(repairs.map((r) => r.path)).toContain('stops[0].googleMapsUrl');
+    }
+  );
+
+  it('keeps https links', () => {
+    const { plan } = validatePlan({ stops: [validStop('https://maps.google.com/?cid=1')] });
+    expect(plan?.stops[0].googleMapsUrl).toBe('https://maps.google.com/?cid=1');
+  });
+
+  it('checks stored links again before rendering', () => {
+    expect(stopPlaceUrl(validStop('javascript:alert(1)'))).toBe(buildPlaceUrl('Cafe', '1 Main St'));
+  });
+});
+
+describe('validateRerouteDiff', () => {
+  const parsed = validatePlan({
+    stops: [
+      { id: '1', name: 'Bakery', address: '1 Oak St' },
+      { id: '2', name: 'Bank', address: '2 Pine St' },
+    ],
+  }).plan as ErrandPlan;
+  const previous = { ...parsed, stops: parsed.stops.map((s) => (s.id === '1' ? { ...s, status: 'done' as const } : s)) };
+  const added = (id: string) => ({ id, name: 'Post Office', address: '3 Elm St' });
+
+  it('points the order at an added stop whose id collided with a done one', () => {
+    const { plan, repairs } = validateRerouteDiff({ added: [added('1')], order: ['1', '2'] }, previous);
+    expect(plan?.stops.map((s) => s.id)).toEqual(['1', '1-new', '2']);
+    expect(plan?.stops[1].name).toBe('Post Office');
+    expect(repairs.map((r) => r.path)).toEqual(['added[0].id', 'order[0]']);
+  });
+
+  it('keeps the open stop first when both share the id in the order', () => {
+    const { plan } = validateRerouteDiff({ added: [added('2')], order: ['2', '2'] }, previous);
+    expect(plan?.stops.map((s) => s.name)).toEqual(['Bakery', 'Bank', 'Post Office']);
+  });
+
+  it('renames past ids that are already taken', () => {
+    const taken = { ...previous, stops: [...previous.stops, { ...previous.stops[1], id: '2-new' }] };
+    const { plan } = validateRerouteDiff({ added: [added('2')], order: ['2-new-2', '2', '2-new'] }, taken);
+    expect(plan?.stops.map((s) => s.id)).toEqual(['1', '2-new-2', '2', '2-new']);
+  });
+});
@@ -0,0 +1,524 @@
+
+import { parseClock, toClockString } from './time';
+import { createItem, reconcileItems, releaseItems } from './errandItems';
+import { isSafeExternalUrl } from './mapsUrl';
+import type { CrowdLevel, ErrandItem, ErrandPlan, ErrandStop, ParkingDifficulty, PlanAlternative } from '../types';
+
+// --- Types ---
+export interface PlanFieldError {
+  path: string;
+  message: string;
+}
+
+export interface PlanValidationResult {
+  plan: ErrandPlan | null;
+  errors: PlanFieldError[];
+  // Non-fatal fixes applied while coercing (e.g. "Hard" -> "Difficult").
+  repairs: PlanFieldError[];
+}
+
+// Synonyms the model tends to emit for our enums, lower-cased.
+const PARKING_ALIASES: Record<string, ParkingDifficulty> = {
+  easy: 'Easy',
+  simple: 'Easy',
+  low: 'Easy',
+  moderate: 'Moderate',
+  medium: 'Moderate',
+  average: 'Moderate',
+  difficult: 'Difficult',
+  hard: 'Difficult',
+  high: 'Difficult',
+  tough: 'Difficult',
+};
+
+const CROWD_ALIASES: Record<string, CrowdLevel> = {
+  low: 'Low',
+  light: 'Low',
+  quiet: 'Low',
+  medium: 'Medium',
+  moderate: 'Medium',
+  average: 'Medium',
+  high: 'High',
+  heavy: 'High',
+  busy: 'High',
+};
+
+// --- Utilities ---
+// Index of the brace closing the object that opens at `start`, ignoring braces inside strings; -1 if unclosed.
+const closingBrace = (text: string, start: number) => {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Where extractJSON reports text it could not parse; callers that score failures pass a no-op.
+export type ParseErrorLogger = (message: string, error: unknown) => void;
+
+const logParseError: ParseErrorLogger = (message, error) => console.error(message, error);
+
+export const extractJSON = (text: string, logError: ParseErrorLogger = logParseError) => {
+  const cleanText = String(text ?? '').replace(/```json/g, '').replace(/```/g, '').trim();
+  const jsonStart = cleanText.indexOf('{');
+  const jsonEnd = cleanText.lastIndexOf('}') + 1;
+  if (jsonStart === -1 || jsonEnd === 0) return null;
+  try {
+    return JSON.parse(cleanText.substring(jsonStart, jsonEnd));
+  } catch (e) {
+    // Prose after the object may hold braces of its own; retry with just the first balanced object.
+    const end = closingBrace(cleanText, jsonStart);
+    if (end !== -1 && end + 1 !== jsonEnd) {
+      try {
+        return JSON.parse(cleanText.substring(jsonStart, end + 1));
+      } catch {
+        // Fall through to the original error.
+      }
+    }
+    logError("JSON Extraction Error:", e);
+    return null;
+  }
+};
+
+export const isRecord = (val: unknown): val is Record<string, unknown> =>
+  typeof val === 'object' && val !== null && !Array.isArray(val);
+
+/**
+ * Collects errors and repairs for a single validation pass so the field
+ * readers below can stay one-liners.
+ */
+class PlanReader {
+  errors: PlanFieldError[] = [];
+  repairs: PlanFieldError[] = [];
+  // Item ids across the whole plan, so two different items never share one.
+  itemIds = new Map<string, string>();
+
+  error(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  repair(path: string, message: string) {
+    this.repairs.push({ path, message });
+  }
+
+  string(obj: Record<string, unknown>, key: string, path: string, fallback?: string): string {
+    const val = obj[key];
+    if (typeof val === 'string' && val.trim()) return val.trim();
+    if (typeof val === 'number' || typeof val === 'boolean') {
+      this.repair(`${path}.${key}`, `coerced ${typeof val} to string`);
+      return String(val);
+    }
+    if (fallback !== undefined) {
+      if (val !== undefined) this.repair(`${path}.${key}`, 'replaced invalid value with default');
+      return fallback;
+    }
+    this.error(`${path}.${key}`, val === undefined ? 'is required' : 'must be a non-empty string');
+    return '';
+  }
+
+  optionalString(obj: Record<string, unknown>, key: string, path: string): string | undefined {
+    const val = obj[key];
+    if (val === undefined || val === null || val === '') return undefined;
+    return this.string(obj, key, path, '') || undefined;
+  }
+
+  enumValue<T extends string>(
+    obj: Record<string, unknown>,
+    key: string,
+    path: string,
+    aliases: Record<string, T>,
+    fallback: T
+  ): T {
+    const val = obj[key];
+    if (typeof val === 'string') {
+      const match = aliases[val.trim().toLowerCase()];
+      if (match) {
+        if (match !== val) this.repair(`${path}.${key}`, `mapped "${val}" to "${match}"`);
+        return match;
+      }
+    }
+    if (val !== undefined) {
+      this.repair(`${path}.${key}`, `unknown value ${JSON.stringify(val)}, defaulted to "${fallback}"`);
+    }
+    return fallback;
+  }
+
+  score(obj: Record<string, unknown>, key: string, path: string): number {
+    const val = obj[key];
+    const num = typeof val === 'number' ? val : typeof val === 'string' ? parseFloat(val) : NaN;
+    if (!Number.isFinite(num)) {
+      if (val !== undefined) this.repair(`${path}.${key}`, 'not a number, defaulted to 0');
+      return 0;
+    }
+    if (typeof val !== 'number') this.repair(`${path}.${key}`, 'coerced string to number');
+    const clamped = Math.min(100, Math.max(0, Math.round(num)));
+    if (clamped !== num) this.repair(`${path}.${key}`, `clamped to ${clamped}`);
+    return clamped;
+  }
+
+  coordinate(obj: Record<string, unknown>, key: string, path: string, limit: number): number | undefined {
+    const val = obj[key];
+    if (val === undefined || val === null || val === '') return undefined;
+    const num = typeof val === 'number' ? val : typeof val === 'string' ? parseFloat(val) : NaN;
+    if (!Number.isFinite(num) || Math.abs(num) > limit) {
+      this.repair(`${path}.${key}`, `dropped invalid coordinate ${JSON.stringify(val)}`);
+      return undefined;
+    }
+    if (typeof val !== 'number') this.repair(`${path}.${key}`, 'coerced string to number');
+    return num;
+  }
+
+  clock(obj: Record<string, unknown>, key: string, path: string): string | undefined {
+    const val = obj[key];
+    if (val === undefined || val === null || val === '') return undefined;
+    const minutes = typeof val === 'string' ? parseClock(val) : null;
+    if (minutes === null) {
+      this.repair(`${path}.${key}`, `dropped unreadable time ${JSON.stringify(val)}`);
+      return undefined;
+    }
+    const normalized = toClockString(minutes);
+    if (normalized !== val) this.repair(`${path}.${key}`, `normalized "${val}" to "${normalized}"`);
+    return normalized;
+  }
+
+  minutes(obj: Record<string, unknown>, key: string, path: string): number | undefined {
+    const val = obj[key];
+    if (val === undefined || val === null || val === '') return undefined;
+    const num = typeof val === 'number' ? val : typeof val === 'string' ? parseFloat(val) : NaN;
+    if (!Number.isFinite(num) || num < 0) {
+      this.repair(`${path}.${key}`, `dropped invalid duration ${JSON.stringify(val)}`);
+      return undefined;
+    }
+    if (typeof val !== 'number') this.repair(`${path}.${key}`, 'coerced string to number');
+    return Math.min(480, Math.round(num));
+  }
+
+  stringList(obj: Record<string, unknown>, key: string, path: string): string[] | undefined {
+    const val = obj[key];
+    if (val === undefined || val === null) return undefined;
+    if (!Array.isArray(val)) {
+      if (typeof val === 'string' && val.trim()) {
+        this.repair(`${path}.${key}`, 'wrapped single string in a list');
+        return [val.trim()];
+      }
+      this.repair(`${path}.${key}`, 'dropped non-list value');
+      return undefined;
+    }
+    return val.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+  }
+
+  // Accepts plain names or { name, done } objects; duplicates collapse to the first.
+  items(obj: Record<string, unknown>, key: string, path: string): ErrandItem[] | undefined {
+    const val = obj[key];
+    if (val === undefined || val === null) return undefined;
+    if (!Array.isArray(val)) {
+      this.repair(`${path}.${key}`, 'dropped non-list value');
+      return undefined;
+    }
+    const seen = new Set<string>();
+    return val.flatMap((entry, i) => {
+      const name = typeof entry === 'string' ? entry : isRecord(entry) && typeof entry.name === 'string' ? entry.name : '';
+      if (!name.trim()) {
+        this.repair(`${path}.${key}[${i}]`, 'dropped item without a name');
+        return [];
+      }
+      const item = createItem(name, this.itemIds);
+      if (seen.has(item.id)) return [];
+      seen.add(item.id);
+      return [isRecord(entry) && entry.done === true ? { ...item, done: true } : item];
+    });
+  }
+}
+
+export const buildPlaceUrl = (name: string, address: string) =>
+  `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${name} ${address}`.trim())}`;
+
+// Saved missions are not re-validated on load, so links are checked again where they are used.
+export const stopPlaceUrl = (stop: Pick<ErrandStop, 'googleMapsUrl' | 'name' | 'address'>) =>
+  isSafeExternalUrl(stop.googleMapsUrl) ? stop.googleMapsUrl : buildPlaceUrl(String(stop.name ?? ''), String(stop.address ?? ''));
+
+const readStop = (reader: PlanReader, raw: unknown, idx: number, path = `stops[${idx}]`): ErrandStop | null => {
+  if (!isRecord(raw)) {
+    reader.error(path, 'must be an object');
+    return null;
+  }
+  const name = reader.string(raw, 'name', path);
+  const address = reader.string(raw, 'address', path);
+  let googleMapsUrl = reader.string(raw, 'googleMapsUrl', path, '');
+  if (!isSafeExternalUrl(googleMapsUrl)) {
+    if (googleMapsUrl) reader.repair(`${path}.googleMapsUrl`, 'not an https URL, rebuilt from name and address');
+    googleMapsUrl = buildPlaceUrl(name, address);
+  }
+
+  return {
+    id: reader.string(raw, 'id', path, String(idx + 1)),
+    name,
+    address,
+    category: reader.string(raw, 'category', path, 'Errand'),
+    reason: reader.string(raw, 'reason', path, ''),
+    arrivalEstimate: reader.string(raw, 'arrivalEstimate', path, ''),
+    parkingDifficulty: reader.enumValue(raw, 'parkingDifficulty', path, PARKING_ALIASES, 'Moderate'),
+    crowdLevel: reader.enumValue(raw, 'crowdLevel', path, CROWD_ALIASES, 'Medium'),
+    googleMapsUrl,
+    lat: reader.coordinate(raw, 'lat', path, 90),
+    lng: reader.coordinate(raw, 'lng', path, 180),
+    openFrom: reader.clock(raw, 'openFrom', path),
+    openUntil: reader.clock(raw, 'openUntil', path),
+    mustArriveBy: reader.clock(raw, 'mustArriveBy', path),
+    serviceMinutes: reader.minutes(raw, 'serviceMinutes', path),
+    parkingAdvice: reader.optionalString(raw, 'parkingAdvice', path),
+    trafficNote: reader.optionalString(raw, 'trafficNote', path),
+    assigneeId: reader.optionalString(raw, 'assigneeId', path),
+    items: reader.items(raw, 'items', path),
+  };
+};
+
+const readAlternatives = (reader: PlanReader, raw: unknown): PlanAlternative[] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    reader.repair('alternatives', 'dropped non-list value');
+    return undefined;
+  }
+  return raw.flatMap((alt, i) => {
+    if (!isRecord(alt)) {
+      reader.repair(`alternatives[${i}]`, 'dropped non-object entry');
+      return [];
+    }
+    const path = `alternatives[${i}]`;
+    return [{
+      original: reader.string(alt, 'original', path, ''),
+      suggested: reader.string(alt, 'suggested', path, ''),
+      benefit: reader.string(alt, 'benefit', path, ''),
+    }];
+  });
+};
+
+/**
+ * Validates untrusted model output against the ErrandPlan shape. Values that
+ * can be safely coerced (numeric strings, enum synonyms, missing optional
+ * text) are fixed up and reported in `repairs`; anything that would leave the
+ * UI without a usable stop list ends up in `errors` and yields `plan: null`.
+ */
+export const validatePlan = (raw: unknown): PlanValidationResult => {
+  const reader = new PlanReader();
+
+  if (!isRecord(raw)) {
+    reader.error('$', 'plan must be a JSON object');
+    return { plan: null, errors: reader.errors, repairs: reader.repairs };
+  }
+
+  let stops: ErrandStop[] = [];
+  if (!Array.isArray(raw.stops)) {
+    reader.error('stops', raw.stops === undefined ? 'is required' : 'must be an array');
+  } else if (raw.stops.length === 0) {
+    reader.error('stops', 'must contain at least one stop');
+  } else {
+    stops = raw.stops
+      .map((s, i) => readStop(reader, s, i))
+      .filter((s): s is ErrandStop => s !== null);
+  }
+
+  // Duplicate ids break React keys and stop lookups; renumber rather than fail.
+  const seenIds = new Set<string>();
+  stops.forEach((stop, i) => {
+    if (seenIds.has(stop.id)) {
+      const nextId = `${stop.id}-${i + 1}`;
+      reader.repair(`stops[${i}].id`, `duplicate id "${stop.id}" renamed to "${nextId}"`);
+      stop.id = nextId;
+    }
+    seenIds.add(stop.id);
+  });
+
+  const plan: ErrandPlan = {
+    summary: reader.string(raw, 'summary', '$', ''),
+    stops,
+    totalTime: reader.string(raw, 'totalTime', '$', ''),
+    departureTime: reader.clock(raw, 'departureTime', '$'),
+    efficiencyScore: reader.score(raw, 'efficiencyScore', '$'),
+    alternatives: readAlternatives(reader, raw.alternatives),
+    householdSuggestions: reader.stringList(raw, 'householdSuggestions', '$'),
+    reasoning: reader.string(raw, 'reasoning', '$', ''),
+    unassignedItems: reader.items(raw, 'unassignedItems', '$'),
+  };
+
+  return {
+    plan: reader.errors.length ? null : reconcileItems(plan),
+    errors: reader.errors,
+    repairs: reader.repairs,
+  };
+};
+
+/**
+ * Stops already complete in a response that is still streaming in. Scans the
+ * "stops" array for closed objects and keeps those that validate on their
+ * own; the finished response is still checked as a whole by validatePlan.
+ */
+export const readPartialStops = (text: string): ErrandStop[] => {
+  const match = /"stops"\s*:\s*\[/.exec(text);
+  if (!match) return [];
+  const stops: ErrandStop[] = [];
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      if (depth === 0) objectStart = i;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth !== 0) continue;
+      try {
+        const reader = new PlanReader();
+        const stop = readStop(reader, JSON.parse(text.slice(objectStart, i + 1)), stops.length);
+        if (stop && !reader.errors.length) stops.push(stop);
+      } catch {
+        // A malformed stop is left for the full validation to report.
+      }
+    } else if (ch === ']' && depth === 0) {
+      break;
+    }
+  }
+  return stops;
+};
+
+/**
+ * Validates a REROUTE response and merges it into `previous`. The model only
+ * returns a diff (new order of the remaining stops, stops added or removed),
+ * so completed stops can never be moved or dropped by the model: they are
+ * kept at the front exactly as they were.
+ */
+export const validateRerouteDiff = (raw: unknown, previous: ErrandPlan): PlanValidationResult => {
+  const reader = new PlanReader();
+
+  if (!isRecord(raw)) {
+    reader.error('$', 'reroute must be a JSON object');
+    return { plan: null, errors: reader.errors, repairs: reader.repairs };
+  }
+
+  const completed = previous.stops.filter((s) => s.status === 'done');
+  const completedIds = new Set(completed.map((s) => s.id));
+  const remaining = previous.stops.filter((s) => !completedIds.has(s.id));
+  const knownIds = new Set(previous.stops.map((s) => s.id));
+
+  const added: ErrandStop[] = [];
+  // Colliding ids of added stops, and what they were renamed to.
+  const renamed = new Map<string, string>();
+  if (raw.added !== undefined && raw.added !== null) {
+    if (!Array.isArray(raw.added)) {
+      reader.error('added', 'must be an array');
+    } else {
+      raw.added.forEach((item, i) => {
+        const stop = readStop(reader, item, i, `added[${i}]`);
+        if (!stop) return;
+        if (knownIds.has(stop.id)) {
+          let nextId = `${stop.id}-new`;
+          for (let n = 2; knownIds.has(nextId); n++) nextId = `${stop.id}-new-${n}`;
+          reader.repair(`added[${i}].id`, `id "${stop.id}" already used, renamed to "${nextId}"`);
+          renamed.set(stop.id, nextId);
+          stop.id = nextId;
+        }
+        knownIds.add(stop.id);
+        added.push({ ...stop, status: 'pending' });
+      });
+    }
+  }
+
+  const removedIds = new Set<string>();
+  (Array.isArray(raw.removed) ? raw.removed : []).forEach((item, i) => {
+    const id = isRecord(item) ? String(item.id ?? '') : String(item);
+    if (completedIds.has(id)) {
+      reader.repair(`removed[${i}]`, `stop "${id}" is already done and cannot be removed`);
+    } else if (remaining.some((s) => s.id === id)) {
+      removedIds.add(id);
+    } else {
+      reader.repair(`removed[${i}]`, `unknown stop "${id}" ignored`);
+    }
+  });
+
+  const pool = [...remaining.filter((s) => !removedIds.has(s.id)), ...added];
+  let ordered: ErrandStop[] = [];
+  if (!Array.isArray(raw.order)) {
+    reader.error('order', raw.order === undefined ? 'is required' : 'must be an array of stop ids');
+  } else if (previous.orderLocked) {
+    // Locked order: remaining stops keep their sequence, new ones go last.
+    ordered = pool;
+  } else {
+    const seen = new Set<string>();
+    raw.order.forEach((item, i) => {
+      let id = String(item);
+      // A renamed id means the added stop, unless the open stop that owns it has not been placed yet.
+      const renamedTo = renamed.get(id);
+      if (renamedTo && (seen.has(id) || !pool.some((s) => s.id === id))) {
+        reader.repair(`order[${i}]`, `"${id}" refers to the added stop, now "${renamedTo}"`);
+        id = renamedTo;
+      }
+      const stop = pool.find((s) => s.id === id);
+      if (completedIds.has(id)) reader.repair(`order[${i}]`, `completed stop "${id}" cannot be reordered`);
+      else if (!stop) reader.repair(`order[${i}]`, `unknown stop "${id}" ignored`);
+      else if (!seen.has(id)) {
+        seen.add(id);
+        ordered.push(stop);
+      }
+    });
+    pool.filter((s) => !seen.has(s.id)).forEach((s) => {
+      reader.repair('order', `stop "${s.id}" missing from order, appended`);
+      ordered.push(s);
+    });
+  }
+
+  const plan: ErrandPlan = {
+    ...previous,
+    summary: reader.string(raw, 'summary', '$', previous.summary),
+    stops: [...completed, ...ordered],
+    totalTime: reader.string(raw, 'totalTime', '$', previous.totalTime),
+    reasoning: reader.string(raw, 'reasoning', '$', previous.reasoning),
+    changeLog: reader.stringList(raw, 'changes', '$') ?? [],
+    unassignedItems: [...(previous.unassignedItems ?? []), ...(reader.items(raw, 'unassignedItems', '$') ?? [])],
+  };
+
+  return {
+    // Items of removed stops are flagged, unless an added stop picked them up.
+    plan: reader.errors.length ? null : releaseItems(reconcileItems(plan), remaining.filter((s) => removedIds.has(s.id))),
+    errors: reader.errors,
+    repairs: reader.repairs,
+  };
+};
+
+export const formatPlanErrors = (errors: PlanFieldError[], limit = 5) => {
+  const lines = errors.slice(0, limit).map((e) => `${e.path}: ${e.message}`);
+  if (errors.length > limit) lines.push(`(+${errors.length - limit} more)`);
+  return lines.join('; ');
+};
+
+/**
+ * Builds the one-shot follow-up prompt sent when the first response fails
+ * validation. The failed response itself goes in the preceding model turn.
+ */
+export const buildRepairPrompt = (errors: PlanFieldError[]) => `
+  Your previous response could not be used because it did not match the required JSON format.
+  Problems found:
+  ${errors.map((e) => `- ${e.path}: ${e.message}`).join('\n  ')}
+
+  Return ONLY the corrected JSON object with the same format as requested. No markdown, no explanation.
+`;
@@ -0,0 +1,80 @@
+
+import type { ErrandStop, PlanLeg, PlanTiming, TravelMode } from '../types';
+import { estimateRoadKm } from './geo';
+import type { StopSchedule } from './timeWindows';
+
+// --- Types ---
+export interface TimingSummary {
+  totalMinutes: number;
+  travelMinutes: number;
+  travelByMode: Partial<Record<TravelMode, number>>;
+  dwellMinutes: number;
+  waitMinutes: number;
+  // Road estimate over the legs with known coordinates.
+  distanceKm: number;
+}
+
+/**
+ * Turns a simulated schedule over `stops` into typed legs, one per stop,
+ * each ending in the time spent there.
+ */
+export const legsFromSchedule = (
+  stops: ErrandStop[],
+  schedule: StopSchedule,
+  fallbackMode: TravelMode,
+  assigneeId?: string
+): PlanLeg[] =>
+  schedule.visits.map((visit, i) => {
+    const stop = stops[i];
+    return {
+      fromId: i === 0 ? null : stops[i - 1].id,
+      toId: visit.stopId,
+      mode: stop.legMode ?? fallbackMode,
+      distanceKm: visit.distanceKm === null ? null : estimateRoadKm(visit.distanceKm),
+      departAt: visit.arriveAt - visit.travelMinutes,
+      arriveAt: visit.arriveAt,
+      travelMinutes: visit.travelMinutes,
+      waitMinutes: visit.waitMinutes,
+      dwellMinutes: visit.departAt - visit.startAt,
+      ...(assigneeId ? { assigneeId } : {}),
+    };
+  });
+
+export const homeLeg = (
+  from: ErrandStop,
+  departAt: number,
+  travelMinutes: number,
+  straightKm: number | null,
+  mode: TravelMode
+): PlanLeg => ({
+  fromId: from.id,
+  toId: null,
+  mode,
+  distanceKm: straightKm === null ? null : estimateRoadKm(straightKm),
+  departAt,
+  arriveAt: departAt + travelMinutes,
+  travelMinutes,
+  waitMinutes: 0,
+  dwellMinutes: 0,
+});
+
+export const summarizeTiming = (timing: PlanTiming): TimingSummary => {
+  const summary: TimingSummary = {
+    totalMinutes: timing.endAt - timing.departAt,
+    travelMinutes: 0,
+    travelByMode: {},
+    dwellMinutes: 0,
+    waitMinutes: 0,
+    distanceKm: 0,
+  };
+  timing.legs.forEach((leg) => {
+    summary.travelMinutes += leg.travelMinutes;
+    summary.travelByMode[leg.mode] = (summary.travelByMode[leg.mode] ?? 0) + leg.travelMinutes;
+    summary.dwellMinutes += leg.dwellMinutes;
+    summary.waitMinutes += leg.waitMinutes;
+    summary.distanceKm += leg.distanceKm ?? 0;
+  });
+  return summary;
+};
+
+export const legTo = (timing: PlanTiming | undefined, stopId: string) => timing?.legs.find((l) => l.toId === stopId);
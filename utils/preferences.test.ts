@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREFERENCES, readPreferences } from './preferences';
+
+describe('readPreferences', () => {
+  it('falls back to the defaults for anything but an object', () => {
+    expect(readPreferences(null)).toBe(DEFAULT_PREFERENCES);
+    expect(readPreferences('home')).toBe(DEFAULT_PREFERENCES);
+    expect(readPreferences([])).toBe(DEFAULT_PREFERENCES);
+  });
+
+  it('drops malformed places and clears references to them', () => {
+    const prefs = readPreferences({
+      places: [
+        { id: 'home', label: 'Home', address: '12 Elm St', coords: { lat: 37.77, lng: -122.42 } },
+        { id: 'work', label: 'Work', coords: { lat: '37.79', lng: -122.4 } },
+        { id: 'gym' },
+        'school',
+      ],
+      blockedBrands: ['Megamart', 7, ' Megamart '],
+      maxDetourKm: -2,
+      defaultOriginId: 'home',
+      defaultEndId: 'gym',
+    });
+
+    expect(prefs.places).toEqual([
+      { id: 'home', label: 'Home', address: '12 Elm St', coords: { lat: 37.77, lng: -122.42 } },
+      { id: 'work', label: 'Work', address: '', coords: null },
+    ]);
+    expect(prefs.blockedBrands).toEqual(['Megamart']);
+    expect(prefs.maxDetourKm).toBeNull();
+    expect(prefs.defaultOriginId).toBe('home');
+    expect(prefs.defaultEndId).toBeUndefined();
+  });
+});
@@ -0,0 +1,134 @@
+
+import type { ErrandPlan, ErrandStop, LatLng, SavedPlace, UserPreferences } from '../types';
+import { estimateRoadKm, haversineKm, stopCoords } from './geo';
+import { formatDistance, t } from './i18n';
+import { isRecord } from './planSchema';
+
+// --- Types ---
+export interface PreferenceIssue {
+  stopId: string;
+  kind: 'blocked' | 'detour';
+  reason: string;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  places: [],
+  preferredBrands: [],
+  blockedBrands: [],
+  maxDetourKm: null,
+};
+
+export const createSavedPlace = (label: string): SavedPlace => ({
+  id: `place-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  label,
+  address: '',
+  coords: null,
+});
+
+export const findPlace = (prefs: UserPreferences, id?: string) =>
+  id ? prefs.places.find((p) => p.id === id) : undefined;
+
+export const placeCoords = (prefs: UserPreferences, id?: string): LatLng | null => findPlace(prefs, id)?.coords ?? null;
+
+const isLatLng = (val: unknown): val is LatLng =>
+  isRecord(val) &&
+  typeof val.lat === 'number' &&
+  typeof val.lng === 'number' &&
+  Number.isFinite(val.lat) &&
+  Number.isFinite(val.lng) &&
+  Math.abs(val.lat) <= 90 &&
+  Math.abs(val.lng) <= 180;
+
+const brandList = (val: unknown) =>
+  Array.isArray(val) ? [...new Set(val.filter((b): b is string => typeof b === 'string' && !!b.trim()).map((b) => b.trim()))] : [];
+
+// Parses "Safeway, Trader Joe's" as typed into a settings field.
+export const parseBrandList = (text: string) => brandList(text.split(','));
+
+/**
+ * Reads stored preferences, dropping anything malformed. Place references
+ * that no longer resolve are cleared rather than left dangling.
+ */
+// Stored places need an id and a label; everything else has a fallback.
+const isStoredPlace = (val: unknown): val is Record<string, unknown> & { id: string; label: string } =>
+  isRecord(val) && typeof val.id === 'string' && typeof val.label === 'string';
+
+export const readPreferences = (raw: unknown): UserPreferences => {
+  if (!isRecord(raw)) return DEFAULT_PREFERENCES;
+  const places: SavedPlace[] = (Array.isArray(raw.places) ? raw.places : [])
+    .filter(isStoredPlace)
+    .map((p) => ({
+      id: p.id,
+      label: p.label,
+      address: typeof p.address === 'string' ? p.address : '',
+      coords: isLatLng(p.coords) ? { lat: p.coords.lat, lng: p.coords.lng } : null,
+      ...(typeof p.brand === 'string' && p.brand.trim() ? { brand: p.brand.trim() } : {}),
+    }));
+  const known = (id: unknown) => (typeof id === 'string' && places.some((p) => p.id === id) ? id : undefined);
+  const detour = Number(raw.maxDetourKm);
+  return {
+    places,
+    preferredBrands: brandList(raw.preferredBrands),
+    blockedBrands: brandList(raw.blockedBrands),
+    maxDetourKm: raw.maxDetourKm !== null && Number.isFinite(detour) && detour > 0 ? detour : null,
+    defaultEndId: known(raw.defaultEndId),
+    defaultOriginId: known(raw.defaultOriginId),
+  };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match so "Target" does not hit "Targeted Physio".
+export const matchesBrand = (stop: ErrandStop, brand: string) =>
+  new RegExp(`(^|\\W)${escapeRegExp(brand.trim())}($|\\W)`, 'i').test(stop.name);
+
+export const blockedBrandOf = (stop: ErrandStop, prefs: UserPreferences) =>
+  prefs.blockedBrands.find((b) => matchesBrand(stop, b));
+
+/**
+ * Extra road distance each stop adds over going straight from the previous
+ * point to the next one. The last stop's detour is its whole leg unless the
+ * trip continues to `end`. Stops without coordinates are skipped.
+ */
+export const stopDetoursKm = (origin: LatLng, stops: ErrandStop[], end: LatLng | null = null) => {
+  const points = stops.map(stopCoords);
+  const detours = new Map<string, number>();
+  let previous = origin;
+  points.forEach((here, i) => {
+    if (!here) return;
+    const next = points.slice(i + 1).find((p) => p !== null) ?? end;
+    const km = next
+      ? haversineKm(previous, here) + haversineKm(here, next) - haversineKm(previous, next)
+      : haversineKm(previous, here);
+    detours.set(stops[i].id, estimateRoadKm(km));
+    previous = here;
+  });
+  return detours;
+};
+
+/**
+ * Checks the stops still to visit against the user's blocked brands and
+ * detour limit. Done stops are history and never flagged.
+ */
+export const checkPreferences = (
+  plan: ErrandPlan,
+  origin: LatLng | null,
+  prefs: UserPreferences,
+  end: LatLng | null = null
+): PreferenceIssue[] => {
+  const pending = plan.stops.filter((s) => s.status !== 'done');
+  const issues: PreferenceIssue[] = [];
+  pending.forEach((stop) => {
+    const brand = blockedBrandOf(stop, prefs);
+    if (brand) issues.push({ stopId: stop.id, kind: 'blocked', reason: t('preference.blocked', { brand }) });
+  });
+  if (origin && prefs.maxDetourKm !== null) {
+    stopDetoursKm(origin, pending, end).forEach((km, stopId) => {
+      if (km > (prefs.maxDetourKm as number)) {
+        const limit = formatDistance(prefs.maxDetourKm as number);
+        issues.push({ stopId, kind: 'detour', reason: t('preference.detour', { distance: formatDistance(km), limit }) });
+      }
+    });
+  }
+  return issues;
+};
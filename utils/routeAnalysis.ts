@@ -0,0 +1,80 @@
+
+import type { ErrandPlan, LatLng } from '../types';
+import { compareRoute, DEFAULT_ROUTE_OPTIONS, RouteComparison, RouteOptions } from './routeOptimizer';
+import { parseClock } from './time';
+import { t } from './i18n';
+import {
+  checkEstimatedWindows,
+  hasTimeWindow,
+  simulateSchedule,
+  solveTimeWindows,
+  WindowSolution,
+  WindowViolation,
+} from './timeWindows';
+import { baseTravelMode, legMinutesFor, MODE_SPEED_KMH, planTravelMode } from './travelModes';
+
+// --- Types ---
+export interface RouteAnalysis {
+  comparison: RouteComparison | null;
+  // Set when any stop carries a time window and every stop has coordinates.
+  windowSolution: WindowSolution | null;
+  // Window problems with the order currently shown to the user.
+  violations: WindowViolation[];
+}
+
+// Each window the model's order misses beyond ours costs this many points.
+const MISSED_WINDOW_PENALTY = 20;
+
+/**
+ * Runs the local solvers over the stops still to visit: distance-only
+ * sequencing, or the time-window solver when any stop has opening hours or a
+ * deadline. Done stops are behind us and take no part.
+ */
+export const analyzeRoute = (
+  fullPlan: ErrandPlan,
+  origin: LatLng | null,
+  options: RouteOptions = DEFAULT_ROUTE_OPTIONS
+): RouteAnalysis => {
+  const plan = { ...fullPlan, stops: fullPlan.stops.filter((s) => s.status !== 'done') };
+  const departAt = parseClock(plan.departureTime ?? '');
+  const windowed = plan.stops.some(hasTimeWindow);
+
+  if (!windowed || !origin || departAt === null) {
+    return {
+      comparison: compareRoute(origin, plan.stops, options),
+      windowSolution: null,
+      violations: windowed ? checkEstimatedWindows(plan.stops) : [],
+    };
+  }
+
+  const speedKmh = MODE_SPEED_KMH[baseTravelMode(planTravelMode(plan))];
+  const windowSolution = solveTimeWindows(origin, plan.stops, departAt, { ...options, speedKmh });
+  if (!windowSolution) {
+    return {
+      comparison: compareRoute(origin, plan.stops, options),
+      windowSolution: null,
+      violations: checkEstimatedWindows(plan.stops),
+    };
+  }
+
+  // Explain each conflict in the shown order using what the solver learned.
+  const current = simulateSchedule(origin, plan.stops, departAt, { legMinutes: legMinutesFor(fullPlan) });
+  const violations = (current?.violations ?? []).map((v) => {
+    const solved = windowSolution.violations.find((w) => w.stopId === v.stopId);
+    return solved
+      ? { ...v, reason: solved.unreachable ? solved.reason : t('window.noOrderAvoids', { reason: v.reason }), unreachable: solved.unreachable }
+      : { ...v, reason: t('window.fixedByOptimized', { reason: v.reason }) };
+  });
+  const comparison = compareRoute(origin, plan.stops, options, windowSolution.order);
+  if (comparison) {
+    const extraMisses = Math.max(0, violations.length - windowSolution.violations.length);
+    comparison.efficiencyScore = Math.max(0, comparison.efficiencyScore - extraMisses * MISSED_WINDOW_PENALTY);
+  }
+  return { comparison, windowSolution, violations };
+};
+
+// The model's own efficiencyScore is unverifiable; replace it with ours when we can.
+export const scorePlan = (plan: ErrandPlan, origin: LatLng | null, options: RouteOptions = DEFAULT_ROUTE_OPTIONS) => {
+  const { comparison } = analyzeRoute(plan, origin, options);
+  return comparison ? { ...plan, efficiencyScore: comparison.efficiencyScore } : plan;
+};
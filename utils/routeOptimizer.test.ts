@@ -0,0 +1,120 @@
+
+import { describe, expect, it } from 'vitest';
+import type { ErrandStop, LatLng } from '../types';
+import { haversineKm } from './geo';
+import { applyStopOrder, compareRoute, solveRouteOrder } from './routeOptimizer';
+
+const origin = { lat: 0, lng: 0 };
+// Points along the equator, `x` hundredths of a degree east (negative is west).
+const east = (x: number): LatLng => ({ lat: 0, lng: x / 100 });
+
+const stop = (id: string, coords: LatLng | null): ErrandStop => ({
+  id,
+  name: id,
+  address: '',
+  category: 'Errand',
+  reason: '',
+  arrivalEstimate: '',
+  parkingDifficulty: 'Easy',
+  crowdLevel: 'Low',
+  googleMapsUrl: '',
+  ...coords,
+});
+
+const pathKm = (from: LatLng, points: LatLng[], loop = false) => {
+  const path = [from, ...points, ...(loop ? [from] : [])];
+  return path.slice(1).reduce((km, p, i) => km + haversineKm(path[i], p), 0);
+};
+
+const permutations = (items: number[]): number[][] =>
+  items.length <= 1 ? [items] : items.flatMap((x, i) => permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((p) => [x, ...p]));
+
+const bestKm = (from: LatLng, points: LatLng[], loop = false) =>
+  Math.min(...permutations(points.map((_, i) => i)).map((o) => pathKm(from, o.map((i) => points[i]), loop)));
+
+describe('solveRouteOrder', () => {
+  it('visits points along a line in order, whatever order they come in', () => {
+    const { order } = solveRouteOrder(origin, [east(3), east(1), east(4), east(2)]);
+    expect(order).toEqual([1, 3, 0, 2]);
+  });
+
+  it('moves a stop the greedy tour leaves for last', () => {
+    // Nearest-neighbour goes east to 1 and 3, then doubles back to -2 (8 steps);
+    // or-opt moves -2 to the front (7 steps).
+    const points = [east(1), east(-2), east(3)];
+    const { order, km } = solveRouteOrder(origin, points);
+    expect(order).toEqual([1, 0, 2]);
+    expect(km).toBeCloseTo(pathKm(origin, [east(-2), east(1), east(3)]), 6);
+  });
+
+  it('stays within a few percent of the exhaustive optimum on scattered sets', () => {
+    for (let set = 1; set <= 5; set++) {
+      const points = Array.from({ length: 7 }, (_, i) => ({ lat: Math.sin(set * 7 + i * 2.3) / 40, lng: Math.cos(set * 3 + i * 1.7) / 40 }));
+      for (const returnToOrigin of [false, true]) {
+        const best = bestKm(origin, points, returnToOrigin);
+        const { order, km } = solveRouteOrder(origin, points, { returnToOrigin });
+        expect(km).toBeCloseTo(pathKm(origin, order.map((i) => points[i]), returnToOrigin), 6);
+        expect(km).toBeGreaterThanOrEqual(best - 1e-9);
+        expect(km).toBeLessThanOrEqual(best * 1.05);
+      }
+    }
+  });
+
+  it('keeps pinned points at the ends', () => {
+    const { order } = solveRouteOrder(origin, [east(1), east(2), east(3), east(4)], { pinFirst: 3, pinLast: 0 });
+    expect(order).toEqual([3, 2, 1, 0]);
+  });
+
+  it('ignores pins that point outside the list', () => {
+    const { order } = solveRouteOrder(origin, [east(2), east(1)], { pinFirst: 5, pinLast: -1 });
+    expect(order).toEqual([1, 0]);
+  });
+
+  it('never does worse than a seed that respects the pins', () => {
+    const points = [east(1), east(-2), east(3)];
+    const seed = [1, 0, 2];
+    expect(solveRouteOrder(origin, points, { seed }).km).toBeLessThanOrEqual(pathKm(origin, seed.map((i) => points[i])) + 1e-9);
+  });
+});
+
+describe('compareRoute', () => {
+  const stops = [stop('far', east(3)), stop('near', east(1)), stop('mid', east(2))];
+
+  it('reports the distance saved against the model order', () => {
+    const comparison = compareRoute(origin, stops);
+    expect(comparison?.modelOrder).toEqual(['far', 'near', 'mid']);
+    expect(comparison?.optimizedOrder).toEqual(['near', 'mid', 'far']);
+    expect(comparison?.savedKm).toBeCloseTo(pathKm(origin, [east(3), east(1), east(2)]) - pathKm(origin, [east(1), east(2), east(3)]), 6);
+    expect(comparison?.efficiencyScore).toBe(50);
+  });
+
+  it('scores an already optimal order as 100', () => {
+    const comparison = compareRoute(origin, applyStopOrder(stops, ['near', 'mid', 'far']));
+    expect(comparison).toMatchObject({ savedKm: 0, efficiencyScore: 100 });
+  });
+
+  it('never reports negative savings when a pin forces a longer tour', () => {
+    const ordered = applyStopOrder(stops, ['near', 'mid', 'far']);
+    const comparison = compareRoute(origin, ordered, { returnToOrigin: false, pinFirstId: 'far' });
+    expect(comparison?.optimizedOrder[0]).toBe('far');
+    expect(comparison?.savedKm).toBe(0);
+  });
+
+  it('scores a candidate order instead of solving one', () => {
+    const comparison = compareRoute(origin, stops, undefined, ['mid', 'near', 'far']);
+    expect(comparison?.optimizedOrder).toEqual(['mid', 'near', 'far']);
+    expect(comparison?.optimizedKm).toBeCloseTo(pathKm(origin, [east(2), east(1), east(3)]), 6);
+  });
+
+  it('skips the comparison without an origin or with a stop missing coordinates', () => {
+    expect(compareRoute(null, stops)).toBeNull();
+    expect(compareRoute(origin, [...stops, stop('unknown', null)])).toBeNull();
+  });
+});
+
+describe('applyStopOrder', () => {
+  it('reorders by id and drops ids it does not know', () => {
+    const stops = [stop('a', east(1)), stop('b', east(2))];
+    expect(applyStopOrder(stops, ['b', 'gone', 'a']).map((s) => s.id)).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,207 @@
+
+import type { ErrandStop, LatLng } from '../types';
+import { haversineKm, stopCoords } from './geo';
+
+// --- Types ---
+export interface RouteOptions {
+  // Close the loop back to the origin instead of ending at the last stop.
+  returnToOrigin: boolean;
+  pinFirstId?: string;
+  pinLastId?: string;
+}
+
+export interface RouteComparison {
+  modelOrder: string[];
+  optimizedOrder: string[];
+  modelKm: number;
+  optimizedKm: number;
+  savedKm: number;
+  efficiencyScore: number;
+}
+
+export const DEFAULT_ROUTE_OPTIONS: RouteOptions = { returnToOrigin: false };
+
+// Local search is cubic in the stop count; past this we keep the greedy tour.
+const MAX_LOCAL_SEARCH_STOPS = 40;
+
+type DistanceFn = (a: number, b: number) => number;
+
+/**
+ * Cost of visiting `order` from the origin (node -1). Nodes are indexes into
+ * the point list so the distance lookups stay cheap.
+ */
+const tourCost = (order: number[], dist: DistanceFn, loop: boolean) => {
+  if (!order.length) return 0;
+  let total = dist(-1, order[0]);
+  for (let i = 1; i < order.length; i++) total += dist(order[i - 1], order[i]);
+  if (loop) total += dist(order[order.length - 1], -1);
+  return total;
+};
+
+const nearestNeighbour = (nodes: number[], dist: DistanceFn, start: number) => {
+  const remaining = new Set(nodes);
+  const order: number[] = [];
+  let current = start;
+  while (remaining.size) {
+    let best = -1;
+    let bestDist = Infinity;
+    remaining.forEach((n) => {
+      const d = dist(current, n);
+      if (d < bestDist) {
+        bestDist = d;
+        best = n;
+      }
+    });
+    order.push(best);
+    remaining.delete(best);
+    current = best;
+  }
+  return order;
+};
+
+// Reverses order[i..j] whenever that shortens the tour.
+const twoOptPass = (order: number[], lo: number, hi: number, cost: (o: number[]) => number) => {
+  let improved = false;
+  let best = cost(order);
+  for (let i = lo; i < hi - 1; i++) {
+    for (let j = i + 1; j < hi; j++) {
+      const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+      const c = cost(candidate);
+      if (c < best - 1e-9) {
+        order.splice(0, order.length, ...candidate);
+        best = c;
+        improved = true;
+      }
+    }
+  }
+  return improved;
+};
+
+// Relocates runs of 1-3 stops to a better slot.
+const orOptPass = (order: number[], lo: number, hi: number, cost: (o: number[]) => number) => {
+  let improved = false;
+  let best = cost(order);
+  for (let len = 1; len <= 3; len++) {
+    for (let i = lo; i + len <= hi; i++) {
+      const segment = order.slice(i, i + len);
+      const rest = [...order.slice(0, i), ...order.slice(i + len)];
+      for (let k = lo; k <= hi - len; k++) {
+        if (k === i) continue;
+        const candidate = [...rest.slice(0, k), ...segment, ...rest.slice(k)];
+        const c = cost(candidate);
+        if (c < best - 1e-9) {
+          order.splice(0, order.length, ...candidate);
+          best = c;
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+  return improved;
+};
+
+/**
+ * Orders `points` to minimise straight-line travel from `origin`. Greedy
+ * nearest-neighbour seed (plus `seed`, when given), then 2-opt and or-opt
+ * until neither improves. Pinned first/last indexes stay at the ends.
+ */
+export const solveRouteOrder = (
+  origin: LatLng,
+  points: LatLng[],
+  {
+    returnToOrigin = false,
+    pinFirst,
+    pinLast,
+    seed,
+  }: { returnToOrigin?: boolean; pinFirst?: number; pinLast?: number; seed?: number[] } = {}
+) => {
+  const node = (i: number) => (i === -1 ? origin : points[i]);
+  const dist: DistanceFn = (a, b) => haversineKm(node(a), node(b));
+  const cost = (o: number[]) => tourCost(o, dist, returnToOrigin);
+
+  const first = pinFirst !== undefined && pinFirst >= 0 && pinFirst < points.length ? pinFirst : undefined;
+  const last =
+    pinLast !== undefined && pinLast >= 0 && pinLast < points.length && pinLast !== first ? pinLast : undefined;
+  const free = points.map((_, i) => i).filter((i) => i !== first && i !== last);
+  const lo = first !== undefined ? 1 : 0;
+  const hi = points.length - (last !== undefined ? 1 : 0);
+
+  const improve = (order: number[]) => {
+    if (points.length <= MAX_LOCAL_SEARCH_STOPS) {
+      let guard = 0;
+      while ((twoOptPass(order, lo, hi, cost) || orOptPass(order, lo, hi, cost)) && guard++ < 100);
+    }
+    return order;
+  };
+
+  const candidates = [
+    improve([
+      ...(first !== undefined ? [first] : []),
+      ...nearestNeighbour(free, dist, first ?? -1),
+      ...(last !== undefined ? [last] : []),
+    ]),
+  ];
+  const seedRespectsPins =
+    seed &&
+    seed.length === points.length &&
+    (first === undefined || seed[0] === first) &&
+    (last === undefined || seed[seed.length - 1] === last);
+  if (seedRespectsPins) candidates.push(improve([...seed]));
+
+  const order = candidates.reduce((best, o) => (cost(o) < cost(best) ? o : best));
+  return { order, km: cost(order) };
+};
+
+/**
+ * Compares the model's stop order against our own solution, or against
+ * `candidateOrder` when another solver (e.g. time windows) already chose one.
+ * Returns null when any stop is missing coordinates, since a partial
+ * comparison would be misleading.
+ */
+export const compareRoute = (
+  origin: LatLng | null,
+  stops: ErrandStop[],
+  options: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+  candidateOrder?: string[]
+): RouteComparison | null => {
+  if (!origin || stops.length === 0) return null;
+  const points = stops.map(stopCoords);
+  if (points.some((p) => p === null)) return null;
+  const coords = points as LatLng[];
+
+  const indexOf = (id?: string) => (id ? stops.findIndex((s) => s.id === id) : -1);
+  const dist: DistanceFn = (a, b) => haversineKm(a === -1 ? origin : coords[a], b === -1 ? origin : coords[b]);
+  const modelSeed = stops.map((_, i) => i);
+  const modelKm = tourCost(modelSeed, dist, options.returnToOrigin);
+
+  let order: number[];
+  let km: number;
+  if (candidateOrder && candidateOrder.length === stops.length) {
+    order = candidateOrder.map(indexOf);
+    km = tourCost(order, dist, options.returnToOrigin);
+  } else {
+    ({ order, km } = solveRouteOrder(origin, coords, {
+      returnToOrigin: options.returnToOrigin,
+      pinFirst: indexOf(options.pinFirstId),
+      pinLast: indexOf(options.pinLastId),
+      seed: modelSeed,
+    }));
+  }
+
+  return {
+    modelOrder: stops.map((s) => s.id),
+    optimizedOrder: order.map((i) => stops[i].id),
+    modelKm,
+    optimizedKm: km,
+    // Pins can force a longer tour than the model's unpinned one.
+    savedKm: Math.max(0, modelKm - km),
+    efficiencyScore: modelKm > 0 ? Math.min(100, Math.round((100 * km) / modelKm)) : 100,
+  };
+};
+
+export const applyStopOrder = (stops: ErrandStop[], order: string[]) => {
+  const byId = new Map(stops.map((s) => [s.id, s]));
+  return order.map((id) => byId.get(id)).filter((s): s is ErrandStop => !!s);
+};
+
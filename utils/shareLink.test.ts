@@ -0,0 +1,70 @@
+
+import { describe, expect, it } from 'vitest';
+import type { ErrandPlan } from '../types';
+import { toggleItem } from './errandItems';
+import { finalizeNewPlan } from './planFinalize';
+import { validatePlan } from './planSchema';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptimizer';
+import { decodeSharedPlan, encodeSharedPlan } from './shareLink';
+
+const origin = { lat: 37.7749, lng: -122.4194 };
+
+const parsed = validatePlan({
+  summary: 'Café y farmacia',
+  stops: [
+    { id: '1', name: 'Café Ñandú', address: '1 Oak St', lat: 37.78, lng: -122.41, items: ['café', 'pan'] },
+    { id: '2', name: 'Pharmacy', address: '2 Pine St', lat: 37.77, lng: -122.43, items: ['pañales'] },
+  ],
+  unassignedItems: ['stamps'],
+}).plan as ErrandPlan;
+
+const finalized = finalizeNewPlan(parsed, {
+  origin,
+  now: new Date(2024, 0, 1, 9, 30),
+  dwellDefaults: {},
+  routeOptions: DEFAULT_ROUTE_OPTIONS,
+  preferences: { places: [], preferredBrands: [], blockedBrands: [], maxDetourKm: null },
+  travelMode: 'walking',
+});
+const plan = ['pan', 'stamps'].reduce(toggleItem, {
+  ...finalized,
+  stops: finalized.stops.map((s, i) => (i === 0 ? { ...s, status: 'done' as const } : s)),
+});
+
+const encode = (payload: unknown) =>
+  Buffer.from(JSON.stringify(payload)).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('shared plan links', () => {
+  it('round-trips statuses, item check marks and timing', () => {
+    const shared = decodeSharedPlan(encodeSharedPlan({ plan, origin, locationName: 'Home' }));
+    expect(shared?.origin).toEqual(origin);
+    expect(shared?.plan.stops.map((s) => s.status)).toEqual(plan.stops.map((s) => s.status));
+    expect(shared?.plan.stops.map((s) => s.items)).toEqual(plan.stops.map((s) => s.items));
+    expect(shared?.plan.unassignedItems).toEqual(plan.unassignedItems);
+    expect(plan.timing?.legs.length).toBeGreaterThan(0);
+    expect(shared?.plan.timing).toEqual(plan.timing);
+    expect(shared?.plan.departureTime).toBe(plan.departureTime);
+    expect(shared?.plan.travelMode).toBe('walking');
+  });
+
+  it('drops a malformed time breakdown but keeps the plan', () => {
+    const payload = JSON.parse(Buffer.from(encodeSharedPlan({ plan, origin, locationName: 'Home' }), 'base64url').toString());
+    payload.plan.timing.legs[0].arriveAt = 'noon';
+    const shared = decodeSharedPlan(encode(payload));
+    expect(shared?.plan.stops).toHaveLength(2);
+    expect(shared?.plan.timing).toBeUndefined();
+  });
+
+  it.each([
+    ['not base64 json', '%%%'],
+    ['a wrong version', encode({ v: 99, plan })],
+    ['a non-object plan', encode({ v: 1, plan: 'stops' })],
+    ['a bare array', encode([1, 2])],
+  ])('rejects %s', (_, encoded) => {
+    expect(decodeSharedPlan(encoded)).toBeNull();
+  });
+
+  it('ignores an origin that is not a coordinate', () => {
+    expect(decodeSharedPlan(encode({ v: 1, plan, origin: { lat: 'x', lng: 1 } }))?.origin).toBeNull();
+  });
+});
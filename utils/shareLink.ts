@@ -0,0 +1,141 @@
+
+import type { ErrandPlan, LatLng, PlanLeg, PlanTiming, StopStatus, TravelMode, TravelModeSetting } from '../types';
+import { buildPlaceUrl, isRecord, validatePlan } from './planSchema';
+import { readHouseholdMembers } from './household';
+import { t } from './i18n';
+
+// --- Types ---
+export interface SharedPlan {
+  plan: ErrandPlan;
+  origin: LatLng | null;
+  locationName: string;
+}
+
+const FRAGMENT_KEY = 'plan';
+const SHARE_VERSION = 1;
+const STATUSES: StopStatus[] = ['pending', 'arrived', 'done'];
+const LEG_MODES: TravelMode[] = ['driving', 'walking', 'bicycling', 'transit'];
+const TRAVEL_MODE_SETTINGS: TravelModeSetting[] = [...LEG_MODES, 'park-walk'];
+
+// base64url over UTF-8 so names with accents survive the round trip.
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+/**
+ * Encodes a plan for the URL fragment. Fields the reader can rebuild
+ * (place URLs derived from name and address, the reroute change log) are
+ * dropped to keep links short. The fragment never reaches a server.
+ */
+export const encodeSharedPlan = ({ plan, origin, locationName }: SharedPlan) => {
+  const { changeLog, ...rest } = plan;
+  const compact = {
+    ...rest,
+    stops: plan.stops.map(({ googleMapsUrl, ...stop }) =>
+      googleMapsUrl === buildPlaceUrl(stop.name, stop.address) ? stop : { ...stop, googleMapsUrl }
+    ),
+  };
+  return toBase64Url(JSON.stringify({ v: SHARE_VERSION, plan: compact, origin, locationName }));
+};
+
+const isOneOf = <T extends string>(options: readonly T[], val: unknown): val is T => options.includes(val as T);
+
+const isNumber = (val: unknown): val is number => typeof val === 'number' && Number.isFinite(val);
+
+// Null marks the route's start or end.
+const isStopRef = (val: unknown): val is string | null => val === null || typeof val === 'string';
+
+const LEG_NUMBERS = ['departAt', 'arriveAt', 'travelMinutes', 'waitMinutes', 'dwellMinutes'] as const;
+
+const readLeg = (raw: unknown): PlanLeg | null => {
+  if (!isRecord(raw) || !isOneOf(LEG_MODES, raw.mode) || !isStopRef(raw.fromId) || !isStopRef(raw.toId)) return null;
+  if (!LEG_NUMBERS.every((key) => isNumber(raw[key]))) return null;
+  const leg = raw as Record<(typeof LEG_NUMBERS)[number], number>;
+  return {
+    fromId: raw.fromId,
+    toId: raw.toId,
+    mode: raw.mode,
+    distanceKm: isNumber(raw.distanceKm) ? raw.distanceKm : null,
+    departAt: leg.departAt,
+    arriveAt: leg.arriveAt,
+    travelMinutes: leg.travelMinutes,
+    waitMinutes: leg.waitMinutes,
+    dwellMinutes: leg.dwellMinutes,
+    ...(typeof raw.assigneeId === 'string' ? { assigneeId: raw.assigneeId } : {}),
+  };
+};
+
+// The time breakdown is derived data; a malformed one is dropped whole rather than half-shown.
+const readTiming = (raw: unknown): PlanTiming | undefined => {
+  if (!isRecord(raw) || !isNumber(raw.departAt) || !isNumber(raw.endAt) || !Array.isArray(raw.legs)) return undefined;
+  const legs = raw.legs.map(readLeg);
+  if (legs.some((leg) => leg === null)) return undefined;
+  return {
+    departAt: raw.departAt,
+    endAt: raw.endAt,
+    ...(isNumber(raw.returnAt) ? { returnAt: raw.returnAt } : {}),
+    legs: legs as PlanLeg[],
+  };
+};
+
+/**
+ * Reverse of encodeSharedPlan. Shared links are untrusted input, so the plan
+ * goes through the same validation as model output. Returns null for
+ * anything that does not decode to a usable plan.
+ */
+export const decodeSharedPlan = (encoded: string): SharedPlan | null => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return null;
+  }
+  if (!isRecord(payload) || payload.v !== SHARE_VERSION || !isRecord(payload.plan)) return null;
+
+  const rawPlan = payload.plan;
+  const { plan } = validatePlan(rawPlan);
+  if (!plan) return null;
+
+  // validatePlan reads the model schema; carry over the fields only the app sets.
+  const rawStops = Array.isArray(rawPlan.stops) ? rawPlan.stops : [];
+  plan.stops.forEach((stop, i) => {
+    const raw = rawStops[i];
+    if (!isRecord(raw)) return;
+    if (isOneOf(STATUSES, raw.status)) stop.status = raw.status;
+    if (isOneOf(LEG_MODES, raw.legMode)) stop.legMode = raw.legMode;
+    if (typeof raw.clusterId === 'string') stop.clusterId = raw.clusterId;
+  });
+  plan.orderLocked = rawPlan.orderLocked === true || undefined;
+  if (isOneOf(TRAVEL_MODE_SETTINGS, rawPlan.travelMode)) plan.travelMode = rawPlan.travelMode;
+  const household = readHouseholdMembers(rawPlan.household);
+  if (household.length) plan.household = household;
+  plan.timing = readTiming(rawPlan.timing);
+
+  const origin = payload.origin;
+  const validOrigin = isRecord(origin) && isNumber(origin.lat) && isNumber(origin.lng)
+    ? { lat: origin.lat, lng: origin.lng }
+    : null;
+  return {
+    plan,
+    origin: validOrigin,
+    locationName: typeof payload.locationName === 'string' ? payload.locationName : t('plan.sharedFallbackName'),
+  };
+};
+
+export const buildShareUrl = (shared: SharedPlan, baseUrl: string) =>
+  `${baseUrl.split('#')[0]}#${FRAGMENT_KEY}=${encodeSharedPlan(shared)}`;
+
+// Reads `#plan=...` from a location hash; null when absent or invalid.
+export const readSharedPlanFromHash = (hash: string): SharedPlan | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(FRAGMENT_KEY);
+  return encoded ? decodeSharedPlan(encoded) : null;
+};
@@ -0,0 +1,54 @@
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { detectLocale, setActiveLocale } from './i18n';
+import { formatClock, parseClock, toClockString } from './time';
+
+const at = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+describe('parseClock', () => {
+  it.each([
+    ['6', at(18)],
+    ['3:15', at(15, 15)],
+    ['7:59', at(19, 59)],
+    ['8:30', at(8, 30)],
+    ['12', at(12)],
+  ])('reads unpadded %s as a daytime deadline', (text, minutes) => {
+    expect(parseClock(text)).toBe(minutes);
+  });
+
+  it.each([
+    ['03:15', at(3, 15)],
+    ['07:30', at(7, 30)],
+    ['00:05', at(0, 5)],
+    ['18:00', at(18)],
+  ])('keeps zero-padded %s as 24h', (text, minutes) => {
+    expect(parseClock(text)).toBe(minutes);
+  });
+
+  it.each([
+    ['6:00 PM', at(18)],
+    ['3:15 am', at(3, 15)],
+    ['12 a.m.', at(0)],
+    ['12pm', at(12)],
+  ])('follows an explicit meridiem in %s', (text, minutes) => {
+    expect(parseClock(text)).toBe(minutes);
+  });
+
+  it.each(['', 'soon', '24:00', '13pm', '6:75'])('rejects %j', (text) => {
+    expect(parseClock(text)).toBeNull();
+  });
+});
+
+describe('clock round trips', () => {
+  afterEach(() => setActiveLocale(detectLocale('en-US')));
+
+  it('reads back every stored and displayed time', () => {
+    for (let minutes = 0; minutes < 1440; minutes += 15) {
+      expect(parseClock(toClockString(minutes))).toBe(minutes);
+      setActiveLocale({ ...detectLocale('en-US'), clock: '12h' });
+      expect(parseClock(formatClock(minutes))).toBe(minutes);
+      setActiveLocale({ ...detectLocale('en-US'), clock: '24h' });
+      expect(parseClock(formatClock(minutes))).toBe(minutes);
+    }
+  });
+});
@@ -0,0 +1,52 @@
+
+import { getActiveLocale } from './i18n';
+
+// Clock times are minutes since local midnight throughout the planner.
+
+/**
+ * Parses loose clock text ("6", "6pm", "6:00 PM", "18:00", "3:15") into
+ * minutes since midnight. Hours 1-7 without a meridiem or leading zero are
+ * read as PM, which matches how people talk about errand deadlines ("pick
+ * up kid at 3:15"); zero-padded "07:30", the stored and 24h format, stays
+ * as written.
+ */
+export const parseClock = (text: string): number | null => {
+  const match = text.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?$/);
+  if (!match) return null;
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.[0];
+  if (hours > 23 || minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'p' && hours !== 12) hours += 12;
+    if (meridiem === 'a' && hours === 12) hours = 0;
+  } else if (!match[1].startsWith('0') && hours >= 1 && hours <= 7) {
+    hours += 12;
+  }
+  return hours * 60 + minutes;
+};
+
+// "HH:MM" 24h; the canonical storage format for stop time fields.
+export const toClockString = (minutes: number) => {
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+};
+
+// "h:mm AM/PM", or "HH:MM" when the user prefers a 24-hour clock. Both parse back with parseClock.
+export const formatClock = (minutes: number) => {
+  if (getActiveLocale().clock === '24h') return toClockString(minutes);
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  const hours = Math.floor(m / 60);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(m % 60).padStart(2, '0')} ${suffix}`;
+};
+
+export const minutesSinceMidnight = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+// "1h 45m" / "25m", the format the model uses for totalTime.
+export const formatDuration = (minutes: number) => {
+  const m = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(m / 60);
+  return hours ? `${hours}h ${m % 60}m` : `${m}m`;
+};
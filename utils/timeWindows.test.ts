@@ -0,0 +1,114 @@
+
+import { describe, expect, it } from 'vitest';
+import type { ErrandStop, LatLng } from '../types';
+import { checkEstimatedWindows, simulateSchedule, solveTimeWindows } from './timeWindows';
+import { toClockString } from './time';
+
+const at = (hours: number, minutes = 0) => hours * 60 + minutes;
+const origin = { lat: 0, lng: 0 };
+// Points along the equator, `x` hundredths of a degree (about 1.1 km, 3 driving minutes) east.
+const east = (x: number): LatLng => ({ lat: 0, lng: x / 100 });
+
+const stop = (id: string, coords: LatLng | null, windows: Partial<ErrandStop> = {}): ErrandStop => ({
+  id,
+  name: id,
+  address: '',
+  category: 'Errand',
+  reason: '',
+  arrivalEstimate: '',
+  parkingDifficulty: 'Easy',
+  crowdLevel: 'Low',
+  googleMapsUrl: '',
+  ...coords,
+  ...windows,
+});
+
+describe('simulateSchedule', () => {
+  it('waits for a stop to open and adds its service time', () => {
+    const schedule = simulateSchedule(origin, [stop('bank', east(1), { openFrom: '09:30', serviceMinutes: 10 })], at(9));
+    expect(schedule?.visits[0]).toMatchObject({ arriveAt: at(9, 3), startAt: at(9, 30), waitMinutes: 27, departAt: at(9, 40) });
+    expect(schedule?.violations).toEqual([]);
+  });
+
+  it('needs coordinates unless given a stand-in leg time', () => {
+    const stops = [stop('known', east(1)), stop('unknown', null)];
+    expect(simulateSchedule(origin, stops, at(9))).toBeNull();
+    const schedule = simulateSchedule(origin, stops, at(9), { unknownLegMinutes: 20 });
+    expect(schedule?.visits[1]).toMatchObject({ travelMinutes: 20, distanceKm: null });
+  });
+
+  it('takes leg times from legMinutes when given', () => {
+    const schedule = simulateSchedule(origin, [stop('a', east(1)), stop('b', east(2))], at(9), {
+      legMinutes: (from) => (from ? 7 : 5),
+    });
+    expect(schedule?.visits.map((v) => v.travelMinutes)).toEqual([5, 7]);
+  });
+
+  it('adds up lateness for missed deadlines and closing times', () => {
+    const schedule = simulateSchedule(origin, [
+      stop('post', east(1), { mustArriveBy: '09:00' }),
+      stop('deli', east(2), { openUntil: '09:20' }),
+    ], at(9));
+    // Post: arrives 9:03, 3 late. Deli: arrives 9:21 and would finish at 9:36, 16 late.
+    expect(schedule?.violations.map((v) => v.stopId)).toEqual(['post', 'deli']);
+    expect(schedule?.latenessMinutes).toBe(19);
+  });
+});
+
+describe('solveTimeWindows', () => {
+  it('finds the only order that fits among 8 stops', () => {
+    // Each stop opens for half an hour, an hour after the one before, in an order unrelated to distance.
+    const slots = [5, 2, 7, 0, 3, 6, 1, 4];
+    const stops = slots.map((slot, i) => {
+      const opens = at(10) + slot * 60;
+      return stop(`s${i}`, east(i + 1), { openFrom: toClockString(opens), openUntil: toClockString(opens + 30) });
+    });
+    const solution = solveTimeWindows(origin, stops, at(9));
+    expect(solution?.violations).toEqual([]);
+    expect(solution?.order).toEqual(['s3', 's6', 's1', 's4', 's7', 's0', 's5', 's2']);
+  });
+
+  it('puts a deadline ahead of a shorter route', () => {
+    const stops = [stop('near', east(1)), stop('far', east(-5), { mustArriveBy: '09:20' })];
+    expect(solveTimeWindows(origin, stops, at(9))?.order).toEqual(['far', 'near']);
+  });
+
+  it('keeps pinned stops at the ends', () => {
+    const stops = [stop('a', east(1)), stop('b', east(2)), stop('c', east(3))];
+    expect(solveTimeWindows(origin, stops, at(9), { pinFirstId: 'c', pinLastId: 'b' })?.order).toEqual(['c', 'a', 'b']);
+  });
+
+  it('marks a stop unreachable when it misses its window even as the first stop', () => {
+    const solution = solveTimeWindows(origin, [stop('post', east(10), { mustArriveBy: '09:10' }), stop('cafe', east(1))], at(9));
+    expect(solution?.violations).toHaveLength(1);
+    expect(solution?.violations[0]).toMatchObject({ stopId: 'post', unreachable: true });
+    expect(solution?.violations[0].reason).toMatch(/even as the first stop/);
+  });
+
+  it('blames earlier stops when two deadlines cannot both be met', () => {
+    const stops = [
+      stop('west', east(-10), { mustArriveBy: '09:30' }),
+      stop('east', east(10), { mustArriveBy: '09:30' }),
+    ];
+    const solution = solveTimeWindows(origin, stops, at(9));
+    expect(solution?.violations).toHaveLength(1);
+    expect(solution?.violations[0]).toMatchObject({ unreachable: false });
+    expect(solution?.violations[0].reason).toMatch(/because of earlier stops/);
+  });
+
+  it('needs coordinates for every stop', () => {
+    expect(solveTimeWindows(origin, [stop('a', east(1)), stop('b', null)], at(9))).toBeNull();
+    expect(solveTimeWindows(origin, [], at(9))).toBeNull();
+  });
+});
+
+describe('checkEstimatedWindows', () => {
+  it('checks the estimated arrival text when the plan cannot be simulated', () => {
+    const stops = [
+      stop('late', null, { arrivalEstimate: '10:00', mustArriveBy: '09:30' }),
+      stop('fine', null, { arrivalEstimate: '09:00', openFrom: '09:30', openUntil: '11:00' }),
+      stop('unknown', null, { arrivalEstimate: 'soon', mustArriveBy: '09:30' }),
+    ];
+    expect(checkEstimatedWindows(stops).map((v) => v.stopId)).toEqual(['late']);
+  });
+});
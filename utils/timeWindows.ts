@@ -0,0 +1,254 @@
+
+import type { ErrandStop, LatLng } from '../types';
+import { estimateTravelMinutes, haversineKm, stopCoords } from './geo';
+import { solveRouteOrder } from './routeOptimizer';
+import { formatClock, parseClock } from './time';
+import { t } from './i18n';
+
+// --- Types ---
+export interface StopVisit {
+  stopId: string;
+  arriveAt: number;
+  startAt: number;
+  departAt: number;
+  waitMinutes: number;
+  travelMinutes: number;
+  // Null for guessed legs touching a stop without coordinates.
+  distanceKm: number | null;
+}
+
+export interface WindowViolation {
+  stopId: string;
+  reason: string;
+  // True when the stop misses its window even if visited first.
+  unreachable: boolean;
+}
+
+export interface StopSchedule {
+  visits: StopVisit[];
+  violations: WindowViolation[];
+  latenessMinutes: number;
+  endAt: number;
+}
+
+export interface WindowSolution extends StopSchedule {
+  order: string[];
+}
+
+export const DEFAULT_SERVICE_MINUTES = 15;
+
+// Exhaustive search is exact and still instant at this size (8! orders).
+const MAX_EXACT_STOPS = 8;
+
+const clockOf = (val?: string) => (val ? parseClock(val) : null);
+
+export const hasTimeWindow = (stop: ErrandStop) => !!(stop.openFrom || stop.openUntil || stop.mustArriveBy);
+
+const serviceOf = (stop: ErrandStop) => stop.serviceMinutes ?? DEFAULT_SERVICE_MINUTES;
+
+/**
+ * Checks a single visit against the stop's windows. Returns the reason and
+ * how many minutes late the visit is, or null when it fits.
+ */
+const checkVisit = (stop: ErrandStop, arriveAt: number, startAt: number) => {
+  const closes = clockOf(stop.openUntil);
+  const deadline = clockOf(stop.mustArriveBy);
+  if (deadline !== null && arriveAt > deadline) {
+    return {
+      reason: t('window.lateArrival', { deadline: formatClock(deadline), time: formatClock(arriveAt) }),
+      late: arriveAt - deadline,
+    };
+  }
+  if (closes !== null && startAt + serviceOf(stop) > closes) {
+    return {
+      reason: startAt >= closes
+        ? t('window.closed', { closes: formatClock(closes), time: formatClock(startAt) })
+        : t('window.tooShort', { closes: formatClock(closes), minutes: serviceOf(stop), time: formatClock(startAt) }),
+      late: startAt + serviceOf(stop) - closes,
+    };
+  }
+  return null;
+};
+
+/**
+ * Simulates driving `stops` in order from `origin`, leaving at `departAt`
+ * (minutes since midnight). Early arrivals wait for `openFrom`. Returns null
+ * when any stop lacks coordinates, unless `unknownLegMinutes` is given as a
+ * stand-in travel time for legs touching such a stop. Known legs take
+ * `legMinutes` when given (from is null for the origin), else distance at
+ * `speedKmh`, which defaults to driving pace.
+ */
+export const simulateSchedule = (
+  origin: LatLng,
+  stops: ErrandStop[],
+  departAt: number,
+  {
+    unknownLegMinutes,
+    speedKmh,
+    legMinutes,
+  }: {
+    unknownLegMinutes?: number;
+    speedKmh?: number;
+    legMinutes?: (from: ErrandStop | null, to: ErrandStop, km: number) => number;
+  } = {}
+): StopSchedule | null => {
+  const coords = stops.map(stopCoords);
+  if (unknownLegMinutes === undefined && coords.some((c) => c === null)) return null;
+
+  const visits: StopVisit[] = [];
+  const violations: WindowViolation[] = [];
+  let latenessMinutes = 0;
+  let clock = departAt;
+  let here = origin;
+  let previous: ErrandStop | null = null;
+
+  stops.forEach((stop, i) => {
+    const there = coords[i];
+    const km = there ? haversineKm(here, there) : 0;
+    const travelMinutes = !there
+      ? (unknownLegMinutes as number)
+      : legMinutes
+        ? legMinutes(previous, stop, km)
+        : estimateTravelMinutes(km, speedKmh);
+    const arriveAt = clock + travelMinutes;
+    const opens = clockOf(stop.openFrom);
+    const startAt = opens !== null && arriveAt < opens ? opens : arriveAt;
+    const departStop = startAt + serviceOf(stop);
+    visits.push({
+      stopId: stop.id,
+      arriveAt,
+      startAt,
+      departAt: departStop,
+      waitMinutes: startAt - arriveAt,
+      travelMinutes,
+      distanceKm: there ? km : null,
+    });
+
+    const miss = checkVisit(stop, arriveAt, startAt);
+    if (miss) {
+      latenessMinutes += miss.late;
+      violations.push({ stopId: stop.id, reason: miss.reason, unreachable: false });
+    }
+    clock = departStop;
+    previous = stop;
+    if (there) here = there;
+  });
+
+  return { visits, violations, latenessMinutes, endAt: clock };
+};
+
+// Lexicographic: fewest missed windows, then least lateness, then earliest finish.
+const isBetter = (a: StopSchedule, b: StopSchedule) => {
+  if (a.violations.length !== b.violations.length) return a.violations.length < b.violations.length;
+  if (a.latenessMinutes !== b.latenessMinutes) return a.latenessMinutes < b.latenessMinutes;
+  return a.endAt < b.endAt;
+};
+
+const permutations = function* (items: ErrandStop[]): Generator<ErrandStop[]> {
+  if (items.length <= 1) {
+    yield items;
+    return;
+  }
+  for (let i = 0; i < items.length; i++) {
+    const rest = [...items.slice(0, i), ...items.slice(i + 1)];
+    for (const tail of permutations(rest)) yield [items[i], ...tail];
+  }
+};
+
+/**
+ * Finds a stop order that honours opening hours and arrival deadlines
+ * (a small TSP with time windows). Exact for up to MAX_EXACT_STOPS free
+ * stops; beyond that, relocation local search seeded from the distance
+ * solution and a deadline-sorted order. Infeasible stops are reported with
+ * the reason from the best order found.
+ */
+export const solveTimeWindows = (
+  origin: LatLng,
+  stops: ErrandStop[],
+  departAt: number,
+  { pinFirstId, pinLastId, speedKmh }: { pinFirstId?: string; pinLastId?: string; speedKmh?: number } = {}
+): WindowSolution | null => {
+  if (!stops.length || stops.some((s) => !stopCoords(s))) return null;
+
+  const first = stops.find((s) => s.id === pinFirstId);
+  const last = stops.find((s) => s.id === pinLastId && s !== first);
+  const free = stops.filter((s) => s !== first && s !== last);
+  const assemble = (middle: ErrandStop[]) => [
+    ...(first ? [first] : []),
+    ...middle,
+    ...(last ? [last] : []),
+  ];
+
+  let bestOrder = assemble(free);
+  let best = simulateSchedule(origin, bestOrder, departAt, { speedKmh }) as StopSchedule;
+  const consider = (middle: ErrandStop[]) => {
+    const order = assemble(middle);
+    const schedule = simulateSchedule(origin, order, departAt, { speedKmh }) as StopSchedule;
+    if (isBetter(schedule, best)) {
+      best = schedule;
+      bestOrder = order;
+      return true;
+    }
+    return false;
+  };
+
+  if (free.length <= MAX_EXACT_STOPS) {
+    for (const middle of permutations(free)) consider(middle);
+  } else {
+    const distanceOrder = solveRouteOrder(origin, free.map((s) => stopCoords(s) as LatLng)).order.map((i) => free[i]);
+    const deadlineOf = (s: ErrandStop) => clockOf(s.mustArriveBy) ?? clockOf(s.openUntil) ?? Infinity;
+    consider(distanceOrder);
+    consider([...free].sort((a, b) => deadlineOf(a) - deadlineOf(b)));
+
+    let improved = true;
+    let guard = 0;
+    while (improved && guard++ < 50) {
+      improved = false;
+      const middle = bestOrder.filter((s) => s !== first && s !== last);
+      for (let i = 0; i < middle.length && !improved; i++) {
+        const rest = [...middle.slice(0, i), ...middle.slice(i + 1)];
+        for (let k = 0; k <= rest.length && !improved; k++) {
+          if (k === i) continue;
+          improved = consider([...rest.slice(0, k), middle[i], ...rest.slice(k)]);
+        }
+      }
+    }
+  }
+
+  // Distinguish "bad luck with ordering" from "impossible no matter what".
+  const violations = best.violations.map((v) => {
+    const stop = stops.find((s) => s.id === v.stopId) as ErrandStop;
+    const solo = simulateSchedule(origin, [stop], departAt, { speedKmh }) as StopSchedule;
+    return solo.violations.length
+      ? { ...v, reason: t('window.evenFirst', { reason: solo.violations[0].reason }), unreachable: true }
+      : { ...v, reason: t('window.earlierStops', { reason: v.reason }) };
+  });
+
+  return { ...best, violations, order: bestOrder.map((s) => s.id) };
+};
+
+/**
+ * Window check for plans we cannot simulate (missing coordinates): falls
+ * back to the model's own arrivalEstimate text.
+ */
+export const checkEstimatedWindows = (stops: ErrandStop[]): WindowViolation[] =>
+  stops.flatMap((stop) => {
+    const arriveAt = parseClock(stop.arrivalEstimate);
+    if (arriveAt === null || !hasTimeWindow(stop)) return [];
+    const opens = clockOf(stop.openFrom);
+    const miss = checkVisit(stop, arriveAt, opens !== null && arriveAt < opens ? opens : arriveAt);
+    return miss ? [{ stopId: stop.id, reason: miss.reason, unreachable: false }] : [];
+  });
+
+// Short human label for a stop's windows, e.g. "9:00 AM–6:00 PM · by 3:15 PM".
+export const describeWindow = (stop: ErrandStop) => {
+  const opens = clockOf(stop.openFrom);
+  const closes = clockOf(stop.openUntil);
+  const deadline = clockOf(stop.mustArriveBy);
+  const parts: string[] = [];
+  if (opens !== null && closes !== null) parts.push(t('window.opensCloses', { opens: formatClock(opens), closes: formatClock(closes) }));
+  else if (opens !== null) parts.push(t('window.opens', { time: formatClock(opens) }));
+  else if (closes !== null) parts.push(t('window.closes', { time: formatClock(closes) }));
+  if (deadline !== null) parts.push(t('window.by', { time: formatClock(deadline) }));
+  return parts.join(' · ');
+};
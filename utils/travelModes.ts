@@ -0,0 +1,81 @@
+
+import type { ErrandPlan, ErrandStop, LatLng, TravelMode, TravelModeSetting } from '../types';
+import { AVERAGE_DRIVING_KMH, estimateTravelMinutes, haversineKm, stopCoords } from './geo';
+
+// Picker order; labels live in the translation catalog under travelMode.*.
+export const TRAVEL_MODES: TravelModeSetting[] = ['driving', 'walking', 'bicycling', 'transit', 'park-walk'];
+
+export const MODE_SPEED_KMH: Record<TravelMode, number> = {
+  driving: AVERAGE_DRIVING_KMH,
+  walking: 4.5,
+  bicycling: 14,
+  transit: 18,
+};
+
+// Average wait for a bus or train, added to every transit leg.
+const TRANSIT_WAIT_MINUTES = 8;
+
+// Park-once mode walks to any stop this close to where the car is parked.
+export const WALKING_CLUSTER_RADIUS_KM = 0.6;
+
+export const planTravelMode = (plan: ErrandPlan): TravelModeSetting => plan.travelMode ?? 'driving';
+
+// The mode used between clusters, and for legs with no mode recorded.
+export const baseTravelMode = (setting: TravelModeSetting): TravelMode => (setting === 'park-walk' ? 'driving' : setting);
+
+export const modeLegMinutes = (km: number, mode: TravelMode = 'driving') =>
+  estimateTravelMinutes(km, MODE_SPEED_KMH[mode]) + (mode === 'transit' ? TRANSIT_WAIT_MINUTES : 0);
+
+/**
+ * Stamps each stop with the mode of the leg that reaches it. In park-once
+ * mode, consecutive stops within walking distance of a parking stop form a
+ * cluster: the first is driven to, the rest are walked to. One-stop
+ * clusters carry no clusterId. Household plans keep the per-member modes set
+ * by the split.
+ */
+export const annotateLegs = (plan: ErrandPlan): ErrandPlan => {
+  if ((plan.household?.length ?? 0) > 1) return plan;
+  const setting = planTravelMode(plan);
+  if (setting !== 'park-walk') {
+    return { ...plan, stops: plan.stops.map(({ clusterId, ...stop }) => ({ ...stop, legMode: setting })) };
+  }
+
+  let parked: LatLng | null = null;
+  let parkedId = '';
+  const stops = plan.stops.map((stop) => {
+    const coords = stopCoords(stop);
+    if (parked && coords && haversineKm(parked, coords) <= WALKING_CLUSTER_RADIUS_KM) {
+      return { ...stop, legMode: 'walking' as const, clusterId: parkedId };
+    }
+    parked = coords;
+    parkedId = stop.id;
+    return { ...stop, legMode: 'driving' as const, clusterId: stop.id };
+  });
+
+  const sizes = new Map<string, number>();
+  stops.forEach((s) => sizes.set(s.clusterId, (sizes.get(s.clusterId) ?? 0) + 1));
+  return {
+    ...plan,
+    stops: stops.map(({ clusterId, ...stop }) => (sizes.get(clusterId) as number) > 1 ? { ...stop, clusterId } : stop),
+  };
+};
+
+/**
+ * Leg timing for simulateSchedule that follows each stop's legMode. Driving
+ * out of a park-once cluster starts with the walk back to the car.
+ */
+export const legMinutesFor = (plan: ErrandPlan) => {
+  const byId = new Map(plan.stops.map((s) => [s.id, s]));
+  const fallback = baseTravelMode(planTravelMode(plan));
+  return (from: ErrandStop | null, to: ErrandStop | LatLng, km: number) => {
+    const mode = 'id' in to ? to.legMode ?? fallback : fallback;
+    const parked = from?.clusterId && from.clusterId !== from.id ? byId.get(from.clusterId) : undefined;
+    const carAt = parked && stopCoords(parked);
+    const here = from && stopCoords(from);
+    const there = 'id' in to ? stopCoords(to) : to;
+    if (mode === 'driving' && carAt && here && there) {
+      return modeLegMinutes(haversineKm(here, carAt), 'walking') + modeLegMinutes(haversineKm(carAt, there), 'driving');
+    }
+    return modeLegMinutes(km, mode);
+  };
+};
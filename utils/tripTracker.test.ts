@@ -0,0 +1,62 @@
+
+import { describe, expect, it } from 'vitest';
+import type { ErrandPlan, ErrandStop, LatLng } from '../types';
+import { applyTripUpdate, ARRIVAL_RADIUS_KM, DEPARTURE_RADIUS_KM, detectTripUpdate } from './tripTracker';
+
+// One km of latitude, for placing fixes at a known distance north of a stop.
+const KM_LAT = 1 / 111.195;
+const north = (point: LatLng, km: number): LatLng => ({ lat: point.lat + km * KM_LAT, lng: point.lng });
+
+const bakery = { lat: 37.78, lng: -122.41 };
+const stop = (id: string, coords: LatLng, status?: ErrandStop['status']): ErrandStop => ({
+  id,
+  name: id,
+  address: '',
+  category: 'Errand',
+  reason: '',
+  arrivalEstimate: '',
+  parkingDifficulty: 'Easy',
+  crowdLevel: 'Low',
+  googleMapsUrl: '',
+  ...coords,
+  status,
+});
+
+describe('detectTripUpdate', () => {
+  it('arrives inside the 75 m radius, not outside it', () => {
+    const stops = [stop('bakery', bakery)];
+    expect(detectTripUpdate(stops, north(bakery, ARRIVAL_RADIUS_KM + 0.005))).toBeNull();
+    expect(detectTripUpdate(stops, north(bakery, ARRIVAL_RADIUS_KM - 0.005))).toEqual({ stopId: 'bakery', status: 'arrived' });
+  });
+
+  it('checks off only after leaving the wider 150 m radius', () => {
+    const stops = [stop('bakery', bakery, 'arrived')];
+    expect(detectTripUpdate(stops, north(bakery, 0.1))).toBeNull();
+    expect(detectTripUpdate(stops, north(bakery, DEPARTURE_RADIUS_KM - 0.005))).toBeNull();
+    expect(detectTripUpdate(stops, north(bakery, DEPARTURE_RADIUS_KM + 0.005))).toEqual({ stopId: 'bakery', status: 'done' });
+  });
+
+  it('watches only the next open stop', () => {
+    const bank = north(bakery, 1);
+    const stops = [stop('bakery', bakery, 'done'), stop('bank', bank), stop('post', north(bakery, 2))];
+    expect(detectTripUpdate(stops, north(bakery, 2))).toBeNull();
+    expect(detectTripUpdate(stops, bank)).toEqual({ stopId: 'bank', status: 'arrived' });
+  });
+
+  it('passes over an open stop that has no coordinates', () => {
+    const bank = north(bakery, 1);
+    const unlocated = { ...stop('atm', bakery), lat: undefined, lng: undefined };
+    const stops = [stop('bakery', bakery, 'done'), unlocated, stop('bank', bank)];
+    expect(detectTripUpdate(stops, bank)).toEqual({ stopId: 'bank', status: 'arrived' });
+  });
+
+  it('completes the last stop and then stays quiet', () => {
+    const plan = { stops: [stop('bakery', bakery, 'done'), stop('bank', north(bakery, 1), 'arrived')] } as ErrandPlan;
+    const update = detectTripUpdate(plan.stops, north(bakery, 1.2));
+    expect(update).toEqual({ stopId: 'bank', status: 'done' });
+
+    const done = applyTripUpdate(plan, update!);
+    expect(done.stops.every((s) => s.status === 'done')).toBe(true);
+    expect(detectTripUpdate(done.stops, north(bakery, 1.2))).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+
+import type { ErrandPlan, ErrandStop, LatLng, StopStatus } from '../types';
+import { haversineKm, stopCoords } from './geo';
+import { parseClock } from './time';
+import { simulateSchedule } from './timeWindows';
+import { UNKNOWN_LEG_MINUTES } from './planEdits';
+import { baseTravelMode, legMinutesFor, modeLegMinutes, planTravelMode } from './travelModes';
+
+// --- Types ---
+export interface TripProgress {
+  // The stop we are heading to or standing at; null once every stop is done.
+  current: ErrandStop | null;
+  currentIndex: number;
+  distanceKm: number | null;
+  etaMinutes: number | null;
+  // Projected minus planned arrival at `current`; negative means ahead.
+  scheduleDeltaMinutes: number | null;
+  remainingMinutes: number | null;
+  doneCount: number;
+  totalCount: number;
+}
+
+export interface TripUpdate {
+  stopId: string;
+  status: StopStatus;
+}
+
+// Inside this radius a stop counts as reached.
+export const ARRIVAL_RADIUS_KM = 0.075;
+// Leaving this radius after arriving counts as done. Wider than the arrival
+// radius so GPS jitter at the edge does not flap the status.
+export const DEPARTURE_RADIUS_KM = 0.15;
+
+export const nextOpenStopIndex = (stops: ErrandStop[]) => stops.findIndex((s) => s.status !== 'done');
+
+/**
+ * Geofence step for one position fix. Only the next open stop is
+ * considered, so passing another stop on the way does not check it off.
+ * Open stops without coordinates cannot be fenced; they are passed over
+ * and left for the user to check off by hand.
+ */
+export const detectTripUpdate = (stops: ErrandStop[], position: LatLng): TripUpdate | null => {
+  const stop = stops.find((s) => s.status !== 'done' && stopCoords(s));
+  if (!stop) return null;
+
+  const km = haversineKm(position, stopCoords(stop) as LatLng);
+  if (stop.status !== 'arrived' && km <= ARRIVAL_RADIUS_KM) return { stopId: stop.id, status: 'arrived' };
+  if (stop.status === 'arrived' && km > DEPARTURE_RADIUS_KM) return { stopId: stop.id, status: 'done' };
+  return null;
+};
+
+export const applyTripUpdate = (plan: ErrandPlan, update: TripUpdate): ErrandPlan => ({
+  ...plan,
+  stops: plan.stops.map((s) => (s.id === update.stopId ? { ...s, status: update.status } : s)),
+});
+
+/**
+ * Live numbers for the trip panel. `now` is minutes since midnight; planned
+ * arrivals come from each stop's arrivalEstimate, which trip mode leaves
+ * untouched so there is something to compare against.
+ */
+export const computeTripProgress = (plan: ErrandPlan, position: LatLng | null, now: number): TripProgress => {
+  const index = nextOpenStopIndex(plan.stops);
+  const doneCount = plan.stops.filter((s) => s.status === 'done').length;
+  const base = { currentIndex: index, doneCount, totalCount: plan.stops.length };
+  if (index === -1) {
+    return { ...base, current: null, distanceKm: null, etaMinutes: null, scheduleDeltaMinutes: null, remainingMinutes: 0 };
+  }
+
+  const current = plan.stops[index];
+  const coords = stopCoords(current);
+  const distanceKm = position && coords ? haversineKm(position, coords) : null;
+  const mode = current.legMode ?? baseTravelMode(planTravelMode(plan));
+  const etaMinutes = current.status === 'arrived' ? 0 : distanceKm !== null ? modeLegMinutes(distanceKm, mode) : null;
+  const planned = parseClock(current.arrivalEstimate);
+  const scheduleDeltaMinutes =
+    current.status === 'arrived' || etaMinutes === null || planned === null ? null : now + etaMinutes - planned;
+
+  let remainingMinutes: number | null = null;
+  if (position) {
+    const open = plan.stops.slice(index);
+    const schedule = simulateSchedule(position, open, now, {
+      unknownLegMinutes: UNKNOWN_LEG_MINUTES,
+      legMinutes: legMinutesFor(plan),
+    });
+    remainingMinutes = schedule ? schedule.endAt - now : null;
+  }
+
+  return { ...base, current, distanceKm, etaMinutes, scheduleDeltaMinutes, remainingMinutes };
+};
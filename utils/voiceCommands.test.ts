@@ -0,0 +1,110 @@
+
+import { describe, expect, it } from 'vitest';
+import type { ErrandStop } from '../types';
+import {
+  findStopByTarget,
+  matchesTarget,
+  moveErrandInInput,
+  parseVoiceCommand,
+  pickTranscript,
+  removeErrandFromInput,
+} from './voiceCommands';
+
+describe('parseVoiceCommand', () => {
+  it.each([
+    ['Remove the pharmacy', { type: 'remove', target: 'pharmacy' }],
+    ['please skip my dry cleaning.', { type: 'remove', target: 'dry cleaning' }],
+    ['Quita la farmacia', { type: 'remove', target: 'farmacia' }],
+    ['make the bank last', { type: 'move', target: 'bank', position: 'last' }],
+    ['Put groceries first!', { type: 'move', target: 'groceries', position: 'first' }],
+    ['pon el banco al final', { type: 'move', target: 'banco', position: 'last' }],
+    ['Deja la panadería primero', { type: 'move', target: 'panaderia', position: 'first' }],
+    ['Start over', { type: 'reset' }],
+    ['borra todo', { type: 'reset' }],
+    ["Let's go!", { type: 'go' }],
+    ['Ya está', { type: 'go' }],
+  ])('reads %j', (transcript, command) => {
+    expect(parseVoiceCommand(transcript)).toEqual(command);
+  });
+
+  it.each([
+    'go to the bank',
+    'pick up the dry cleaning and remove stains',
+    'buy milk',
+    '',
+  ])('leaves %j as an errand', (transcript) => {
+    expect(parseVoiceCommand(transcript)).toBeNull();
+  });
+});
+
+describe('pickTranscript', () => {
+  it('keeps the top alternative when nothing below is a sure command', () => {
+    expect(pickTranscript([{ transcript: 'go to the bank', confidence: 0.9 }, { transcript: 'go', confidence: 0.5 }])).toBe('go to the bank');
+    expect(pickTranscript([{ transcript: 'go to the bank' }, { transcript: 'go' }])).toBe('go to the bank');
+  });
+
+  it('takes a confident lower alternative that reads as a command', () => {
+    expect(pickTranscript([{ transcript: 'lets go', confidence: 0.6 }, { transcript: "let's go", confidence: 0.9 }])).toBe("let's go");
+  });
+
+  it('never swaps a top-ranked command for another one', () => {
+    expect(pickTranscript([{ transcript: 'remove the farm see', confidence: 0.4 }, { transcript: 'remove the pharmacy', confidence: 0.85 }]))
+      .toBe('remove the farm see');
+    expect(pickTranscript([{ transcript: ' start over ' }, { transcript: 'start', confidence: 0.99 }])).toBe('start over');
+  });
+
+  it('skips empty alternatives', () => {
+    expect(pickTranscript([{ transcript: '  ' }, { transcript: 'buy milk' }])).toBe('buy milk');
+    expect(pickTranscript([])).toBe('');
+  });
+});
+
+describe('matchesTarget', () => {
+  it('matches loosely: words, plurals, accents and case', () => {
+    expect(matchesTarget('CVS Pharmacy', 'the pharmacy')).toBe(true);
+    expect(matchesTarget('buy coffee beans', 'coffee')).toBe(true);
+    expect(matchesTarget('Library', 'libraries')).toBe(true);
+    expect(matchesTarget('groceries', 'groceries')).toBe(true);
+    expect(matchesTarget('Café Luna', 'cafe')).toBe(true);
+    expect(matchesTarget('Hardware store', 'pharmacy')).toBe(false);
+    expect(matchesTarget('', 'pharmacy')).toBe(false);
+  });
+});
+
+describe('findStopByTarget', () => {
+  const stop = (id: string, name: string, extra: Partial<ErrandStop> = {}): ErrandStop => ({
+    id,
+    name,
+    address: '',
+    category: 'Errand',
+    reason: '',
+    arrivalEstimate: '',
+    parkingDifficulty: 'Easy',
+    crowdLevel: 'Low',
+    googleMapsUrl: '',
+    ...extra,
+  });
+
+  it('finds a stop by name, category or item', () => {
+    const stops = [
+      stop('1', 'Walgreens', { category: 'Pharmacy' }),
+      stop('2', 'Fresh Market', { items: [{ id: 'milk', name: 'Oat milk' }] }),
+    ];
+    expect(findStopByTarget(stops, 'pharmacy')?.id).toBe('1');
+    expect(findStopByTarget(stops, 'the milk')?.id).toBe('2');
+    expect(findStopByTarget(stops, 'bank')).toBeUndefined();
+  });
+});
+
+describe('editing the typed errand list', () => {
+  const input = 'pharmacy, dry cleaning, groceries at Trader Joes';
+
+  it('removes the errands that mention the target', () => {
+    expect(removeErrandFromInput(input, 'dry cleaning')).toBe('pharmacy, groceries at Trader Joes');
+  });
+
+  it('moves the errands that mention the target to either end', () => {
+    expect(moveErrandInInput(input, 'pharmacy', 'last')).toBe('dry cleaning, groceries at Trader Joes, pharmacy');
+    expect(moveErrandInInput(input, 'groceries', 'first')).toBe('groceries at Trader Joes, pharmacy, dry cleaning');
+  });
+});
@@ -0,0 +1,91 @@
+
+import type { ErrandStop } from '../types';
+
+// --- Types ---
+export type VoiceCommand =
+  | { type: 'remove'; target: string }
+  | { type: 'move'; target: string; position: 'first' | 'last' }
+  | { type: 'reset' }
+  | { type: 'go' };
+
+// Accents and case never decide a match: "cafe" finds "Café".
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[.,!?¡¿]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const ARTICLES = /^(?:the|my|a|an|el|la|los|las|mi|mis|un|una)\s+/;
+
+const cleanTarget = (text: string) => normalize(text).replace(ARTICLES, '').trim();
+
+// Commands must be the whole utterance, so "go to the bank" stays an errand.
+// Fixed phrases come first, so "borra todo" resets rather than removing "todo".
+const COMMANDS: [RegExp, (match: RegExpMatchArray) => VoiceCommand][] = [
+  [/^(?:start over|clear(?: all| everything)?|reset)$/, () => ({ type: 'reset' })],
+  [/^(?:empieza|empezar|volver a empezar|borra todo|borrar todo)(?: de nuevo)?$/, () => ({ type: 'reset' })],
+  [/^(?:go|let's go|plan it|that's it|vamos|adelante|listo|ya esta)$/, () => ({ type: 'go' })],
+  [/^(?:please )?(?:remove|delete|cancel|skip|forget) (.+)$/, (m) => ({ type: 'remove', target: m[1] })],
+  [/^(?:quita|quitar|elimina|eliminar|borra|borrar|olvida) (.+)$/, (m) => ({ type: 'remove', target: m[1] })],
+  [/^(?:make|put|move|do) (.+?) (?:the )?(last|first)$/, (m) => ({ type: 'move', target: m[1], position: m[2] as 'first' | 'last' })],
+  [/^(?:pon|poner|deja|dejar|haz) (.+?) (?:al final|(?:de |en )?ultim[oa])$/, (m) => ({ type: 'move', target: m[1], position: 'last' })],
+  [/^(?:pon|poner|deja|dejar|haz) (.+?) (?:al principio|(?:de |en )?primer[oa]?)$/, (m) => ({ type: 'move', target: m[1], position: 'first' })],
+];
+
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const text = normalize(transcript);
+  for (const [pattern, build] of COMMANDS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const command = build(match);
+    if ('target' in command) {
+      const target = cleanTarget(command.target);
+      if (!target) continue;
+      return { ...command, target };
+    }
+    return command;
+  }
+  return null;
+};
+
+// A lower-ranked alternative has to be this sure before it may run a command.
+export const COMMAND_CONFIDENCE_FLOOR = 0.8;
+
+/**
+ * Picks what the user most likely said: the top alternative, unless a lower
+ * one reads as a command and the recognizer is confident in it. A misheard
+ * "go" or "remove ..." would otherwise submit or delete on its own.
+ */
+export const pickTranscript = (alternatives: { transcript: string; confidence?: number }[]) => {
+  const spoken = alternatives
+    .map((a) => ({ text: a.transcript.trim(), confidence: a.confidence ?? 0 }))
+    .filter((a) => a.text);
+  const top = spoken[0]?.text ?? '';
+  if (!top || parseVoiceCommand(top)) return top;
+  const command = spoken.slice(1).find((a) => a.confidence >= COMMAND_CONFIDENCE_FLOOR && parseVoiceCommand(a.text));
+  return command?.text ?? top;
+};
+
+// Loose match: "pharmacy" finds "CVS Pharmacy", "coffee" finds "coffee beans", plurals included.
+export const matchesTarget = (text: string, target: string) => {
+  const haystack = normalize(text);
+  if (!haystack) return false;
+  return cleanTarget(target)
+    .split(' ')
+    .every((word) => haystack.includes(word) || (word.length > 3 && haystack.includes(word.replace(/ies$/, 'y').replace(/e?s$/, ''))));
+};
+
+/** The first stop whose name, category or items mention the spoken target. */
+export const findStopByTarget = (stops: ErrandStop[], target: string) =>
+  stops.find((stop) =>
+    [stop.name, stop.category, ...(stop.items ?? []).map((i) => i.name)].some((text) => matchesTarget(String(text ?? ''), target))
+  );
+
+const splitInput = (input: string) => input.split(',').map((s) => s.trim()).filter(Boolean);
+
+export const removeErrandFromInput = (input: string, target: string) =>
+  splitInput(input).filter((errand) => !matchesTarget(errand, target)).join(', ');
+
+export const moveErrandInInput = (input: string, target: string, position: 'first' | 'last') => {
+  const errands = splitInput(input);
+  const matching = errands.filter((errand) => matchesTarget(errand, target));
+  const rest = errands.filter((errand) => !matchesTarget(errand, target));
+  return (position === 'first' ? [...matching, ...rest] : [...rest, ...matching]).join(', ');
+};
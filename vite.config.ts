@@ -1,9 +1,13 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a key proxy configured the key stays on the proxy and is never written into the bundle.
+    const proxyUrl = env.GEMINI_PROXY_URL ?? '';
+    const bundledKey = proxyUrl ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,13 +15,19 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(proxyUrl)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // Hook tests opt into jsdom with a @vitest-environment comment.
+        environment: 'node',
+        restoreMocks: true,
       }
     };
 });